@@ -0,0 +1,17 @@
+CREATE TABLE "pending_triggers" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"telegram_id" bigint NOT NULL,
+	"from_asset" text NOT NULL,
+	"from_network" text NOT NULL,
+	"to_asset" text NOT NULL,
+	"to_network" text NOT NULL,
+	"amount" real NOT NULL,
+	"settle_address" text NOT NULL,
+	"trigger_asset" text NOT NULL,
+	"trigger_condition" text NOT NULL,
+	"trigger_price" real NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"last_price" real,
+	"triggered_at" timestamp,
+	"created_at" timestamp DEFAULT now()
+);
@@ -0,0 +1,18 @@
+CREATE TABLE "dca_schedules" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"telegram_id" bigint NOT NULL,
+	"from_asset" text NOT NULL,
+	"from_network" text NOT NULL,
+	"to_asset" text NOT NULL,
+	"to_network" text NOT NULL,
+	"amount" real NOT NULL,
+	"settle_address" text NOT NULL,
+	"cadence" text NOT NULL,
+	"cadence_day" integer,
+	"status" text DEFAULT 'active' NOT NULL,
+	"next_run_at" timestamp NOT NULL,
+	"last_run_at" timestamp,
+	"run_count" integer DEFAULT 0 NOT NULL,
+	"end_date" timestamp,
+	"created_at" timestamp DEFAULT now()
+);
@@ -0,0 +1,2 @@
+ALTER TABLE "orders" ALTER COLUMN "quote_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "shift_type" text DEFAULT 'fixed' NOT NULL;
\ No newline at end of file
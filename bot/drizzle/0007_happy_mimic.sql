@@ -0,0 +1 @@
+ALTER TABLE "users" ADD COLUMN "region" text;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "orders" ALTER COLUMN "status" SET DEFAULT 'waiting';--> statement-breakpoint
+ALTER TABLE "watched_orders" ALTER COLUMN "last_status" SET DEFAULT 'waiting';
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "portfolio_batches" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"telegram_id" bigint NOT NULL,
+	"from_asset" text NOT NULL,
+	"from_network" text NOT NULL,
+	"amount" real NOT NULL,
+	"status" text DEFAULT 'placing' NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "batch_id" integer;
\ No newline at end of file
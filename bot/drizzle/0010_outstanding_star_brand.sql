@@ -0,0 +1,5 @@
+CREATE TABLE "wallet_link_requests" (
+	"nonce" text PRIMARY KEY NOT NULL,
+	"telegram_id" bigint NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
@@ -0,0 +1 @@
+ALTER TABLE "orders" ADD COLUMN "refund_address" text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "conversations" ADD COLUMN "history" text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "users" ADD COLUMN "max_rate_deviation" real;
\ No newline at end of file
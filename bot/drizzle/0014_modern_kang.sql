@@ -0,0 +1,2 @@
+ALTER TABLE "orders" ADD COLUMN "provider" text DEFAULT 'sideshift' NOT NULL;--> statement-breakpoint
+ALTER TABLE "watched_orders" ADD COLUMN "provider" text DEFAULT 'sideshift' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "checkouts" ADD COLUMN "settle_hash" text;--> statement-breakpoint
+ALTER TABLE "checkouts" ADD COLUMN "last_checked" timestamp;
\ No newline at end of file
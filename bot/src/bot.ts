@@ -1,122 +1,56 @@
 import { Telegraf, Markup } from 'telegraf';
 import { message } from 'telegraf/filters';
 import dotenv from 'dotenv';
-import { parseUserCommand, transcribeAudio } from './services/groq-client';
-import { createQuote, createOrder, createCheckout, getOrderStatus } from './services/sideshift-client';
+import { parseUserCommand, transcribeAudio, ParsedCommand } from './services/groq-client';
+import { createQuote, createOrder, createCheckout, getOrderStatus, createVariableShift, getShiftModes, getPair, registerWebhook, ShiftMode, AmountSide } from './services/sideshift-client';
 import { getTopStablecoinYields, getTopYieldPools, suggestMigration, findHigherYieldPools, formatMigrationMessage, MigrationSuggestion } from './services/yield-client';
 import * as db from './services/database';
-import { ethers } from 'ethers';
 import axios from 'axios';
 import fs from 'fs';
+import os from 'os';
 import path from 'path';
 import { exec } from 'child_process';
 import express from 'express';
-import { chainIdMap } from './config/chains';
 import { handleError } from './services/logger';
-import { tokenResolver } from './services/token-resolver';
+import { buildDepositPrompt, buildSignUrl } from './services/mini-app';
 import { OrderMonitor } from './services/order-monitor';
-import { resolveAddress, isNamingService } from './services/address-resolver';
+import { describeOrderStatus, isTerminalStatus, parseOrderStatus } from './services/order-status';
+import { TriggerMonitor } from './services/trigger-monitor';
+import { CheckoutMonitor, describeLastChecked } from './services/checkout-monitor';
+import { getUsdPrice, isPriceSupported } from './services/price-client';
+import { DcaScheduler, getNextRunDate, describeCadence } from './services/dca-scheduler';
+import { resolveAddress, isNamingService, isValidAddress, hasAddressFormat } from './services/address-resolver';
+import { applyCorrection, fillSlot, mergeCommands, nextSlot, slotQuestion, validateFilledCommand } from './services/dialogue-manager';
+import type { CommandSlot } from './services/command-slots';
+import { createSideShiftWebhookHandler, isWebhookEnabled } from './services/sideshift-webhook';
+import { checkSwapPermission, isValidRegion, SwapPermission } from './services/region-policy';
+import { placePortfolioBatch, summarizePortfolioLegs, describePortfolioBatch } from './services/portfolio-batch';
+import { canonicalizeCommand, applyNetworkChoice, matchNetworkChoice, MAX_NETWORK_OPTIONS, NetworkQuestion } from './services/asset-canonicalizer';
+import { preflightCommand } from './services/shift-preflight';
+import { resolveCommandAmount } from './services/balance-service';
+import { createWalletLinkUrl, createWalletLinkHandler, getLinkedWallet } from './services/wallet-link';
+import { canRefundToPayoutAddress, findRefundAddress, getRefundAddress } from './services/refund-address';
+import { checkUserQuoteRate, describeRateDeviation, DEFAULT_MAX_RATE_DEVIATION, RateCheck } from './services/rate-guard';
+import { compareWithSideShift, describeRoutes, findRoute, getProviderOrderStatus, getSwapProviderName, providerForOrderId, RouteQuote, TX_HASH } from './services/swap-router';
+import { QuoteCountdown, describeRateChange, isQuoteExpired, renderExpiredQuote, renderQuoteMessage } from './services/quote-countdown';
 
 dotenv.config();
-const MINI_APP_URL = process.env.MINI_APP_URL!;
 const bot = new Telegraf(process.env.BOT_TOKEN!);
 
-// Initialize order monitor
-const orderMonitor = new OrderMonitor(bot);
-
-// --- ADDRESS VALIDATION PATTERNS ---
-const ADDRESS_PATTERNS: Record<string, RegExp> = {
-  // EVM chains
-  ethereum: /^0x[a-fA-F0-9]{40}$/,
-  base: /^0x[a-fA-F0-9]{40}$/,
-  arbitrum: /^0x[a-fA-F0-9]{40}$/,
-  polygon: /^0x[a-fA-F0-9]{40}$/,
-  bsc: /^0x[a-fA-F0-9]{40}$/,
-  optimism: /^0x[a-fA-F0-9]{40}$/,
-  avalanche: /^0x[a-fA-F0-9]{40}$/,
-  fantom: /^0x[a-fA-F0-9]{40}$/,
-  cronos: /^0x[a-fA-F0-9]{40}$/,
-  moonbeam: /^0x[a-fA-F0-9]{40}$/,
-  moonriver: /^0x[a-fA-F0-9]{40}$/,
-  celo: /^0x[a-fA-F0-9]{40}$/,
-  gnosis: /^0x[a-fA-F0-9]{40}$/,
-  harmony: /^0x[a-fA-F0-9]{40}$/,
-  metis: /^0x[a-fA-F0-9]{40}$/,
-  aurora: /^0x[a-fA-F0-9]{40}$/,
-  kava: /^0x[a-fA-F0-9]{40}$/,
-  evmos: /^0x[a-fA-F0-9]{40}$/,
-  boba: /^0x[a-fA-F0-9]{40}$/,
-  okc: /^0x[a-fA-F0-9]{40}$/,
-  heco: /^0x[a-fA-F0-9]{40}$/,
-  iotex: /^0x[a-fA-F0-9]{40}$/,
-  klaytn: /^0x[a-fA-F0-9]{40}$/,
-  conflux: /^0x[a-fA-F0-9]{40}$/,
-  astar: /^0x[a-fA-F0-9]{40}$/,
-  shiden: /^0x[a-fA-F0-9]{40}$/,
-  telos: /^0x[a-fA-F0-9]{40}$/,
-  fuse: /^0x[a-fA-F0-9]{40}$/,
-  velas: /^0x[a-fA-F0-9]{40}$/,
-  thundercore: /^0x[a-fA-F0-9]{40}$/,
-  xdc: /^xdc[a-fA-F0-9]{40}$/,
-  nahmii: /^0x[a-fA-F0-9]{40}$/,
-  callisto: /^0x[a-fA-F0-9]{40}$/,
-  smartbch: /^0x[a-fA-F0-9]{40}$/,
-  energyweb: /^0x[a-fA-F0-9]{40}$/,
-  theta: /^0x[a-fA-F0-9]{40}$/,
-  flare: /^0x[a-fA-F0-9]{40}$/,
-  songbird: /^0x[a-fA-F0-9]{40}$/,
-  coston: /^0x[a-fA-F0-9]{40}$/,
-  coston2: /^0x[a-fA-F0-9]{40}$/,
-  rei: /^0x[a-fA-F0-9]{40}$/,
-  kekchain: /^0x[a-fA-F0-9]{40}$/,
-  tomochain: /^0x[a-fA-F0-9]{40}$/,
-  bitgert: /^0x[a-fA-F0-9]{40}$/,
-  clover: /^0x[a-fA-F0-9]{40}$/,
-  defichain: /^0x[a-fA-F0-9]{40}$/,
-  findora: /^0x[a-fA-F0-9]{40}$/,
-  gatechain: /^0x[a-fA-F0-9]{40}$/,
-  meter: /^0x[a-fA-F0-9]{40}$/,
-  nova: /^0x[a-fA-F0-9]{40}$/,
-  syscoin: /^0x[a-fA-F0-9]{40}$/,
-  zksync: /^0x[a-fA-F0-9]{40}$/,
-  polygonzkevm: /^0x[a-fA-F0-9]{40}$/,
-  linea: /^0x[a-fA-F0-9]{40}$/,
-  mantle: /^0x[a-fA-F0-9]{40}$/,
-  scroll: /^0x[a-fA-F0-9]{40}$/,
-  taiko: /^0x[a-fA-F0-9]{40}$/,
-  bitcoin: /^[13][a-km-zA-HJ-NP-Z1-9]{25,34}$|^bc1[a-z0-9]{39,59}$/,
-  solana: /^[1-9A-HJ-NP-Za-km-z]{32,44}$/,
-  polkadot: /^1[a-zA-Z0-9]{47}$/,
-  cardano: /^addr1[a-z0-9]{98}$|^Ae2tdPwUPEZ[a-zA-Z0-9]{50}$/,
-  monero: /^[48][0-9AB][1-9A-HJ-NP-Za-km-z]{93}$/,
-  litecoin: /^[LM3][a-km-zA-HJ-NP-Z1-9]{26,33}$/,
-  dogecoin: /^D[5-9A-HJ-NP-U][1-9A-HJ-NP-Za-km-z]{24,33}$/,
-  dash: /^X[1-9A-HJ-NP-Za-km-z]{33}$/,
-  zcash: /^t1[a-zA-Z0-9]{33}$|^t3[a-zA-Z0-9]{33}$/,
-  ripple: /^r[1-9A-HJ-NP-Za-km-z]{24,34}$/,
-  stellar: /^G[A-Z0-9]{55}$/,
-  cosmos: /^cosmos1[a-z0-9]{38}$/,
-  osmosis: /^osmo1[a-z0-9]{38}$/,
-  terra: /^terra1[a-z0-9]{38}$/,
-  tron: /^T[1-9A-HJ-NP-Za-km-z]{33}$/,
-  tezos: /^tz[1-3][a-zA-Z0-9]{33}$/,
-  algorand: /^[A-Z0-9]{58}$/,
-  near: /^[a-z0-9_-]{2,64}\.near$|^[a-fA-F0-9]{64}$/,
-  flow: /^0x[a-fA-F0-9]{16}$/,
-  hedera: /^0\.0\.\d+$/,
-  elrond: /^erd1[a-z0-9]{58}$/,
-  kusama: /^[A-Z0-9]{47}$/,
-  rsk: /^0x[a-fA-F0-9]{40}$/,
-  waves: /^3P[a-zA-Z0-9]{33}$/,
-  zilliqa: /^zil1[a-z0-9]{38}$/,
-};
-
-function isValidAddress(address: string, chain?: string): boolean {
-  if (!address) return false;
-  const targetChain = chain?.toLowerCase() || 'ethereum';
-  const pattern = ADDRESS_PATTERNS[targetChain] || ADDRESS_PATTERNS.ethereum;
-  return pattern.test(address.trim());
-}
+// Initialize order monitor (slow reconciliation polling when SideShift webhooks are configured)
+const orderMonitor = new OrderMonitor(bot, { webhooksEnabled: isWebhookEnabled() });
+
+// Initialize price trigger monitor for conditional swaps
+const triggerMonitor = new TriggerMonitor(bot);
+
+// Initialize checkout monitor so merchants hear when their payment links are paid
+const checkoutMonitor = new CheckoutMonitor(bot);
+
+// Initialize recurring (DCA) swap scheduler
+const dcaScheduler = new DcaScheduler(bot);
+
+// Counts down fixed-rate quotes and offers a refresh once they expire
+const quoteCountdown = new QuoteCountdown(bot);
 
 // --- FFMPEG CHECK ---
 // --- FFMPEG CHECK (non-blocking, correct) ---
@@ -128,12 +62,6 @@ exec('ffmpeg -version', (error) => {
     }
 });
 
-
-// --- ERC20 CONFIGURATION ---
-const ERC20_ABI = [
-    "function transfer(address to, uint256 amount) returns (bool)"
-];
-
 async function logAnalytics(ctx: any, errorType: string, details: any) {
     await handleError(errorType, details, ctx, true);
 }
@@ -154,6 +82,16 @@ bot.start((ctx) => {
         "/watch [id] - Watch order for completion\n" +
         "/unwatch [id] - Stop watching order\n" +
         "/watching - List watched orders\n" +
+        "/portfolio_status [id] - Check a portfolio's legs\n" +
+        "/triggers - List pending price triggers\n" +
+        "/cancel_trigger [id] - Cancel a price trigger\n" +
+        "/dca_list - List recurring buys\n" +
+        "/dca_pause [id] - Pause a recurring buy\n" +
+        "/dca_resume [id] - Resume a recurring buy\n" +
+        "/dca_cancel [id] - Cancel a recurring buy\n" +
+        "/region [code] - Set your country (e.g. DE)\n" +
+        "/link_wallet - Link your wallet for payouts and refunds\n" +
+        "/slippage [%] - Max rate below market before I ask again\n" +
         "/clear - Reset conversation\n\n" +
         "💡 *Tip:* Check out our web interface for a graphical experience!",
         {
@@ -173,10 +111,12 @@ bot.command('history', async (ctx) => {
 
     let message = "Your last 10 orders:\n\n";
     orders.forEach((order) => {
-        message += `*Order ${order.sideshiftOrderId}* (${order.status})\n`;
+        const venue = order.provider !== 'sideshift' ? `, via ${getSwapProviderName(order.provider)}` : '';
+        message += `*Order ${order.sideshiftOrderId}* (${order.status}${order.shiftType === 'variable' ? ', variable rate' : ''}${venue})\n`;
         message += `  *Send:* ${order.fromAmount} ${order.fromAsset} (${order.fromNetwork})\n`;
         message += `  *Rcv:* ~${order.settleAmount} ${order.toAsset} (${order.toNetwork})\n`;
         message += `  *To:* \`${order.depositAddress}\`\n`;
+        message += `  *Refund:* ${order.refundAddress ? `\`${order.refundAddress}\`` : 'not set'}\n`;
         if (order.txHash) message += `  *TxHash:* \`${order.txHash.substring(0, 10)}...\`\n`;
         message += `  *Date:* ${new Date(order.createdAt as Date).toLocaleString()}\n\n`;
     });
@@ -197,14 +137,19 @@ bot.command('status', async (ctx) => {
         }
 
         await ctx.reply(`⏳ Checking status...`);
-        const status = await getOrderStatus(orderIdToCheck);
-        db.updateOrderStatus(orderIdToCheck, status.status);
+        const status = await getProviderOrderStatus(providerForOrderId(orderIdToCheck), orderIdToCheck);
+        const orderStatus = parseOrderStatus(status.status);
+        if (orderStatus) db.updateOrderStatus(orderIdToCheck, orderStatus);
 
         let message = `*Order Status: ${status.id}*\n\n`;
         message += `  *Status:* \`${status.status.toUpperCase()}\`\n`;
         message += `  *Send:* ${status.depositAmount || '?'} ${status.depositCoin} (${status.depositNetwork})\n`;
         message += `  *Receive:* ${status.settleAmount || '?'} ${status.settleCoin} (${status.settleNetwork})\n`;
-        message += `  *Created:* ${new Date(status.createdAt).toLocaleString()}\n`;
+        if (status.createdAt) message += `  *Created:* ${new Date(status.createdAt).toLocaleString()}\n`;
+        if (orderStatus) {
+            const { title, guidance } = describeOrderStatus(orderStatus, status);
+            message += `\n${title}\n${guidance}\n`;
+        }
 
         ctx.replyWithMarkdown(message);
     } catch (error) {
@@ -227,15 +172,21 @@ bot.command('watch', async (ctx) => {
 
         // Check if order exists and get its current status
         await ctx.reply(`⏳ Setting up watch for order \`${orderIdToWatch}\`...`, { parse_mode: 'Markdown' });
-        const status = await getOrderStatus(orderIdToWatch);
+        const provider = providerForOrderId(orderIdToWatch);
+        const status = await getProviderOrderStatus(provider, orderIdToWatch);
         
+        const orderStatus = parseOrderStatus(status.status);
+        if (!orderStatus) {
+            return ctx.reply(`⚠️ Order \`${orderIdToWatch}\` has an unknown status (${status.status}). Try /status later.`, { parse_mode: 'Markdown' });
+        }
+
         // Check if already completed
-        if (status.status.toLowerCase() === 'settled' || status.status.toLowerCase() === 'refunded') {
-            return ctx.reply(`⚠️ Order \`${orderIdToWatch}\` is already ${status.status}. No need to watch.`, { parse_mode: 'Markdown' });
+        if (isTerminalStatus(orderStatus)) {
+            return ctx.reply(`⚠️ Order \`${orderIdToWatch}\` is already ${orderStatus}. No need to watch.`, { parse_mode: 'Markdown' });
         }
 
         // Add to watch list
-        await db.addWatchedOrder(userId, orderIdToWatch, status.status);
+        await db.addWatchedOrder(userId, orderIdToWatch, orderStatus, provider);
         
         let message = `✅ *Now watching order:* \`${orderIdToWatch}\`\n\n`;
         message += `*Current Status:* \`${status.status.toUpperCase()}\`\n`;
@@ -299,6 +250,240 @@ bot.command('watching', async (ctx) => {
     }
 });
 
+bot.command('portfolio_status', async (ctx) => {
+    const userId = ctx.from.id;
+    const args = ctx.message.text.split(' ');
+    const batchId = args[1] ? parseInt(args[1].replace('#', ''), 10) : null;
+
+    if (args[1] && !batchId) return ctx.reply('Usage: /portfolio_status [portfolio id]');
+
+    try {
+        const loaded = await loadPortfolioBatch(userId, batchId);
+        if (!loaded) {
+            return ctx.reply(batchId ? `Portfolio #${batchId} not found.` : "You have no portfolio swaps yet.");
+        }
+
+        const { text, keyboard } = await buildPortfolioLegsView(loaded.batch, loaded.legs);
+        ctx.replyWithMarkdown(`📊 *Portfolio #${loaded.batch.id}*\n\n${text}`, keyboard);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+        ctx.reply(`Sorry, couldn't get portfolio status. Error: ${errorMessage}`);
+    }
+});
+
+bot.command('triggers', async (ctx) => {
+    const userId = ctx.from.id;
+
+    try {
+        const triggers = await db.getUserPendingTriggers(userId);
+
+        if (triggers.length === 0) {
+            return ctx.reply("You have no pending price triggers.\n\nTry something like: \"If ETH goes above $3000, swap 1 ETH to BTC\"");
+        }
+
+        let message = `🎯 *Your Pending Triggers:*\n\n`;
+
+        for (const trigger of triggers) {
+            message += `*Trigger #${trigger.id}*\n`;
+            message += `  *When:* ${trigger.triggerAsset} ${trigger.triggerCondition} $${trigger.triggerPrice}\n`;
+            message += `  *Swap:* ${trigger.amount} ${trigger.fromAsset} (${trigger.fromNetwork}) → ${trigger.toAsset} (${trigger.toNetwork})\n`;
+            if (trigger.lastPrice !== null) message += `  *Last Price:* $${trigger.lastPrice}\n`;
+            message += `\n`;
+        }
+
+        message += `💡 Use /cancel_trigger [id] to cancel a trigger.`;
+
+        ctx.replyWithMarkdown(message);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+        ctx.reply(`Sorry, couldn't fetch your triggers. Error: ${errorMessage}`);
+    }
+});
+
+bot.command('cancel_trigger', async (ctx) => {
+    const userId = ctx.from.id;
+    const args = ctx.message.text.split(' ');
+    const triggerId = parseInt(args[1], 10);
+
+    if (isNaN(triggerId)) {
+        return ctx.reply("Usage: /cancel_trigger <id>\nUse /triggers to see your trigger ids.");
+    }
+
+    try {
+        const cancelled = await db.cancelPendingTrigger(userId, triggerId);
+        if (!cancelled) return ctx.reply(`⚠️ No pending trigger #${triggerId} found.`);
+        ctx.reply(`✅ Cancelled trigger #${triggerId}`);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+        ctx.reply(`Sorry, couldn't cancel trigger. Error: ${errorMessage}`);
+    }
+});
+
+bot.command('dca_list', async (ctx) => {
+    const userId = ctx.from.id;
+
+    try {
+        const schedules = (await db.getUserDcaSchedules(userId))
+            .filter(s => s.status === 'active' || s.status === 'paused');
+
+        if (schedules.length === 0) {
+            return ctx.reply("You have no recurring buys.\n\nTry something like: \"Buy 50 USDC of ETH every Monday\"");
+        }
+
+        let message = `🔁 *Your Recurring Buys:*\n\n`;
+
+        for (const schedule of schedules) {
+            message += `*DCA #${schedule.id}* (${schedule.status})\n`;
+            message += `  *Buy:* ${schedule.amount} ${schedule.fromAsset} (${schedule.fromNetwork}) → ${schedule.toAsset} (${schedule.toNetwork})\n`;
+            message += `  *When:* ${describeCadence(schedule.cadence, schedule.cadenceDay)}\n`;
+            if (schedule.status === 'active') message += `  *Next Run:* ${new Date(schedule.nextRunAt).toLocaleString()}\n`;
+            if (schedule.endDate) message += `  *Ends:* ${new Date(schedule.endDate).toLocaleDateString()}\n`;
+            message += `  *Runs So Far:* ${schedule.runCount}\n\n`;
+        }
+
+        message += `💡 Use /dca_pause, /dca_resume or /dca_cancel with an id to manage a schedule.`;
+
+        ctx.replyWithMarkdown(message);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+        ctx.reply(`Sorry, couldn't fetch your recurring buys. Error: ${errorMessage}`);
+    }
+});
+
+bot.command('dca_pause', async (ctx) => {
+    const userId = ctx.from.id;
+    const scheduleId = parseInt(ctx.message.text.split(' ')[1], 10);
+    if (isNaN(scheduleId)) return ctx.reply("Usage: /dca_pause <id>\nUse /dca_list to see your schedule ids.");
+
+    try {
+        const paused = await db.setDcaScheduleStatus(userId, scheduleId, ['active'], 'paused');
+        if (!paused) return ctx.reply(`⚠️ No active recurring buy #${scheduleId} found.`);
+        ctx.reply(`⏸️ Paused recurring buy #${scheduleId}. Use /dca_resume ${scheduleId} to continue.`);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+        ctx.reply(`Sorry, couldn't pause recurring buy. Error: ${errorMessage}`);
+    }
+});
+
+bot.command('dca_resume', async (ctx) => {
+    const userId = ctx.from.id;
+    const scheduleId = parseInt(ctx.message.text.split(' ')[1], 10);
+    if (isNaN(scheduleId)) return ctx.reply("Usage: /dca_resume <id>\nUse /dca_list to see your schedule ids.");
+
+    try {
+        const schedule = (await db.getUserDcaSchedules(userId)).find(s => s.id === scheduleId);
+        if (!schedule || schedule.status !== 'paused') return ctx.reply(`⚠️ No paused recurring buy #${scheduleId} found.`);
+
+        // Skip the runs missed while paused
+        const nextRunAt = getNextRunDate(schedule.cadence, schedule.cadenceDay, new Date());
+        await db.setDcaScheduleStatus(userId, scheduleId, ['paused'], 'active', nextRunAt);
+        ctx.reply(`▶️ Resumed recurring buy #${scheduleId}. Next run: ${nextRunAt.toLocaleString()}`);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+        ctx.reply(`Sorry, couldn't resume recurring buy. Error: ${errorMessage}`);
+    }
+});
+
+bot.command('dca_cancel', async (ctx) => {
+    const userId = ctx.from.id;
+    const scheduleId = parseInt(ctx.message.text.split(' ')[1], 10);
+    if (isNaN(scheduleId)) return ctx.reply("Usage: /dca_cancel <id>\nUse /dca_list to see your schedule ids.");
+
+    try {
+        const cancelled = await db.setDcaScheduleStatus(userId, scheduleId, ['active', 'paused'], 'cancelled');
+        if (!cancelled) return ctx.reply(`⚠️ No recurring buy #${scheduleId} found.`);
+        ctx.reply(`✅ Cancelled recurring buy #${scheduleId}`);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+        ctx.reply(`Sorry, couldn't cancel recurring buy. Error: ${errorMessage}`);
+    }
+});
+
+bot.command('region', async (ctx) => {
+    const userId = ctx.from.id;
+    const region = ctx.message.text.split(' ')[1];
+
+    if (!region) {
+        const user = await db.getUser(userId);
+        return ctx.reply(
+            `🌍 Your region is ${user?.region ? `*${user.region}*` : 'not set'}.\n\n` +
+            `Usage: /region <country code>, e.g. /region DE\nUse /region clear to remove it.`,
+            { parse_mode: 'Markdown' }
+        );
+    }
+
+    try {
+        if (region.toLowerCase() === 'clear') {
+            await db.setUserRegion(userId, null);
+            return ctx.reply('✅ Region cleared.');
+        }
+        if (!isValidRegion(region)) return ctx.reply("❌ Please use a two-letter country code, e.g. /region DE");
+
+        await db.setUserRegion(userId, region.toUpperCase());
+        ctx.reply(`✅ Region set to ${region.toUpperCase()}.`);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+        ctx.reply(`Sorry, couldn't update your region. Error: ${errorMessage}`);
+    }
+});
+
+bot.command('slippage', async (ctx) => {
+    const userId = ctx.from.id;
+    const arg = ctx.message.text.split(' ')[1]?.replace(/%$/, '');
+
+    if (!arg) {
+        const user = await db.getUser(userId);
+        const limit = user?.maxRateDeviation ?? DEFAULT_MAX_RATE_DEVIATION;
+        return ctx.reply(
+            `📉 Quotes more than *${limit}%* below the market rate need an extra confirmation${user?.maxRateDeviation == null ? ' (default)' : ''}.\n\n` +
+            `Usage: /slippage <percent>, e.g. /slippage 1.5\nUse /slippage clear to go back to the default.`,
+            { parse_mode: 'Markdown' }
+        );
+    }
+
+    try {
+        if (arg.toLowerCase() === 'clear') {
+            await db.setUserMaxRateDeviation(userId, null);
+            return ctx.reply(`✅ Slippage limit reset to ${DEFAULT_MAX_RATE_DEVIATION}%.`);
+        }
+        const limit = parseFloat(arg);
+        if (!/^\d*\.?\d+$/.test(arg) || limit > 50) return ctx.reply("❌ Please give a percentage between 0 and 50, e.g. /slippage 1.5");
+
+        await db.setUserMaxRateDeviation(userId, limit);
+        ctx.reply(`✅ Quotes more than ${limit}% below the market rate will need an extra confirmation.`);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+        ctx.reply(`Sorry, couldn't update your slippage limit. Error: ${errorMessage}`);
+    }
+});
+
+bot.command('link_wallet', async (ctx) => {
+    const userId = ctx.from.id;
+    const arg = ctx.message.text.split(' ')[1];
+
+    try {
+        if (arg?.toLowerCase() === 'clear') {
+            await db.setUserWallet(userId, null);
+            return ctx.reply('✅ Wallet unlinked.');
+        }
+
+        const user = await db.getUser(userId);
+        const linkUrl = await createWalletLinkUrl(userId);
+        return ctx.reply(
+            (user?.walletAddress ? `🔗 Linked wallet: \`${user.walletAddress}\`\n\nSign again to link a different one, or use /link\\_wallet clear to unlink.\n\n` : '') +
+            `Sign a message in your wallet to prove you own it. No transaction is sent.\n\n` +
+            `Your linked wallet becomes the default address for receiving swaps and for refunds on EVM networks.`,
+            {
+                parse_mode: 'Markdown',
+                ...Markup.inlineKeyboard([Markup.button.webApp('🔐 Link Wallet', linkUrl)])
+            }
+        );
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+        ctx.reply(`Sorry, couldn't start wallet linking. Error: ${errorMessage}`);
+    }
+});
+
 bot.command('checkouts', async (ctx) => {
     const userId = ctx.from.id;
     const checkouts = await db.getUserCheckouts(userId);
@@ -307,15 +492,18 @@ bot.command('checkouts', async (ctx) => {
     let message = "Your last 10 checkouts (payment links):\n\n";
     checkouts.forEach((checkout) => {
         const paymentUrl = `https://pay.sideshift.ai/checkout/${checkout.checkoutId}`;
-        message += `*Checkout ${checkout.id}* (${checkout.status})\n`;
+        // Unpaid links are still polled, so say how fresh their status is
+        const status = checkout.status !== 'paid' ? `${checkout.status}, ${describeLastChecked(checkout.lastChecked)}` : checkout.status;
+        message += `*Checkout ${checkout.id}* (${status})\n`;
         message += `  *Receive:* ${checkout.settleAmount} ${checkout.settleAsset} (${checkout.settleNetwork})\n`;
+        if (checkout.settleHash) message += `  *Settle tx:* \`${checkout.settleHash}\`\n`;
         message += `  *Link:* [Pay Here](${paymentUrl})\n`;
     });
     ctx.replyWithMarkdown(message, { link_preview_options: { is_disabled: true } });
 });
 
 bot.command('clear', (ctx) => {
-    db.clearConversationState(ctx.from.id);
+    db.clearConversation(ctx.from.id);
     ctx.reply('✅ Conversation history cleared.');
 });
 
@@ -445,6 +633,14 @@ bot.command('list_addresses', async (ctx) => {
 
 // --- MESSAGE HANDLERS ---
 
+function getConfirmAction(intent: string): string {
+    if (intent === 'checkout') return 'confirm_checkout';
+    if (intent === 'portfolio') return 'confirm_portfolio';
+    if (intent === 'conditional_swap') return 'confirm_trigger';
+    if (intent === 'dca') return 'confirm_dca';
+    return 'confirm_swap';
+}
+
 bot.on(message('text'), async (ctx) => {
     if (ctx.message.text.startsWith('/')) return;
     await handleTextMessage(ctx, ctx.message.text, 'text');
@@ -497,8 +693,49 @@ bot.on(message('voice'), async (ctx) => {
 async function handleTextMessage(ctx: any, text: string, inputType: 'text' | 'voice' = 'text') {
     const userId = ctx.from.id;
     const state = await db.getConversationState(userId);
+    const history = await db.getConversationHistory(userId);
+    await db.appendConversationHistory(userId, [{ role: 'user', content: text }]);
+
+    // A reply naming one of the offered networks answers the network question ("tron", "bep20");
+    // anything else is read as a new command
+    const chosenNetwork = state?.pendingNetwork && state.parsedCommand ? matchNetworkChoice(state.pendingNetwork as NetworkQuestion, text) : null;
+    if (chosenNetwork) {
+        const { slot } = state.pendingNetwork as NetworkQuestion;
+        return handleParsedCommand(ctx, applyNetworkChoice(state.parsedCommand, slot, chosenNetwork), inputType);
+    }
+
+    if (state?.pendingRouteTx && TX_HASH.test(text.trim())) {
+        return trackRouteTransaction(ctx, userId, state, text.trim());
+    }
 
-    if (state?.parsedCommand && (state.parsedCommand.intent === 'swap' || state.parsedCommand.intent === 'checkout' || state.parsedCommand.intent === 'portfolio') && !state.parsedCommand.settleAddress) {
+    if (state?.pendingRefundAddress && state.parsedCommand) {
+        const depositNetwork = state.parsedCommand.fromChain;
+        const resolved = await resolveAddress(userId, text);
+        if (!hasAddressFormat(depositNetwork)) {
+            // No format to check against: take what the user typed, but make them look at it again
+            if (!resolved.address || /\s/.test(resolved.address.trim())) {
+                return ctx.reply(`❌ Please reply with a single ${depositNetwork} address, or /clear to cancel.`);
+            }
+            await ctx.reply(`⚠️ I can't check ${depositNetwork} addresses, so make sure \`${resolved.address}\` is yours on ${depositNetwork} before you continue.`, { parse_mode: 'Markdown' });
+            return setRefundAddress(ctx, userId, state, resolved.address.trim());
+        }
+        if (!resolved.address || !isValidAddress(resolved.address, depositNetwork)) {
+            return ctx.reply(`❌ That isn't a valid ${depositNetwork} address. Refunds come back on the network you send from, so reply with a ${depositNetwork} address, or /clear to cancel.`);
+        }
+        return setRefundAddress(ctx, userId, state, resolved.address);
+    }
+
+    // "Make it 2 instead": change the command in progress rather than starting over
+    const corrected = state?.parsedCommand ? applyCorrection(state.parsedCommand, text) : null;
+    if (corrected) return continueDialogue(ctx, corrected, inputType);
+
+    if (state?.pendingSlot && state.pendingSlot !== 'settleAddress' && state.parsedCommand) {
+        const filled = fillSlot(state.parsedCommand, state.pendingSlot, text);
+        if (filled) return continueDialogue(ctx, filled, inputType);
+        // Not a plain answer; the parser reads it below with the conversation so far
+    }
+
+    if (state?.pendingSlot === 'settleAddress' && state.parsedCommand) {
         const potentialAddress = text.trim();
         const targetChain = state.parsedCommand.toChain || state.parsedCommand.settleNetwork || state.parsedCommand.fromChain;
 
@@ -526,8 +763,8 @@ async function handleTextMessage(ctx: any, text: string, inputType: 'text' | 'vo
             
             await ctx.reply(feedbackMessage, { parse_mode: 'Markdown' });
 
-            const confirmAction = updatedCommand.intent === 'checkout' ? 'confirm_checkout' : updatedCommand.intent === 'portfolio' ? 'confirm_portfolio' : 'confirm_swap';
-            return ctx.reply("Ready to proceed?", Markup.inlineKeyboard([
+            const confirmAction = getConfirmAction(updatedCommand.intent);
+            return ctx.reply(balanceAmountLine(updatedCommand) + "Ready to proceed?", Markup.inlineKeyboard([
                 Markup.button.callback('✅ Yes', confirmAction),
                 Markup.button.callback('❌ No', 'cancel_swap')
             ]));
@@ -558,45 +795,168 @@ async function handleTextMessage(ctx: any, text: string, inputType: 'text' | 'vo
         }
     }
 
-    const history = state?.messages || [];
     await ctx.sendChatAction('typing');
     const parsed = await parseUserCommand(text, history, inputType);
 
+    // An answer the slot filler couldn't read ("split it evenly between BTC and SOL"): keep what the parser found
+    if (state?.pendingSlot && state.parsedCommand && (parsed.intent === state.parsedCommand.intent || parsed.intent === 'unknown')) {
+        const merged = mergeCommands(state.parsedCommand, parsed);
+        if (nextSlot(merged) === state.pendingSlot) return askForSlot(ctx, merged, state.pendingSlot, inputType, "🤔 I didn't catch that.\n\n");
+        return continueDialogue(ctx, merged, inputType);
+    }
+
     if (!parsed.success && parsed.intent !== 'yield_scout') {
-        await logAnalytics(ctx, 'ValidationError', { input: text, error: parsed.validationErrors.join(", ") });
-        
-        console.log('📱 Bot received parsed command:');
-        console.log('Success:', parsed.success);
-        console.log('Intent:', parsed.intent);
-        console.log('Validation Errors:', parsed.validationErrors);
-        console.log('Parsed Message:', parsed.parsedMessage);
-        
-        // Filter out generic messages and show contextual help
-        const contextualErrors = parsed.validationErrors.filter(err => 
-            err.includes('💡') || err.includes('How much') || err.includes('Which asset') || err.includes('Example:')
-        );
-        
-        const otherErrors = parsed.validationErrors.filter(err => 
-            !err.includes('💡') && !err.includes('How much') && !err.includes('Which asset') && !err.includes('Example:')
-        );
-        
-        console.log('Contextual Errors:', contextualErrors);
-        console.log('Other Errors:', otherErrors);
-        
-        let errorMessage = '';
-        if (otherErrors.length > 0) {
-            errorMessage = `⚠️ ${otherErrors.join(", ")}\n\n`;
+        await logAnalytics(ctx, 'ValidationError', { input: text, error: parsed.validationErrors.join(", "), failure: parsed.failure });
+
+        // A known intent with fields missing: ask for them one at a time
+        const slot = nextSlot(parsed);
+        if (slot) return askForSlot(ctx, parsed, slot, inputType);
+        return replyWithParseErrors(ctx, parsed);
+    }
+
+    if (parsed.parsedMessage) await db.appendConversationHistory(userId, [{ role: 'assistant', content: parsed.parsedMessage }]);
+    return handleParsedCommand(ctx, parsed, inputType);
+}
+
+// Explains why a command couldn't be used, preferring the contextual help lines
+async function replyWithParseErrors(ctx: any, parsed: ParsedCommand) {
+    console.log('📱 Bot received parsed command:');
+    console.log('Success:', parsed.success);
+    console.log('Intent:', parsed.intent);
+    console.log('Validation Errors:', parsed.validationErrors);
+    console.log('Parsed Message:', parsed.parsedMessage);
+    
+    // Filter out generic messages and show contextual help
+    const contextualErrors = parsed.validationErrors.filter(err => 
+        err.includes('💡') || err.includes('How much') || err.includes('Which asset') || err.includes('Example:')
+    );
+    
+    const otherErrors = parsed.validationErrors.filter(err => 
+        !err.includes('💡') && !err.includes('How much') && !err.includes('Which asset') && !err.includes('Example:')
+    );
+    
+    console.log('Contextual Errors:', contextualErrors);
+    console.log('Other Errors:', otherErrors);
+    
+    let errorMessage = '';
+    if (otherErrors.length > 0) {
+        errorMessage = `⚠️ ${otherErrors.join(", ")}\n\n`;
+    }
+    
+    if (contextualErrors.length > 0) {
+        errorMessage += contextualErrors.join("\n\n");
+    } else if (errorMessage === '') {
+        errorMessage = `⚠️ I didn't understand.`;
+    }
+    
+    console.log('Final Error Message:', errorMessage);
+    
+    return ctx.replyWithMarkdown(errorMessage);
+}
+
+// Asks for one missing field of a command, keeping what has been filled in so far
+async function askForSlot(ctx: any, command: ParsedCommand, slot: CommandSlot, inputType: 'text' | 'voice', prefix = '') {
+    await db.setConversationState(ctx.from.id, { parsedCommand: command, pendingSlot: slot });
+    const question = slotQuestion(command, slot, inputType);
+    await db.appendConversationHistory(ctx.from.id, [{ role: 'assistant', content: question }]);
+    return ctx.replyWithMarkdown(prefix + question);
+}
+
+// Moves a command on after the user filled in or changed a field: the next question, or on to confirmation
+async function continueDialogue(ctx: any, command: ParsedCommand, inputType: 'text' | 'voice') {
+    const slot = nextSlot(command);
+    if (slot) return askForSlot(ctx, command, slot, inputType);
+
+    const validated = validateFilledCommand(command);
+    if (!validated.success) {
+        await db.clearConversationState(ctx.from.id);
+        return replyWithParseErrors(ctx, validated);
+    }
+    return handleParsedCommand(ctx, validated, inputType);
+}
+
+// Asks which network an asset is on, keeping the command until the user picks one
+async function askForNetwork(ctx: any, command: ParsedCommand, question: NetworkQuestion, prompt?: string) {
+    await db.setConversationState(ctx.from.id, { parsedCommand: command, pendingNetwork: question });
+    const buttons = question.networks.slice(0, MAX_NETWORK_OPTIONS).map(network => Markup.button.callback(network, `pick_network:${question.slot}:${network}`));
+    return ctx.reply(
+        `${prompt ?? `${question.coin} is available on several networks. Which one do you mean?`}\n\nYou can also type the network name.`,
+        Markup.inlineKeyboard(buttons, { columns: 3 })
+    );
+}
+
+// How a "half my USDC" amount was worked out, shown above the confirm buttons
+function balanceAmountLine(command: ParsedCommand): string {
+    const resolved = command.balanceAmount;
+    if (!resolved) return '';
+    const reserve = resolved.gasReserve > 0 ? `, keeping ${resolved.gasReserve} ${command.fromAsset} for gas` : '';
+    return `💰 Amount: ${command.amount} ${command.fromAsset} (${resolved.share}% of your ${resolved.balance} ${command.fromAsset}${reserve})\n\n`;
+}
+
+// The coin a command's amount is counted in
+function amountAsset(command: ParsedCommand): string | null {
+    return command.amountSide === 'settle' ? command.toAsset : command.fromAsset;
+}
+
+async function handleParsedCommand(ctx: any, command: ParsedCommand, inputType: 'text' | 'voice' = 'text') {
+    const userId = ctx.from.id;
+
+    // Map assets and networks onto what SideShift lists before anything is quoted or stored
+    const canonical = await canonicalizeCommand(command);
+    if (canonical.status === 'error') {
+        await db.clearConversationState(userId);
+        return ctx.reply(`⚠️ ${canonical.message}`);
+    }
+    if (canonical.status === 'ask') return askForNetwork(ctx, canonical.command, canonical.question);
+
+    let parsed = canonical.command;
+    if (canonical.corrections.length > 0) await ctx.reply(`ℹ️ Using ${canonical.corrections.join(', ')}`);
+
+    // "Half my USDC" / "all my ETH": read the linked wallet before the amount is checked or quoted
+    if (parsed.amountType === 'percentage' || parsed.amountType === 'all') {
+        const user = await db.getUser(userId);
+        if (!user?.walletAddress) {
+            await db.clearConversationState(userId);
+            return ctx.reply("⚠️ No wallet is linked to your account, so I can't read your balance. Please give an exact amount instead.");
         }
-        
-        if (contextualErrors.length > 0) {
-            errorMessage += contextualErrors.join("\n\n");
-        } else if (errorMessage === '') {
-            errorMessage = `⚠️ I didn't understand.`;
+        try {
+            await ctx.sendChatAction('typing');
+            parsed = await resolveCommandAmount(parsed, user.walletAddress);
+        } catch (error) {
+            await db.clearConversationState(userId);
+            return ctx.reply(`⚠️ ${error instanceof Error ? error.message : "Couldn't read your balance."}`);
+        }
+    }
+
+    // Catch what SideShift would reject (pair, limits, offline networks) before the user confirms
+    const preflight = await preflightCommand(parsed);
+    if (preflight.problems.length > 0) {
+        const problems = `⚠️ ${preflight.problems.join('\n⚠️ ')}`;
+        if (preflight.suggestedAmount !== null) {
+            await db.setConversationState(userId, { parsedCommand: parsed, suggestedAmount: preflight.suggestedAmount });
+            return ctx.reply(problems, Markup.inlineKeyboard([
+                Markup.button.callback(`✅ Use ${preflight.suggestedAmount} ${amountAsset(parsed)}`, 'use_suggested_amount'),
+                Markup.button.callback('❌ Cancel', 'cancel_swap')
+            ]));
+        }
+        if (preflight.alternative) {
+            return askForNetwork(ctx, parsed, preflight.alternative, `${problems}\n\nUse ${preflight.alternative.coin} on another network?`);
+        }
+        await db.clearConversationState(userId);
+        return ctx.reply(problems);
+    }
+    if (preflight.warnings.length > 0) await ctx.reply(`ℹ️ ${preflight.warnings.join('\nℹ️ ')}`);
+
+    // A linked wallet stands in for a missing destination on every network it can receive on
+    if (!parsed.settleAddress && ['swap', 'checkout', 'portfolio', 'conditional_swap', 'dca'].includes(parsed.intent)) {
+        const networks = parsed.intent === 'portfolio'
+            ? (parsed.portfolio ?? []).map(leg => leg.toChain)
+            : [parsed.toChain || parsed.settleNetwork];
+        const wallets = await Promise.all(networks.map(network => getLinkedWallet(userId, network)));
+        if (wallets.length > 0 && wallets.every(wallet => wallet)) {
+            parsed = { ...parsed, settleAddress: wallets[0] };
+            await ctx.reply(`ℹ️ Sending to your linked wallet ${wallets[0]}. Include an address in your message to send elsewhere.`);
         }
-        
-        console.log('Final Error Message:', errorMessage);
-        
-        return ctx.replyWithMarkdown(errorMessage);
     }
 
     if (parsed.intent === 'yield_scout') {
@@ -619,7 +979,7 @@ async function handleTextMessage(ctx: any, text: string, inputType: 'text' | 'vo
                 amount: parsed.amount,
                 settleAddress: null
             };
-            await db.setConversationState(userId, { parsedCommand: bridgeCommand });
+            await db.setConversationState(userId, { parsedCommand: bridgeCommand, pendingSlot: 'settleAddress' });
             return ctx.reply(`To deposit to yield on ${matchingPool.chain}, we need to bridge first. Please provide your wallet address on ${matchingPool.chain}.`);
         } else {
             const depositCommand = {
@@ -631,7 +991,7 @@ async function handleTextMessage(ctx: any, text: string, inputType: 'text' | 'vo
                 amount: parsed.amount,
                 settleAddress: null
             };
-            await db.setConversationState(userId, { parsedCommand: depositCommand });
+            await db.setConversationState(userId, { parsedCommand: depositCommand, pendingSlot: 'settleAddress' });
             return ctx.reply(`Ready to deposit ${parsed.amount} ${parsed.fromAsset} to yield on ${matchingPool.chain} via ${matchingPool.project}. Please provide your address.`);
         }
     }
@@ -704,7 +1064,7 @@ async function handleTextMessage(ctx: any, text: string, inputType: 'text' | 'vo
 
     if (parsed.intent === 'portfolio') {
         if (!parsed.settleAddress) {
-            await db.setConversationState(userId, { parsedCommand: parsed });
+            await db.setConversationState(userId, { parsedCommand: parsed, pendingSlot: 'settleAddress' });
             let msg = `📊 *Portfolio Strategy Detected*\nInput: ${parsed.amount} ${parsed.fromAsset}\n\n*Allocation Plan:*\n`;
             parsed.portfolio?.forEach(item => { msg += `• ${item.percentage}% → ${item.toAsset} on ${item.toChain}\n`; });
             msg += `\nPlease provide your destination wallet address to receive the assets.`;
@@ -712,15 +1072,34 @@ async function handleTextMessage(ctx: any, text: string, inputType: 'text' | 'vo
         }
 
         await db.setConversationState(userId, { parsedCommand: parsed });
-        return ctx.reply("Ready to execute portfolio swap?", Markup.inlineKeyboard([
+        return ctx.reply(balanceAmountLine(parsed) + "Ready to execute portfolio swap?", Markup.inlineKeyboard([
             Markup.button.callback('✅ Yes', 'confirm_portfolio'),
             Markup.button.callback('❌ No', 'cancel_swap')
         ]));
     }
 
-    if (parsed.intent === 'swap' || parsed.intent === 'checkout') {
+    if (parsed.intent === 'conditional_swap' && !parsed.settleAddress) {
+        await db.setConversationState(userId, { parsedCommand: parsed, pendingSlot: 'settleAddress' });
+        return ctx.replyWithMarkdown(
+            `🎯 *Conditional Swap Detected*\n` +
+            `When ${parsed.triggerAsset} goes ${parsed.triggerCondition} $${parsed.triggerPrice}, swap ${parsed.amount} ${parsed.fromAsset} → ${parsed.toAsset}.\n\n` +
+            `Please provide the destination address.`
+        );
+    }
+
+    if (parsed.intent === 'dca' && !parsed.settleAddress) {
+        await db.setConversationState(userId, { parsedCommand: parsed, pendingSlot: 'settleAddress' });
+        return ctx.replyWithMarkdown(
+            `🔁 *Recurring Buy Detected*\n` +
+            `Swap ${parsed.amount} ${parsed.fromAsset} → ${parsed.toAsset} ${describeCadence(parsed.cadence!, parsed.cadenceDay ?? null)}` +
+            (parsed.endDate ? ` until ${parsed.endDate}` : '') + `.\n\n` +
+            `Please provide the destination address.`
+        );
+    }
+
+    if (parsed.intent === 'swap' || parsed.intent === 'checkout' || parsed.intent === 'conditional_swap' || parsed.intent === 'dca') {
         if (!parsed.settleAddress) {
-            await db.setConversationState(userId, { parsedCommand: parsed });
+            await db.setConversationState(userId, { parsedCommand: parsed, pendingSlot: 'settleAddress' });
             return ctx.reply(`Okay, I see you want to ${parsed.intent}. Please provide the destination address.`);
         }
 
@@ -745,8 +1124,8 @@ async function handleTextMessage(ctx: any, text: string, inputType: 'text' | 'vo
                 feedbackMessage = `✅ Nickname resolved: \`${resolved.originalInput}\` → \`${resolved.address}\`\n\n`;
             }
             
-            const confirmAction = parsed.intent === 'checkout' ? 'confirm_checkout' : 'confirm_swap';
-            return ctx.reply(feedbackMessage + "Ready to proceed?", {
+            const confirmAction = getConfirmAction(parsed.intent);
+            return ctx.reply(feedbackMessage + balanceAmountLine(parsed) + "Ready to proceed?", {
                 parse_mode: 'Markdown',
                 ...Markup.inlineKeyboard([
                     Markup.button.callback('✅ Yes', confirmAction),
@@ -781,8 +1160,8 @@ async function handleTextMessage(ctx: any, text: string, inputType: 'text' | 'vo
 
         // If it's already a valid raw address, proceed normally
         await db.setConversationState(userId, { parsedCommand: parsed });
-        const confirmAction = parsed.intent === 'checkout' ? 'confirm_checkout' : 'confirm_swap';
-        ctx.reply("Confirm...", Markup.inlineKeyboard([
+        const confirmAction = getConfirmAction(parsed.intent);
+        ctx.reply(balanceAmountLine(parsed) + "Confirm...", Markup.inlineKeyboard([
             Markup.button.callback('✅ Yes', confirmAction),
             Markup.button.callback('❌ No', 'cancel_swap')
         ]));
@@ -793,6 +1172,214 @@ async function handleTextMessage(ctx: any, text: string, inputType: 'text' | 'vo
 
 // --- ACTION HANDLERS ---
 
+// Stops a flow before SideShift is asked for anything when the region policy blocks the user
+async function ensureSwapAllowed(ctx: any, userId: number): Promise<SwapPermission | null> {
+    const permission = await checkSwapPermission(userId);
+    if (permission.allowed) return permission;
+
+    await ctx.editMessageText(`🚫 ${permission.reason}\n\nIf your region is set incorrectly, update it with /region.`);
+    await db.clearConversationState(userId);
+    return null;
+}
+
+function refundAddressLine(command: ParsedCommand): string {
+    return command.refundAddress
+        ? `↩️ *Refunds to:* \`${command.refundAddress}\`\n`
+        : `↩️ *Refunds:* no address set; SideShift will ask for one on the order page if needed\n`;
+}
+
+/**
+ * Makes sure a swap has a refund address on its deposit network before it is quoted. Uses the
+ * linked wallet or a saved address when there is one, otherwise asks and stops the flow;
+ * `confirmAction` is offered again once the user answers.
+ * @returns The command with `refundAddress` filled in, or null while waiting for the user
+ */
+async function ensureRefundAddress(ctx: any, userId: number, state: any, confirmAction: string): Promise<ParsedCommand | null> {
+    const command: ParsedCommand = state.parsedCommand;
+    if (command.refundAddress !== undefined) return command;
+
+    const found = await findRefundAddress(userId, command.fromChain);
+    if (found) {
+        const updated = { ...command, refundAddress: found.address };
+        await db.setConversationState(userId, { ...state, parsedCommand: updated });
+        return updated;
+    }
+
+    await db.setConversationState(userId, { ...state, pendingRefundAddress: confirmAction });
+    const buttons = [];
+    // The payout address only works for refunds when it is the user's on the network the deposit comes from
+    if (canRefundToPayoutAddress(command.settleAddress, command.toChain, command.fromChain)) {
+        buttons.push([Markup.button.callback('↩️ Use my payout address', 'use_settle_refund')]);
+    }
+    buttons.push([Markup.button.callback('⏭ Skip', 'skip_refund_address'), Markup.button.callback('❌ Cancel', 'cancel_swap')]);
+
+    await ctx.editMessageText(
+        `↩️ *Refund address*\n\nIf SideShift can't complete the swap it returns your ${command.fromAsset} on ${command.fromChain}. ` +
+        `Reply with a ${command.fromChain} address (or a saved nickname) to refund to.\n\n` +
+        `Tip: /link\\_wallet or /add\\_address saves one for next time.`,
+        { parse_mode: 'Markdown', ...Markup.inlineKeyboard(buttons) }
+    );
+    return null;
+}
+
+async function setRefundAddress(ctx: any, userId: number, state: any, refundAddress: string | null) {
+    const parsedCommand = { ...state.parsedCommand, refundAddress };
+    await db.setConversationState(userId, { ...state, parsedCommand, pendingRefundAddress: undefined });
+    return ctx.replyWithMarkdown(refundAddressLine(parsedCommand) + `\nReady to get a quote?`, Markup.inlineKeyboard([
+        Markup.button.callback('✅ Yes', state.pendingRefundAddress),
+        Markup.button.callback('❌ No', 'cancel_swap')
+    ]));
+}
+
+function rateCheckLine(check: RateCheck | null): string {
+    if (!check) return `📉 *Vs market:* no market price to compare with\n`;
+    return `📉 *Vs market:* ${describeRateDeviation(check)}\n` +
+        (check.exceedsLimit ? `⚠️ *This rate is past your slippage limit.* Check it before placing the order, or change the limit with /slippage.\n` : '');
+}
+
+/**
+ * Quotes a swap and shows it with a live expiry countdown. Pairs without fixed-rate support get
+ * a variable-shift offer instead. When re-quoting, previousRate is the rate of the lapsed quote.
+ */
+async function showSwapQuote(ctx: any, userId: number, state: any, command: ParsedCommand, userIP: string | undefined, previousRate: string | null) {
+    const { fromAsset, fromChain, toAsset, toChain, amount } = command;
+    const amountSide: AmountSide = command.amountSide === 'settle' ? 'settle' : 'deposit';
+
+    // Some coins/networks only support one shift type; fall back to fixed if the coin list is unavailable
+    const modes: ShiftMode[] = await getShiftModes(fromAsset!, fromChain!, toAsset!, toChain!).catch(() => ['fixed']);
+
+    if (!modes.includes('fixed')) {
+        // Variable shifts settle whatever the deposit is worth, so a receive-exact amount can only be estimated
+        const pair = await getPair(fromAsset!, fromChain!, toAsset!, toChain!, amountSide === 'deposit' ? amount! : undefined, userIP);
+        const rate = parseFloat(pair.rate);
+        const depositAmount = amountSide === 'settle' ? (amount! / rate).toFixed(8) : amount!.toString();
+        const estimatedSettle = amountSide === 'settle' ? amount!.toString() : (amount! * rate).toFixed(8);
+        const rateCheck = await checkUserQuoteRate(userId, pair.depositCoin, pair.settleCoin, pair.rate);
+        quoteCountdown.stop(userId);
+        await db.setConversationState(userId, {
+            ...state, parsedCommand: command, quoteId: null, quoteExpiry: null, quoteRate: null,
+            rateExceedsLimit: !!rateCheck?.exceedsLimit, depositAmount, settleAmount: estimatedSettle,
+        });
+
+        return ctx.editMessageText(
+            `ℹ️ This pair only supports *variable-rate* shifts.\n\n` +
+            `➡️ *Send${amountSide === 'settle' ? ' (est.)' : ''}:* \`${depositAmount} ${pair.depositCoin}\`\n⬅️ *Receive (est.):* \`~${estimatedSettle} ${pair.settleCoin}\`\n` +
+            `📏 *Limits:* ${pair.min} – ${pair.max} ${pair.depositCoin}\n${rateCheckLine(rateCheck)}${refundAddressLine(command)}\nThe final amount uses the rate at the time your deposit arrives. Ready?`, {
+            parse_mode: 'Markdown',
+            ...Markup.inlineKeyboard([
+                rateCheck?.exceedsLimit
+                    ? Markup.button.callback('⚠️ Create Anyway', 'place_variable_order_anyway')
+                    : Markup.button.callback('✅ Create Variable Shift', 'place_variable_order'),
+                Markup.button.callback('❌ Cancel', 'cancel_swap'),
+            ])
+        });
+    }
+
+    const quote = await createQuote(fromAsset!, fromChain!, toAsset!, toChain!, amount!, userIP, amountSide);
+
+    if (quote.error) return ctx.editMessageText(`Error: ${quote.error.message}`);
+    const rateCheck = await checkUserQuoteRate(userId, quote.depositCoin, quote.settleCoin, quote.rate);
+
+    // DEX aggregator routes are signed from the user's wallet, so they are only quoted for a wallet
+    // linked with a signature; the payout address could be an exchange or someone else's
+    const fromAddress = await getLinkedWallet(userId, fromChain);
+    const routes = await compareWithSideShift({
+        fromAsset: fromAsset!, fromChain: fromChain!, toAsset: toAsset!, toChain: toChain!, amount: amount!, amountSide,
+        settleAddress: command.settleAddress, fromAddress, userIP,
+    }, quote);
+
+    await db.setConversationState(userId, {
+        ...state, parsedCommand: command, quoteId: quote.id, quoteExpiry: quote.expiry ?? null, quoteRate: quote.rate,
+        rateExceedsLimit: !!rateCheck?.exceedsLimit, depositAmount: quote.depositAmount, settleAmount: quote.settleAmount,
+        routes, pendingRouteTx: null,
+    });
+
+    // Past the user's slippage limit the order needs a deliberate second tap
+    const buttons = [[
+        rateCheck?.exceedsLimit
+            ? Markup.button.callback('⚠️ Place Anyway', 'place_order_anyway')
+            : Markup.button.callback('✅ Place Order', 'place_order'),
+        Markup.button.callback('❌ Cancel', 'cancel_swap'),
+    ]];
+    // A variable shift can't guarantee an exact receive amount
+    if (modes.includes('variable') && amountSide === 'deposit') {
+        buttons.push([rateCheck?.exceedsLimit
+            ? Markup.button.callback('⚠️ Variable Rate Anyway (no quote expiry)', 'place_variable_order_anyway')
+            : Markup.button.callback('🔓 Variable Rate (no quote expiry)', 'place_variable_order')]);
+    }
+    for (const route of routes.filter(r => r.execution === 'wallet')) {
+        buttons.push([Markup.button.callback(`⚡ Use ${route.providerName}`, `pick_route:${route.provider}`)]);
+    }
+
+    const sendLine = amountSide === 'settle'
+        ? `➡️ *You need to send:* \`${quote.depositAmount} ${quote.depositCoin}\``
+        : `➡️ *Send:* \`${quote.depositAmount} ${quote.depositCoin}\``;
+    const receiveLine = amountSide === 'settle'
+        ? `⬅️ *Receive exactly:* \`${quote.settleAmount} ${quote.settleCoin}\``
+        : `⬅️ *Receive:* \`${quote.settleAmount} ${quote.settleCoin}\``;
+    const rateLine = `💱 *Rate:* 1 ${quote.depositCoin} = ${quote.rate} ${quote.settleCoin}${previousRate ? ` (${describeRateChange(previousRate, quote.rate)})` : ''}`;
+
+    const routesLine = routes.length > 1 ? `🏁 *Routes compared:*\n${describeRoutes(routes, amountSide)}\n` : '';
+    const body = `${sendLine}\n${receiveLine}\n${rateLine}\n${rateCheckLine(rateCheck)}${routesLine}${refundAddressLine(command)}`;
+    const keyboard = Markup.inlineKeyboard(buttons);
+    await ctx.editMessageText(renderQuoteMessage(body, quote.expiry), { parse_mode: 'Markdown', ...keyboard });
+
+    if (quote.id && quote.expiry) {
+        quoteCountdown.start(userId, quote.id, quote.expiry, {
+            chatId: ctx.chat.id, messageId: ctx.callbackQuery.message.message_id, body, keyboard,
+        });
+    }
+}
+
+bot.action(/^pick_route:(\w+)$/, async (ctx) => {
+    const userId = ctx.from.id;
+    const state = await db.getConversationState(userId);
+    const route: RouteQuote | null = findRoute(state?.routes, ctx.match[1]);
+    if (!state?.parsedCommand || !route || route.execution !== 'wallet') return ctx.answerCbQuery('Session expired.');
+
+    await ctx.answerCbQuery();
+    quoteCountdown.stop(userId);
+    // The SideShift quote is dropped so only one of the two can be executed
+    await db.setConversationState(userId, { ...state, quoteId: null, pendingRouteTx: route.provider });
+
+    const buttons = route.transactions.map((tx, i) => [Markup.button.webApp(
+        `${i + 1}. ${tx.label}`,
+        buildSignUrl({ to: tx.to, value: tx.value, data: tx.data, chainId: tx.chainId, token: route.depositCoin, amount: route.depositAmount })
+    )]);
+
+    ctx.editMessageText(
+        `⚡ *Swap via ${route.providerName}*\n\n` +
+        `➡️ *Send:* \`${route.depositAmount} ${route.depositCoin}\`\n` +
+        `⬅️ *Receive (est.):* \`${route.settleAmount} ${route.settleCoin}\`\n` +
+        (route.settleAmountMin ? `🛡 *At least:* \`${route.settleAmountMin} ${route.settleCoin}\` after slippage\n` : '') +
+        `\nSign ${route.transactions.length > 1 ? 'these in your wallet, in order' : 'this in your wallet'}. The rate is set when the swap transaction is mined.\n\n` +
+        `Then paste the swap's transaction hash here and I'll track it.`, {
+        parse_mode: 'Markdown',
+        ...Markup.inlineKeyboard([...buttons, [Markup.button.callback('❌ Cancel', 'cancel_swap')]])
+    });
+});
+
+/**
+ * Records a wallet-signed route once the user sends its transaction hash, and watches it
+ * through the provider's status API
+ */
+async function trackRouteTransaction(ctx: any, userId: number, state: any, txHash: string) {
+    const route: RouteQuote | null = findRoute(state.routes, state.pendingRouteTx);
+    if (!route) return ctx.reply('Session expired. Ask me for the swap again.');
+
+    const swapTx = route.transactions[route.transactions.length - 1];
+    const command = { ...state.parsedCommand, amount: parseFloat(route.depositAmount), refundAddress: null };
+    // The swap contract stands in for a deposit address; the rate moves within the slippage
+    await db.createOrderEntry(userId, command, { id: txHash, depositAddress: swapTx.to }, route.settleAmount, route.id, 'variable', null, route.provider);
+    await db.addWatchedOrder(userId, txHash, 'waiting', route.provider);
+    await db.clearConversationState(userId);
+
+    return ctx.reply(
+        `🔔 *Tracking your ${route.providerName} swap*\n\n*Transaction:* \`${txHash}\`\nI'll notify you when it completes.`,
+        { parse_mode: 'Markdown' }
+    );
+}
+
 bot.action('confirm_swap', async (ctx) => {
     const userId = ctx.from.id;
     const state = await db.getConversationState(userId);
@@ -800,85 +1387,137 @@ bot.action('confirm_swap', async (ctx) => {
 
     try {
         await ctx.answerCbQuery('Fetching quote...');
-        const quote = await createQuote(
-            state.parsedCommand.fromAsset!, state.parsedCommand.fromChain!,
-            state.parsedCommand.toAsset!, state.parsedCommand.toChain!,
-            state.parsedCommand.amount!, '1.1.1.1'
-        );
+        const permission = await ensureSwapAllowed(ctx, userId);
+        if (!permission) return;
 
-        if (quote.error) return ctx.editMessageText(`Error: ${quote.error.message}`);
-        db.setConversationState(userId, { ...state, quoteId: quote.id, settleAmount: quote.settleAmount });
-        
-        ctx.editMessageText(`➡️ *Send:* \`${quote.depositAmount} ${quote.depositCoin}\`\n⬅️ *Receive:* \`${quote.settleAmount} ${quote.settleCoin}\`\n\nReady?`, {
-            parse_mode: 'Markdown',
-            ...Markup.inlineKeyboard([
-                Markup.button.callback('✅ Place Order', 'place_order'),
-                Markup.button.callback('❌ Cancel', 'cancel_swap'),
-            ])
-        });
+        const command = await ensureRefundAddress(ctx, userId, state, 'confirm_swap');
+        if (!command) return;
+
+        await showSwapQuote(ctx, userId, state, command, permission.userIP, null);
+    } catch (error) {
+        ctx.editMessageText(`Error: ${error instanceof Error ? error.message : 'Unknown'}`);
+    }
+});
+
+bot.action('refresh_quote', async (ctx) => {
+    const userId = ctx.from.id;
+    const state = await db.getConversationState(userId);
+    if (!state?.parsedCommand || state.parsedCommand.intent !== 'swap') return ctx.answerCbQuery('Session expired.');
+
+    try {
+        await ctx.answerCbQuery('Refreshing quote...');
+        const permission = await ensureSwapAllowed(ctx, userId);
+        if (!permission) return;
+
+        // Same pair, amount and side as before; only the rate and expiry change
+        await showSwapQuote(ctx, userId, state, state.parsedCommand, permission.userIP, state.quoteRate ?? null);
     } catch (error) {
         ctx.editMessageText(`Error: ${error instanceof Error ? error.message : 'Unknown'}`);
     }
 });
 
-bot.action('place_order', async (ctx) => {
+/**
+ * Places the order for the quote on screen. A quote past the user's slippage limit is only
+ * placed from its "Place Anyway" button.
+ */
+async function placeSwapOrder(ctx: any, acceptRate: boolean) {
     const userId = ctx.from.id;
     const state = await db.getConversationState(userId);
     if (!state?.quoteId || !state.parsedCommand) return ctx.answerCbQuery('Session expired.');
+    if (state.rateExceedsLimit && !acceptRate) return ctx.answerCbQuery('This rate is past your slippage limit.');
+
+    // SideShift rejects orders on a lapsed quote, so offer a fresh one instead
+    if (isQuoteExpired(state.quoteExpiry)) {
+        await ctx.answerCbQuery('Quote expired.');
+        quoteCountdown.stop(userId);
+        const expired = renderExpiredQuote('');
+        return ctx.editMessageText(expired.text, { parse_mode: 'Markdown', ...expired.keyboard });
+    }
 
     try {
         await ctx.answerCbQuery('Setting up order...');
+        const permission = await ensureSwapAllowed(ctx, userId);
+        if (!permission) return;
+
         const destinationAddress = state.parsedCommand.settleAddress!;
-        const order = await createOrder(state.quoteId, destinationAddress, destinationAddress);
+        const refundAddress = await getRefundAddress(userId, state.parsedCommand);
+        const order = await createOrder(state.quoteId, destinationAddress, refundAddress, permission.userIP);
         if (!order.id) throw new Error("Failed to create order");
+        quoteCountdown.stop(userId);
 
-        db.createOrderEntry(userId, state.parsedCommand, order, state.settleAmount, state.quoteId);
+        // For receive-exact quotes the amount to send comes from the quote, not the command
+        const depositAmount = parseFloat(state.depositAmount ?? state.parsedCommand.amount);
+        await db.createOrderEntry(userId, { ...state.parsedCommand, amount: depositAmount, refundAddress }, order, state.settleAmount, state.quoteId);
         
         // Automatically add order to watch list
-        await db.addWatchedOrder(userId, order.id, 'pending');
+        await db.addWatchedOrder(userId, order.id, 'waiting');
 
-        const { amount, fromChain, fromAsset } = state.parsedCommand;
-        const rawDepositAddress = typeof order.depositAddress === 'string' ? order.depositAddress : order.depositAddress.address;
-        const depositMemo = typeof order.depositAddress === 'object' ? order.depositAddress.memo : null;
+        const { fromChain, fromAsset } = state.parsedCommand;
+        const deposit = await buildDepositPrompt(order, depositAmount, fromAsset, fromChain);
 
-        const chainKey = fromChain?.toLowerCase() || 'ethereum';
-        const assetKey = fromAsset?.toUpperCase() || 'ETH';
-        
-        // Use dynamic token resolver instead of hardcoded TOKEN_MAP
-        const tokenData = await tokenResolver.getTokenInfo(assetKey, chainKey);
+        ctx.editMessageText(`✅ *Order Created!*\n${deposit.text}\n\n🔔 *Auto-Watch Enabled:* I'll notify you when your swap completes!`, {
+            parse_mode: 'Markdown',
+            ...Markup.inlineKeyboard([
+                ...(deposit.signUrl ? [Markup.button.webApp('📱 Sign Transaction', deposit.signUrl)] : []),
+                Markup.button.callback('❌ Close', 'cancel_swap')
+            ])
+        });
+    } catch (error) {
+        ctx.editMessageText(`Failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+}
 
-        let txTo = rawDepositAddress, txValueHex = '0x0', txData = '0x';
+bot.action('place_order', (ctx) => placeSwapOrder(ctx, false));
+bot.action('place_order_anyway', (ctx) => placeSwapOrder(ctx, true));
 
-        if (tokenData) {
-            // This is an ERC20 token - construct transfer transaction
-            txTo = tokenData.address;
-            const amountBigInt = ethers.parseUnits(amount!.toString(), tokenData.decimals);
-            const iface = new ethers.Interface(ERC20_ABI);
-            txData = iface.encodeFunctionData("transfer", [rawDepositAddress, amountBigInt]);
-        } else {
-            // This is a native token (ETH, AVAX, BNB, etc.) - send value directly
-            const amountBigInt = ethers.parseUnits(amount!.toString(), 18);
-            txValueHex = '0x' + amountBigInt.toString(16);
-            if (depositMemo) txData = ethers.hexlify(ethers.toUtf8Bytes(depositMemo));
-        }
+/**
+ * Places a variable-rate shift for the swap on screen. Like fixed quotes, a rate past the user's
+ * slippage limit is only accepted from an "Anyway" button.
+ */
+async function placeVariableOrder(ctx: any, acceptRate: boolean) {
+    const userId = ctx.from.id;
+    const state = await db.getConversationState(userId);
+    if (!state?.parsedCommand || state.parsedCommand.intent !== 'swap') return ctx.answerCbQuery('Session expired.');
+    if (state.rateExceedsLimit && !acceptRate) return ctx.answerCbQuery('This rate is past your slippage limit.');
 
-        const params = new URLSearchParams({
-            to: txTo, value: txValueHex, data: txData,
-            chainId: chainIdMap[chainKey] || '1',
-            token: assetKey, amount: amount!.toString()
-        });
+    try {
+        await ctx.answerCbQuery('Setting up variable shift...');
+        const permission = await ensureSwapAllowed(ctx, userId);
+        if (!permission) return;
+
+        const { fromAsset, fromChain, toAsset, toChain, settleAddress } = state.parsedCommand;
+        const refundAddress = await getRefundAddress(userId, state.parsedCommand);
+        const shift = await createVariableShift(fromAsset!, fromChain!, toAsset!, toChain!, settleAddress!, refundAddress, permission.userIP);
+        if (!shift.id) throw new Error("Failed to create shift");
+        quoteCountdown.stop(userId);
+
+        const depositAmount = parseFloat(state.depositAmount ?? state.parsedCommand.amount);
+        await db.createOrderEntry(userId, { ...state.parsedCommand, amount: depositAmount, refundAddress }, shift, state.settleAmount ?? '?', null, 'variable');
 
-        ctx.editMessageText(`✅ *Order Created!*\nTo complete the swap, sign in your wallet.\n\n🔔 *Auto-Watch Enabled:* I'll notify you when your swap completes!`, {
+        // Automatically add order to watch list
+        await db.addWatchedOrder(userId, shift.id, 'waiting');
+
+        const deposit = await buildDepositPrompt(shift, depositAmount, fromAsset, fromChain);
+
+        ctx.editMessageText(
+            `✅ *Variable Shift Created!*\nSend between *${shift.depositMin}* and *${shift.depositMax} ${shift.depositCoin}*. ` +
+            `The rate is set when your deposit arrives, so there is no quote to expire.\n` +
+            `📭 *Address valid until:* ${new Date(shift.expiresAt).toLocaleString()}\n\n` +
+            `${deposit.text}\n\n` +
+            `🔔 *Auto-Watch Enabled:* I'll notify you when your swap completes!`, {
             parse_mode: 'Markdown',
             ...Markup.inlineKeyboard([
-                Markup.button.webApp('📱 Sign Transaction', `${MINI_APP_URL}?${params.toString()}`),
+                ...(deposit.signUrl ? [Markup.button.webApp('📱 Sign Transaction', deposit.signUrl)] : []),
                 Markup.button.callback('❌ Close', 'cancel_swap')
             ])
         });
     } catch (error) {
         ctx.editMessageText(`Failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
-});
+}
+
+bot.action('place_variable_order', (ctx) => placeVariableOrder(ctx, false));
+bot.action('place_variable_order_anyway', (ctx) => placeVariableOrder(ctx, true));
 
 bot.action('confirm_checkout', async (ctx) => {
     const userId = ctx.from.id;
@@ -887,12 +1526,15 @@ bot.action('confirm_checkout', async (ctx) => {
 
     try {
         await ctx.answerCbQuery('Creating link...');
+        const permission = await ensureSwapAllowed(ctx, userId);
+        if (!permission) return;
+
         const { settleAsset, settleNetwork, settleAmount, settleAddress } = state.parsedCommand;
-        const checkout = await createCheckout(settleAsset!, settleNetwork!, settleAmount!, settleAddress!, '1.1.1.1');
+        const checkout = await createCheckout(settleAsset!, settleNetwork!, settleAmount!, settleAddress!, permission.userIP);
         if (!checkout?.id) throw new Error("API Error");
 
         db.createCheckoutEntry(userId, checkout);
-        ctx.editMessageText(`✅ *Checkout Link Created!*\n💰 *Receive:* ${checkout.settleAmount} ${checkout.settleCoin}\n[Pay Here](https://pay.sideshift.ai/checkout/${checkout.id})`, {
+        ctx.editMessageText(`✅ *Checkout Link Created!*\n💰 *Receive:* ${checkout.settleAmount} ${checkout.settleCoin}\n[Pay Here](${checkout.url})`, {
             parse_mode: 'Markdown',
             link_preview_options: { is_disabled: true }
         });
@@ -910,7 +1552,13 @@ bot.action('confirm_portfolio', async (ctx) => {
 
     try {
         await ctx.answerCbQuery('Creating portfolio swaps...');
-        const { fromAsset, fromChain, amount, portfolio, settleAddress } = state.parsedCommand;
+        const permission = await ensureSwapAllowed(ctx, userId);
+        if (!permission) return;
+
+        const command = await ensureRefundAddress(ctx, userId, state, 'confirm_portfolio');
+        if (!command) return;
+
+        const { fromAsset, fromChain, amount, portfolio } = command;
         
         if (!portfolio || portfolio.length === 0) {
             return ctx.editMessageText('❌ No portfolio allocation found.');
@@ -930,7 +1578,7 @@ bot.action('confirm_portfolio', async (ctx) => {
                     allocation.toAsset,
                     allocation.toChain,
                     swapAmount,
-                    '1.1.1.1'
+                    permission.userIP
                 );
 
                 if (quote.error) {
@@ -938,7 +1586,7 @@ bot.action('confirm_portfolio', async (ctx) => {
                 }
 
                 quotes.push({ quote, allocation, swapAmount });
-                quoteSummary += `• ${allocation.percentage}% (${swapAmount} ${fromAsset}) → ~${quote.settleAmount} ${allocation.toAsset}\n`;
+                quoteSummary += `• ${allocation.percentage}% (${quote.depositAmount} ${fromAsset}) → ~${quote.settleAmount} ${allocation.toAsset}\n`;
             } catch (error) {
                 return ctx.editMessageText(`❌ Failed to create quote for ${allocation.toAsset}: ${error instanceof Error ? error.message : 'Unknown error'}`);
             }
@@ -947,15 +1595,17 @@ bot.action('confirm_portfolio', async (ctx) => {
         // Store quotes in state
         await db.setConversationState(userId, { 
             ...state, 
+            parsedCommand: command,
             portfolioQuotes: quotes.map(q => ({ 
                 quoteId: q.quote.id, 
                 allocation: q.allocation, 
                 swapAmount: q.swapAmount,
+                depositAmount: q.quote.depositAmount,
                 settleAmount: q.quote.settleAmount
             }))
         });
 
-        quoteSummary += `\nReady to place orders?`;
+        quoteSummary += `\n${refundAddressLine(command)}\nReady to place orders?`;
 
         ctx.editMessageText(quoteSummary, {
             parse_mode: 'Markdown',
@@ -976,93 +1626,249 @@ bot.action('place_portfolio_orders', async (ctx) => {
 
     try {
         await ctx.answerCbQuery('Placing orders...');
-        const { settleAddress, fromAsset, fromChain, amount } = state.parsedCommand;
-        const orders: Array<{ order: any; allocation: any; quoteId: string }> = [];
+        const permission = await ensureSwapAllowed(ctx, userId);
+        if (!permission) return;
 
-        // Create orders for each quote
-        for (const quoteData of state.portfolioQuotes) {
-            try {
-                const order = await createOrder(quoteData.quoteId, settleAddress!, settleAddress!);
-                if (!order.id) throw new Error(`Failed to create order for ${quoteData.allocation.toAsset}`);
-
-                // Store each order in database
-                const orderCommand = {
-                    ...state.parsedCommand,
-                    toAsset: quoteData.allocation.toAsset,
-                    toChain: quoteData.allocation.toChain,
-                    amount: quoteData.swapAmount
-                };
-                db.createOrderEntry(userId, orderCommand, order, quoteData.settleAmount, quoteData.quoteId);
-                
-                // Automatically add each order to watch list
-                await db.addWatchedOrder(userId, order.id, 'pending');
-
-                orders.push({ order, allocation: quoteData.allocation, quoteId: quoteData.quoteId });
-            } catch (error) {
-                return ctx.editMessageText(`❌ Failed to create order for ${quoteData.allocation.toAsset}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-            }
+        let placed;
+        try {
+            placed = await placePortfolioBatch(userId, state.parsedCommand, state.portfolioQuotes, permission.userIP);
+        } catch (error) {
+            return ctx.editMessageText(`❌ Failed to create order for ${error instanceof Error ? error.message : 'Unknown error'}\n\nNo orders were kept, so don't send any funds. Please try again.`);
         }
 
-        // For portfolio swaps, we need to execute multiple transactions
-        // The user will need to send the full amount to the first order's deposit address
-        // Then the system will handle the splits via SideShift
-        const firstOrder = orders[0].order;
-        const rawDepositAddress = typeof firstOrder.depositAddress === 'string' ? firstOrder.depositAddress : firstOrder.depositAddress.address;
-        const depositMemo = typeof firstOrder.depositAddress === 'object' ? firstOrder.depositAddress.memo : null;
+        // Every order has its own deposit address, so each leg is funded by its own transfer
+        const { batch, legs } = placed;
+        const { text, keyboard } = await buildPortfolioLegsView(batch, legs);
 
-        const chainKey = fromChain?.toLowerCase() || 'ethereum';
-        const assetKey = fromAsset?.toUpperCase() || 'ETH';
-        const totalAmount = amount!;
-        
-        // Use dynamic token resolver
-        const tokenData = await tokenResolver.getTokenInfo(assetKey, chainKey);
+        ctx.editMessageText(`✅ *Portfolio #${batch.id} Created!*\n\n${text}\nSign one transaction per leg; each sends only that leg's share.\n\n🔔 *Auto-Watch Enabled:* I'll notify you when each swap completes!\nCheck progress any time with /portfolio\\_status ${batch.id}`, {
+            parse_mode: 'Markdown',
+            ...keyboard
+        });
+    } catch (error) {
+        ctx.editMessageText(`Failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+        db.clearConversationState(userId);
+    }
+});
+
+/**
+ * Lists a portfolio's legs with their payment state. Only legs still waiting for a deposit
+ * get a signing button, so a funded leg can't be paid twice while another stays empty.
+ */
+async function buildPortfolioLegsView(batch: db.PortfolioBatch, legs: db.Order[]) {
+    const summary = summarizePortfolioLegs(legs);
+    let text = `*Status:* ${describePortfolioBatch(batch, summary)}\n\n*Legs:*\n`;
+    const rows = [];
+
+    for (const [i, leg] of legs.entries()) {
+        const state = leg.status === 'waiting' ? '⏳ awaiting deposit'
+            : leg.status === 'expired' ? '⌛ expired'
+            : leg.status === 'settled' ? '✅ settled'
+            : `🔄 funded (${leg.status})`;
+        text += `${i + 1}. ${leg.fromAmount} ${leg.fromAsset} → ${leg.toAsset}: ${state}\n`;
+
+        if (batch.status === 'placed' && leg.status === 'waiting') {
+            const deposit = await buildDepositPrompt(
+                { id: leg.sideshiftOrderId, depositAddress: { address: leg.depositAddress, memo: leg.depositMemo ?? '' } },
+                leg.fromAmount,
+                leg.fromAsset,
+                leg.fromNetwork
+            );
+            if (deposit.signUrl) {
+                rows.push([Markup.button.webApp(`📱 Fund leg ${i + 1}: ${leg.fromAmount} ${leg.fromAsset}`, deposit.signUrl)]);
+            } else {
+                text += `${deposit.text}\n`;
+            }
+        }
+    }
 
-        let txTo = rawDepositAddress, txValueHex = '0x0', txData = '0x';
+    rows.push([
+        Markup.button.callback('🔄 Refresh Legs', `portfolio_legs_${batch.id}`),
+        Markup.button.callback('❌ Close', 'cancel_swap')
+    ]);
 
-        if (tokenData) {
-            // ERC20 token
-            txTo = tokenData.address;
-            const amountBigInt = ethers.parseUnits(totalAmount.toString(), tokenData.decimals);
-            const iface = new ethers.Interface(ERC20_ABI);
-            txData = iface.encodeFunctionData("transfer", [rawDepositAddress, amountBigInt]);
-        } else {
-            // Native token
-            const amountBigInt = ethers.parseUnits(totalAmount.toString(), 18);
-            txValueHex = '0x' + amountBigInt.toString(16);
-            if (depositMemo) txData = ethers.hexlify(ethers.toUtf8Bytes(depositMemo));
+    return { text, keyboard: Markup.inlineKeyboard(rows) };
+}
+
+/**
+ * Loads a batch and its legs, asking SideShift directly about legs still awaiting a
+ * deposit since the monitor may not have polled them yet
+ */
+async function loadPortfolioBatch(userId: number, batchId: number | null) {
+    const batch = batchId ? await db.getPortfolioBatch(userId, batchId) : await db.getLatestPortfolioBatch(userId);
+    if (!batch) return null;
+
+    const legs = await db.getBatchOrders(batch.id);
+    if (batch.status === 'placed') {
+        for (const leg of legs) {
+            if (leg.status !== 'waiting') continue;
+            const status = parseOrderStatus((await getOrderStatus(leg.sideshiftOrderId)).status);
+            if (status && status !== leg.status) {
+                await db.updateOrderStatus(leg.sideshiftOrderId, status);
+                leg.status = status;
+            }
         }
+    }
 
-        const params = new URLSearchParams({
-            to: txTo, value: txValueHex, data: txData,
-            chainId: chainIdMap[chainKey] || '1',
-            token: assetKey, amount: totalAmount.toString()
-        });
+    return { batch, legs };
+}
 
-        let orderSummary = `✅ *Portfolio Orders Created!*\n\n*Orders:*\n`;
-        orders.forEach((o, i) => {
-            orderSummary += `${i + 1}. Order ${o.order.id.substring(0, 8)}... → ${o.allocation.toAsset}\n`;
-        });
-        orderSummary += `\nSign the transaction to complete all swaps.\n\n🔔 *Auto-Watch Enabled:* I'll notify you when each swap completes!`;
+bot.action(/^portfolio_legs_(\d+)$/, async (ctx) => {
+    const userId = ctx.from.id;
 
-        ctx.editMessageText(orderSummary, {
+    try {
+        const loaded = await loadPortfolioBatch(userId, parseInt(ctx.match[1], 10));
+        if (!loaded) return ctx.answerCbQuery('Portfolio not found.');
+
+        const { text, keyboard } = await buildPortfolioLegsView(loaded.batch, loaded.legs);
+        await ctx.answerCbQuery();
+        await ctx.editMessageText(`📊 *Portfolio #${loaded.batch.id}*\n\n${text}`, {
             parse_mode: 'Markdown',
-            ...Markup.inlineKeyboard([
-                Markup.button.webApp('📱 Sign Transaction', `${MINI_APP_URL}?${params.toString()}`),
-                Markup.button.callback('❌ Close', 'cancel_swap')
-            ])
+            ...keyboard
         });
     } catch (error) {
-        ctx.editMessageText(`Failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        // Telegram rejects edits that don't change the message
+        if (error instanceof Error && error.message.includes('message is not modified')) return;
+        ctx.answerCbQuery(`Couldn't refresh: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+});
+
+bot.action('confirm_trigger', async (ctx) => {
+    const userId = ctx.from.id;
+    const state = await db.getConversationState(userId);
+    if (!state?.parsedCommand || state.parsedCommand.intent !== 'conditional_swap') return ctx.answerCbQuery('Session expired.');
+
+    try {
+        await ctx.answerCbQuery('Creating trigger...');
+        if (!(await ensureSwapAllowed(ctx, userId))) return;
+
+        // The monitor can only fire on assets it has a price feed for
+        const triggerAsset = (state.parsedCommand.triggerAsset || state.parsedCommand.fromAsset || '').toUpperCase();
+        if (!isPriceSupported(triggerAsset)) {
+            return ctx.editMessageText(`❌ I can't track the price of ${triggerAsset || 'that asset'}, so this trigger would never fire. Try a trigger on a major asset like BTC or ETH.`);
+        }
+
+        const trigger = await db.createPendingTrigger(userId, state.parsedCommand);
+        const currentPrice = await getUsdPrice(trigger.triggerAsset).catch(() => null);
+
+        let message = `✅ *Trigger #${trigger.id} Created!*\n\n`;
+        message += `*When:* ${trigger.triggerAsset} ${trigger.triggerCondition} $${trigger.triggerPrice}\n`;
+        message += `*Swap:* ${trigger.amount} ${trigger.fromAsset} (${trigger.fromNetwork}) → ${trigger.toAsset} (${trigger.toNetwork})\n`;
+        if (currentPrice !== null) message += `*Current Price:* $${currentPrice}\n`;
+        message += `\n🔔 I'll ask you to confirm the swap when the price condition is met.\nUse /triggers to view or /cancel_trigger ${trigger.id} to cancel.`;
+
+        ctx.editMessageText(message, { parse_mode: 'Markdown' });
+    } catch (error) {
+        ctx.editMessageText(`Error creating trigger: ${error instanceof Error ? error.message : 'Unknown'}`);
+    } finally {
+        db.clearConversationState(userId);
+    }
+});
+
+bot.action('confirm_dca', async (ctx) => {
+    const userId = ctx.from.id;
+    const state = await db.getConversationState(userId);
+    if (!state?.parsedCommand || state.parsedCommand.intent !== 'dca') return ctx.answerCbQuery('Session expired.');
+
+    try {
+        await ctx.answerCbQuery('Scheduling...');
+        if (!(await ensureSwapAllowed(ctx, userId))) return;
+
+        const { cadence, cadenceDay } = state.parsedCommand;
+        const firstRunAt = getNextRunDate(cadence, cadenceDay ?? null, new Date(), true);
+        const schedule = await db.createDcaSchedule(userId, state.parsedCommand, firstRunAt);
+
+        let message = `✅ *Recurring Buy #${schedule.id} Scheduled!*\n\n`;
+        message += `*Buy:* ${schedule.amount} ${schedule.fromAsset} (${schedule.fromNetwork}) → ${schedule.toAsset} (${schedule.toNetwork})\n`;
+        message += `*When:* ${describeCadence(schedule.cadence, schedule.cadenceDay)}\n`;
+        message += `*First Run:* ${firstRunAt.toLocaleString()}\n`;
+        if (schedule.endDate) message += `*Ends:* ${schedule.endDate.toLocaleDateString()}\n`;
+        message += `\n🔔 Each period I'll send you a fresh quote and a signing link.\nUse /dca_list to manage your schedules.`;
+
+        ctx.editMessageText(message, { parse_mode: 'Markdown' });
+    } catch (error) {
+        ctx.editMessageText(`Error scheduling recurring buy: ${error instanceof Error ? error.message : 'Unknown'}`);
     } finally {
         db.clearConversationState(userId);
     }
 });
 
+bot.action(/^execute_trigger:(\d+)$/, async (ctx) => {
+    const userId = ctx.from.id;
+    const triggerId = parseInt(ctx.match[1], 10);
+    const trigger = await db.getPendingTrigger(userId, triggerId);
+
+    if (!trigger || trigger.status !== 'triggered') return ctx.answerCbQuery('Trigger no longer available.');
+
+    // Hand the fired trigger over to the regular swap confirmation flow
+    const swapCommand = {
+        intent: 'swap',
+        fromAsset: trigger.fromAsset,
+        fromChain: trigger.fromNetwork,
+        toAsset: trigger.toAsset,
+        toChain: trigger.toNetwork,
+        amount: trigger.amount,
+        settleAddress: trigger.settleAddress
+    };
+    await db.setConversationState(userId, { parsedCommand: swapCommand });
+    await ctx.answerCbQuery();
+
+    ctx.editMessageText(`🎯 *Trigger #${trigger.id}*\n\nSwap ${trigger.amount} ${trigger.fromAsset} → ${trigger.toAsset}. Fetch a live quote?`, {
+        parse_mode: 'Markdown',
+        ...Markup.inlineKeyboard([
+            Markup.button.callback('✅ Yes', 'confirm_swap'),
+            Markup.button.callback('❌ No', 'cancel_swap')
+        ])
+    });
+});
+
+bot.action('use_settle_refund', async (ctx) => {
+    const userId = ctx.from.id;
+    const state = await db.getConversationState(userId);
+    if (!state?.pendingRefundAddress || !state.parsedCommand?.settleAddress) return ctx.answerCbQuery('Session expired.');
+    const { settleAddress, toChain, fromChain } = state.parsedCommand;
+    if (!canRefundToPayoutAddress(settleAddress, toChain, fromChain)) return ctx.answerCbQuery(`Your payout address can't receive ${fromChain} refunds.`);
+
+    await ctx.answerCbQuery();
+    return setRefundAddress(ctx, userId, state, settleAddress);
+});
+
+bot.action('skip_refund_address', async (ctx) => {
+    const userId = ctx.from.id;
+    const state = await db.getConversationState(userId);
+    if (!state?.pendingRefundAddress || !state.parsedCommand) return ctx.answerCbQuery('Session expired.');
+
+    await ctx.answerCbQuery();
+    return setRefundAddress(ctx, userId, state, null);
+});
+
 bot.action('cancel_swap', (ctx) => {
+    quoteCountdown.stop(ctx.from.id);
     db.clearConversationState(ctx.from.id);
     ctx.editMessageText('❌ Cancelled.');
 });
 
+bot.action(/^pick_network:(\w+):([\w-]+)$/, async (ctx) => {
+    const userId = ctx.from.id;
+    const state = await db.getConversationState(userId);
+    const [, slot, network] = ctx.match;
+    if (!state?.parsedCommand || state.pendingNetwork?.slot !== slot) return ctx.answerCbQuery('Session expired.');
+
+    await ctx.answerCbQuery();
+    await ctx.editMessageText(`✅ ${state.pendingNetwork.coin} on ${network}`);
+    return handleParsedCommand(ctx, applyNetworkChoice(state.parsedCommand, slot, network));
+});
+
+bot.action('use_suggested_amount', async (ctx) => {
+    const userId = ctx.from.id;
+    const state = await db.getConversationState(userId);
+    if (!state?.parsedCommand || state.suggestedAmount == null) return ctx.answerCbQuery('Session expired.');
+
+    await ctx.answerCbQuery();
+    await ctx.editMessageText(`✅ Using ${state.suggestedAmount} ${amountAsset(state.parsedCommand) ?? ''}`.trim());
+    return handleParsedCommand(ctx, { ...state.parsedCommand, amount: state.suggestedAmount, balanceAmount: null });
+});
+
 bot.action('confirm_migration', async (ctx) => {
     const userId = ctx.from.id;
     const state = await db.getConversationState(userId);
@@ -1091,10 +1897,13 @@ bot.action('confirm_migration', async (ctx) => {
             });
         }
 
+        const permission = await ensureSwapAllowed(ctx, userId);
+        if (!permission) return;
+
         const quote = await createQuote(
             fromAsset!, fromChain!,
             toAsset!, toChain!,
-            amount!, '1.1.1.1'
+            amount!, permission.userIP
         );
 
         if (quote.error) return ctx.editMessageText(`Error: ${quote.error.message}`);
@@ -1177,9 +1986,12 @@ bot.action('place_migration', async (ctx) => {
 
     try {
         await ctx.answerCbQuery('Creating migration order...');
+        const permission = await ensureSwapAllowed(ctx, userId);
+        if (!permission) return;
 
         const destinationAddress = state.parsedCommand.settleAddress || state.parsedCommand.toAsset!;
-        const order = await createOrder(state.quoteId, destinationAddress, destinationAddress);
+        const refundAddress = await getRefundAddress(userId, state.parsedCommand);
+        const order = await createOrder(state.quoteId, destinationAddress, refundAddress, permission.userIP);
 
         if (!order.id) throw new Error("Failed to create order");
 
@@ -1193,43 +2005,19 @@ bot.action('place_migration', async (ctx) => {
             fromProject: state.parsedCommand.fromProject,
             toProject: state.parsedCommand.toProject,
             fromYield: state.parsedCommand.fromYield,
-            toYield: state.parsedCommand.toYield
+            toYield: state.parsedCommand.toYield,
+            refundAddress
         };
 
         db.createOrderEntry(userId, migrationData as any, order, state.settleAmount, state.quoteId);
 
         const { amount, fromChain, fromAsset } = state.parsedCommand;
-        const rawDepositAddress = typeof order.depositAddress === 'string' ? order.depositAddress : order.depositAddress.address;
-        const depositMemo = typeof order.depositAddress === 'object' ? order.depositAddress.memo : null;
-
-        const chainKey = fromChain?.toLowerCase() || 'ethereum';
-        const assetKey = fromAsset?.toUpperCase() || 'ETH';
-
-        const tokenData = await tokenResolver.getTokenInfo(assetKey, chainKey);
+        const deposit = await buildDepositPrompt(order, amount!, fromAsset, fromChain);
 
-        let txTo = rawDepositAddress, txValueHex = '0x0', txData = '0x';
-
-        if (tokenData) {
-            txTo = tokenData.address;
-            const amountBigInt = ethers.parseUnits(amount!.toString(), tokenData.decimals);
-            const iface = new ethers.Interface(ERC20_ABI);
-            txData = iface.encodeFunctionData("transfer", [rawDepositAddress, amountBigInt]);
-        } else {
-            const amountBigInt = ethers.parseUnits(amount!.toString(), 18);
-            txValueHex = '0x' + amountBigInt.toString(16);
-            if (depositMemo) txData = ethers.hexlify(ethers.toUtf8Bytes(depositMemo));
-        }
-
-        const params = new URLSearchParams({
-            to: txTo, value: txValueHex, data: txData,
-            chainId: chainIdMap[chainKey] || '1',
-            token: assetKey, amount: amount!.toString()
-        });
-
-        ctx.editMessageText(`✅ *Migration Order Created!*\n\nYour funds will be moved to the higher-yielding pool.\n\nSign to complete the migration.`, {
+        ctx.editMessageText(`✅ *Migration Order Created!*\n\nYour funds will be moved to the higher-yielding pool.\n\n${deposit.signUrl ? 'Sign to complete the migration.' : deposit.text}`, {
             parse_mode: 'Markdown',
             ...Markup.inlineKeyboard([
-                Markup.button.webApp('📱 Sign Transaction', `${MINI_APP_URL}?${params.toString()}`),
+                ...(deposit.signUrl ? [Markup.button.webApp('📱 Sign Transaction', deposit.signUrl)] : []),
                 Markup.button.callback('❌ Close', 'cancel_swap')
             ])
         });
@@ -1277,19 +2065,55 @@ bot.action('refresh_yields', async (ctx) => {
 
 const app = express();
 app.get('/', (req, res) => res.send('SwapSmith Alive'));
+app.post('/webhooks/sideshift', express.json(), createSideShiftWebhookHandler(orderMonitor));
+
+// The Mini App posts the signed /link_wallet message here
+const walletLinkHandler = createWalletLinkHandler(async (telegramId, address) => {
+    await bot.telegram.sendMessage(
+        telegramId,
+        `✅ Wallet linked: \`${address}\`\n\nIt's now your default address for receiving swaps and for refunds.`,
+        { parse_mode: 'Markdown' }
+    ).catch((error) => console.error('Failed to confirm wallet link:', error));
+});
+app.options('/wallet/link', walletLinkHandler);
+app.post('/wallet/link', express.json(), walletLinkHandler);
 app.listen(process.env.PORT || 3000, () => console.log(`Express server live`));
 
+// Point SideShift at the webhook route; the secret travels in the URL since SideShift can't sign requests
+if (isWebhookEnabled() && process.env.SIDESHIFT_WEBHOOK_URL) {
+    const webhookUrl = new URL(process.env.SIDESHIFT_WEBHOOK_URL);
+    webhookUrl.searchParams.set('secret', process.env.SIDESHIFT_WEBHOOK_SECRET!);
+    registerWebhook(webhookUrl.toString())
+        .then(() => console.log('🪝 SideShift webhook registered'))
+        .catch((error) => console.error('Failed to register SideShift webhook:', error));
+}
+
 // Start the order monitor
 orderMonitor.start();
 
+// Start the price trigger monitor
+triggerMonitor.start();
+
+// Start the checkout monitor
+checkoutMonitor.start();
+
+// Start the DCA scheduler
+dcaScheduler.start();
+
 bot.launch();
 
 // Graceful shutdown
 process.once('SIGINT', () => {
     orderMonitor.stop();
+    triggerMonitor.stop();
+    checkoutMonitor.stop();
+    dcaScheduler.stop();
     bot.stop('SIGINT');
 });
 process.once('SIGTERM', () => {
     orderMonitor.stop();
+    triggerMonitor.stop();
+    checkoutMonitor.stop();
+    dcaScheduler.stop();
     bot.stop('SIGTERM');
 });
@@ -6,6 +6,7 @@ export const chainIdMap: { [key: string]: string } = {
     'base': '8453',
     'optimism': '10',
     'avalanche': '43114',
+    'avax': '43114', // SideShift's network id for Avalanche C-Chain
     'fantom': '250',
     'cronos': '25',
     'moonbeam': '1284',
@@ -0,0 +1,129 @@
+import { canonicalChain, resolveAssetNetwork, toSideShiftNetwork } from '@swapsmith/core';
+import { tokenResolver } from './token-resolver';
+import type { ParsedCommand } from './groq-client';
+
+// Most networks offered as buttons; the rest can still be typed
+export const MAX_NETWORK_OPTIONS = 8;
+
+// An asset/network pair of a command: 'from', 'to', 'settle', or 'leg<index>' for portfolio outputs
+export type AssetSlot = string;
+
+export interface NetworkQuestion {
+  slot: AssetSlot;
+  coin: string;
+  networks: string[]; // Every network the answer may name, most used first
+}
+
+export type CanonicalizeResult =
+  | { status: 'ok'; command: ParsedCommand; corrections: string[] }
+  | { status: 'ask'; command: ParsedCommand; question: NetworkQuestion }
+  | { status: 'error'; message: string };
+
+function slotsOf(command: ParsedCommand): AssetSlot[] {
+  switch (command.intent) {
+    case 'swap':
+    case 'conditional_swap':
+    case 'dca':
+      return ['from', 'to'];
+    case 'yield_deposit':
+      return ['from'];
+    case 'portfolio':
+      return ['from', ...(command.portfolio ?? []).map((_, i) => `leg${i}`)];
+    case 'checkout':
+      return ['settle'];
+    default:
+      return [];
+  }
+}
+
+function readSlot(command: ParsedCommand, slot: AssetSlot): { asset: string | null; network: string | null } {
+  if (slot === 'from') return { asset: command.fromAsset, network: command.fromChain };
+  if (slot === 'to') return { asset: command.toAsset, network: command.toChain };
+  if (slot === 'settle') return { asset: command.settleAsset, network: command.settleNetwork };
+  const leg = command.portfolio?.[Number(slot.slice(3))];
+  return { asset: leg?.toAsset ?? null, network: leg?.toChain || null };
+}
+
+function writeSlot(command: ParsedCommand, slot: AssetSlot, asset: string, network: string): ParsedCommand {
+  if (slot === 'from') return { ...command, fromAsset: asset, fromChain: network };
+  if (slot === 'to') return { ...command, toAsset: asset, toChain: network };
+  if (slot === 'settle') return { ...command, settleAsset: asset, settleNetwork: network };
+  const index = Number(slot.slice(3));
+  return {
+    ...command,
+    portfolio: command.portfolio?.map((leg, i) => (i === index ? { ...leg, toAsset: asset, toChain: network } : leg)),
+  };
+}
+
+/**
+ * Maps every asset/network of a parsed command onto a pair SideShift lists, fixing aliases
+ * and typos. Stops at the first asset whose network the user has to pick.
+ * Commands are returned unchanged when the coin list can't be loaded and every network is named.
+ */
+export async function canonicalizeCommand(command: ParsedCommand): Promise<CanonicalizeResult> {
+  const slots = slotsOf(command);
+  if (slots.length === 0) return { status: 'ok', command, corrections: [] };
+
+  const coins = await tokenResolver.getCoinList();
+  if (coins.length === 0) {
+    const missing = slots.map(slot => readSlot(command, slot)).find(({ asset, network }) => asset && !network);
+    if (missing) return { status: 'error', message: `I can't check networks right now. Please say which network your ${missing.asset} is on, e.g. "${missing.asset} on ethereum".` };
+    return { status: 'ok', command, corrections: [] };
+  }
+
+  let result = command;
+  const corrections: string[] = [];
+
+  for (const slot of slots) {
+    const { asset, network } = readSlot(result, slot);
+    if (!asset) continue;
+
+    const resolution = resolveAssetNetwork(coins, asset, network);
+    switch (resolution.status) {
+      case 'resolved':
+        if (resolution.corrected) corrections.push(`${asset}${network ? ` (${network})` : ''} → ${resolution.coin} (${resolution.network})`);
+        result = writeSlot(result, slot, resolution.coin, resolution.network);
+        break;
+      case 'ambiguous':
+        return {
+          status: 'ask',
+          command: result,
+          question: { slot, coin: resolution.coin, networks: resolution.networks },
+        };
+      case 'unknown_coin':
+        return {
+          status: 'error',
+          message: resolution.suggestions.length > 0
+            ? `SideShift doesn't list "${asset}". Did you mean ${resolution.suggestions.join(', ')}?`
+            : `SideShift doesn't list "${asset}".`,
+        };
+      case 'unsupported_network':
+        return {
+          status: 'error',
+          message: `${resolution.coin} isn't available on ${resolution.network} via SideShift. ` +
+            `Supported networks: ${resolution.networks.slice(0, MAX_NETWORK_OPTIONS).join(', ')}.`,
+        };
+    }
+  }
+
+  return { status: 'ok', command: result, corrections };
+}
+
+/**
+ * The network a typed reply names, if it is one of the question's networks ("BEP20" → bsc).
+ * Anything else ("cancel", "swap 1 ETH") is null, so it can be read as a new command.
+ */
+export function matchNetworkChoice(question: NetworkQuestion, reply: string): string | null {
+  const typed = reply.trim().toLowerCase();
+  const chain = canonicalChain(typed);
+  const candidates = chain ? [typed, chain, toSideShiftNetwork(chain)] : [typed];
+  return question.networks.find(network => candidates.includes(network.toLowerCase())) ?? null;
+}
+
+/**
+ * Fills in the network the user picked for a slot
+ */
+export function applyNetworkChoice(command: ParsedCommand, slot: AssetSlot, network: string): ParsedCommand {
+  const { asset } = readSlot(command, slot);
+  return asset ? writeSlot(command, slot, asset, network) : command;
+}
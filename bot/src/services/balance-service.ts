@@ -0,0 +1,138 @@
+import { ethers } from 'ethers';
+import dotenv from 'dotenv';
+import { chainIdMap } from '../config/chains';
+import { tokenResolver } from './token-resolver';
+import type { ParsedCommand } from './groq-client';
+
+dotenv.config();
+
+const ERC20_ABI = [
+    "function balanceOf(address owner) view returns (uint256)"
+];
+
+// Public RPCs used when RPC_URL_<NETWORK> isn't set, keyed by SideShift network id
+const DEFAULT_RPC_URLS: { [network: string]: string } = {
+    ethereum: 'https://eth.llamarpc.com',
+    bsc: 'https://bsc-dataseed.bnbchain.org',
+    polygon: 'https://polygon-rpc.com',
+    arbitrum: 'https://arb1.arbitrum.io/rpc',
+    base: 'https://mainnet.base.org',
+    optimism: 'https://mainnet.optimism.io',
+    avax: 'https://api.avax.network/ext/bc/C/rpc',
+};
+
+const EVM_NATIVE_DECIMALS = 18;
+
+// Gas kept back when spending a native balance: one plain transfer at twice the current fee, as fees move
+const NATIVE_TRANSFER_GAS = 21000n;
+const GAS_PRICE_BUFFER = 2n;
+
+// Significant digits a double carries through a decimal round trip exactly
+const FLOAT_SAFE_DIGITS = 15;
+
+export interface WalletBalance {
+    raw: bigint;
+    decimals: number;
+    gasReserve: bigint; // Zero for tokens; gas is paid in the native coin
+}
+
+// A percentage or "all" amount after it has been read from the wallet
+export interface BalanceAmount {
+    amount: number;
+    balance: number;
+    gasReserve: number;
+}
+
+const providers = new Map<string, ethers.JsonRpcProvider>();
+
+function getProvider(network: string): ethers.JsonRpcProvider {
+    const rpcUrl = process.env[`RPC_URL_${network.toUpperCase()}`] || DEFAULT_RPC_URLS[network];
+    const chainId = chainIdMap[network];
+    if (!rpcUrl || !chainId) throw new Error(`Reading balances on ${network} isn't supported yet.`);
+
+    let provider = providers.get(network);
+    if (!provider) {
+        provider = new ethers.JsonRpcProvider(rpcUrl, Number(chainId), { staticNetwork: true });
+        providers.set(network, provider);
+    }
+    return provider;
+}
+
+/**
+ * Reads a wallet's balance of an asset over RPC: native coins with eth_getBalance,
+ * tokens with ERC-20 balanceOf. Native balances come with the gas to keep back.
+ * @param network - SideShift network id (e.g. 'ethereum', 'avax')
+ */
+export async function getWalletBalance(walletAddress: string, asset: string, network: string): Promise<WalletBalance> {
+    const chainKey = network.toLowerCase();
+    const assetKey = asset.toUpperCase();
+    const provider = getProvider(chainKey);
+
+    const token = await tokenResolver.getTokenInfo(assetKey, chainKey);
+    if (token) {
+        const contract = new ethers.Contract(token.address, ERC20_ABI, provider);
+        const raw: bigint = await contract.balanceOf(walletAddress);
+        return { raw, decimals: token.decimals, gasReserve: 0n };
+    }
+
+    if (!(await tokenResolver.isKnownNativeAsset(assetKey, chainKey))) {
+        throw new Error(`${assetKey} isn't a known asset on ${network}, so I can't read its balance.`);
+    }
+
+    const [raw, fees] = await Promise.all([provider.getBalance(walletAddress), provider.getFeeData()]);
+    const gasPrice = fees.maxFeePerGas ?? fees.gasPrice ?? 0n;
+    return { raw, decimals: EVM_NATIVE_DECIMALS, gasReserve: gasPrice * NATIVE_TRANSFER_GAS * GAS_PRICE_BUFFER };
+}
+
+/**
+ * Base-unit amount as a number that never exceeds it: digits past what a double holds are cut
+ * rather than rounded, so converting the number back to base units can't ask for more than the wallet has
+ */
+function toSpendableNumber(raw: bigint, decimals: number): number {
+    const extraDigits = raw.toString().length - FLOAT_SAFE_DIGITS;
+    const factor = extraDigits > 0 ? 10n ** BigInt(extraDigits) : 1n;
+    return parseFloat(ethers.formatUnits((raw / factor) * factor, decimals));
+}
+
+/**
+ * Works out how much of a balance a percentage or "all" command spends, never dipping
+ * into the gas reserve
+ * @param percentage - Share of the balance (e.g. 50), ignored for "all"
+ */
+export function resolveBalanceAmount(balance: WalletBalance, amountType: 'percentage' | 'all', percentage: number | null): BalanceAmount {
+    const spendable = balance.raw > balance.gasReserve ? balance.raw - balance.gasReserve : 0n;
+    // Basis points keep fractional percentages ("12.5%") exact in bigint math
+    const share = amountType === 'all' ? spendable : (balance.raw * BigInt(Math.round((percentage ?? 0) * 100))) / 10000n;
+    const raw = share < spendable ? share : spendable;
+
+    return {
+        amount: toSpendableNumber(raw, balance.decimals),
+        balance: parseFloat(ethers.formatUnits(balance.raw, balance.decimals)),
+        gasReserve: parseFloat(ethers.formatUnits(balance.gasReserve, balance.decimals)),
+    };
+}
+
+/**
+ * Replaces a percentage or "all" amount with what the linked wallet actually holds
+ * @returns The command with an exact amount and `balanceAmount` set for the confirmation message
+ */
+export async function resolveCommandAmount(command: ParsedCommand, walletAddress: string): Promise<ParsedCommand> {
+    if (command.amountType !== 'percentage' && command.amountType !== 'all') return command;
+    if (!command.fromAsset || !command.fromChain) throw new Error('I need to know which asset and network to spend from.');
+
+    const balance = await getWalletBalance(walletAddress, command.fromAsset, command.fromChain);
+    const resolved = resolveBalanceAmount(balance, command.amountType, command.amount);
+
+    if (resolved.amount <= 0) {
+        throw new Error(resolved.gasReserve > 0 && resolved.balance > 0
+            ? `Your ${resolved.balance} ${command.fromAsset} on ${command.fromChain} doesn't cover the ${resolved.gasReserve} ${command.fromAsset} kept for gas.`
+            : `Your wallet has no ${command.fromAsset} on ${command.fromChain}.`);
+    }
+
+    return {
+        ...command,
+        amount: resolved.amount,
+        amountType: 'exact',
+        balanceAmount: { share: command.amountType === 'all' ? 100 : command.amount!, balance: resolved.balance, gasReserve: resolved.gasReserve },
+    };
+}
@@ -0,0 +1,185 @@
+import { Telegraf } from 'telegraf';
+import { getCheckoutStatus, SideShiftCheckoutStatus, SideShiftOrderStatus } from './sideshift-client';
+import * as db from './database';
+import { handleError } from './logger';
+import { ACTIVE_STATUSES, parseOrderStatus } from './order-status';
+
+const POLL_INTERVAL = 60000; // Check open checkouts every 60 seconds
+const DEFAULT_MAX_CHECKOUT_AGE_DAYS = 7;
+
+export const CHECKOUT_STATUSES = [
+  'pending',    // Link created, nobody has paid yet
+  'processing', // A payer's deposit arrived and is being swapped (or returned)
+  'paid',       // The merchant has been paid
+  'refunded',   // The payment was returned to the payer
+] as const;
+
+export type CheckoutStatus = typeof CHECKOUT_STATUSES[number];
+
+export class MissingCheckoutPaymentsError extends Error {
+  constructor() {
+    super('SideShift returned the checkout without its payments; its status is unknown');
+    this.name = 'MissingCheckoutPaymentsError';
+  }
+}
+
+export interface CheckoutPayment {
+  status: CheckoutStatus;
+  shift: SideShiftOrderStatus | null; // The payment that decided the status
+}
+
+/**
+ * Checkout status from the shifts payers opened on its page. A settled payment wins over
+ * one still in progress, which wins over a refund; abandoned shifts leave it pending.
+ * Throws when the response carries no shifts list, since that says nothing about payment.
+ */
+export function getCheckoutPayment(checkout: Pick<SideShiftCheckoutStatus, 'shifts'>): CheckoutPayment {
+  const shifts = checkout.shifts;
+  if (!Array.isArray(shifts)) {
+    throw new MissingCheckoutPaymentsError();
+  }
+  const withStatus = (match: (status: ReturnType<typeof parseOrderStatus>) => boolean) =>
+    shifts.find(shift => match(parseOrderStatus(shift.status))) ?? null;
+
+  const settled = withStatus(status => status === 'settled');
+  if (settled) return { status: 'paid', shift: settled };
+
+  const active = withStatus(status => !!status && ACTIVE_STATUSES.includes(status));
+  if (active) return { status: 'processing', shift: active };
+
+  const refunded = withStatus(status => status === 'refunded');
+  if (refunded) return { status: 'refunded', shift: refunded };
+
+  return { status: 'pending', shift: null };
+}
+
+/**
+ * Notification for a checkout that was paid or refunded
+ */
+export function describeCheckoutPayment(checkout: db.Checkout, payment: CheckoutPayment): string {
+  const { shift } = payment;
+  let message = payment.status === 'paid' ? `💸 *Payment Received*\n\n` : `↩️ *Payment Refunded*\n\n`;
+  message += `*Checkout:* ${checkout.id} (\`${checkout.checkoutId}\`)\n`;
+
+  if (shift) {
+    if (shift.depositAmount) {
+      message += `*Paid with:* ${shift.depositAmount} ${shift.depositCoin} (${shift.depositNetwork})\n`;
+    }
+    if (shift.depositHash) message += `*Deposit tx:* \`${shift.depositHash}\`\n`;
+  }
+
+  if (payment.status === 'paid') {
+    const settleAmount = shift?.settleAmount ?? checkout.settleAmount;
+    message += `*You received:* ${settleAmount} ${checkout.settleAsset} (${checkout.settleNetwork})\n`;
+    if (shift?.settleHash) message += `*Settle tx:* \`${shift.settleHash}\`\n`;
+  } else {
+    message += `\nThe payer's deposit was returned to them; the link can still be paid.`;
+  }
+  return message;
+}
+
+/**
+ * How fresh an open checkout's status is, e.g. "checked 3 min ago"
+ */
+export function describeLastChecked(lastChecked: Date | null, now: number = Date.now()): string {
+  if (!lastChecked) return 'not checked yet';
+  const elapsed = Math.max(0, now - lastChecked.getTime());
+  if (elapsed < 60000) return 'checked just now';
+  if (elapsed < 60 * 60000) return `checked ${Math.floor(elapsed / 60000)} min ago`;
+  if (elapsed < 24 * 60 * 60000) return `checked ${Math.floor(elapsed / (60 * 60000))} h ago`;
+  return `checked ${Math.floor(elapsed / (24 * 60 * 60000))} d ago`;
+}
+
+export class CheckoutMonitor {
+  private bot: Telegraf;
+  private intervalId: NodeJS.Timeout | null = null;
+  private isRunning: boolean = false;
+  private isChecking: boolean = false;
+  private reportedMissingPayments: boolean = false;
+  private maxCheckoutAgeMs: number;
+
+  constructor(bot: Telegraf, maxCheckoutAgeMs?: number) {
+    this.bot = bot;
+    this.maxCheckoutAgeMs = maxCheckoutAgeMs
+      ?? (parseFloat(process.env.CHECKOUT_WATCH_MAX_AGE_DAYS || '') || DEFAULT_MAX_CHECKOUT_AGE_DAYS) * 24 * 60 * 60 * 1000;
+  }
+
+  start() {
+    if (this.isRunning) {
+      console.log('⚠️ Checkout monitor is already running');
+      return;
+    }
+
+    console.log('🧾 Starting checkout monitor...');
+    this.isRunning = true;
+
+    // Run immediately on start
+    this.checkCheckouts();
+
+    // Then run on interval
+    this.intervalId = setInterval(() => {
+      this.checkCheckouts();
+    }, POLL_INTERVAL);
+  }
+
+  stop() {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    this.isRunning = false;
+    console.log('🛑 Checkout monitor stopped');
+  }
+
+  async checkCheckouts() {
+    // A slow cycle must not overlap with the next one
+    if (this.isChecking) return;
+    this.isChecking = true;
+
+    try {
+      const openCheckouts = await db.getOpenCheckouts(new Date(Date.now() - this.maxCheckoutAgeMs));
+
+      for (const checkout of openCheckouts) {
+        try {
+          await this.checkSingleCheckout(checkout);
+        } catch (error) {
+          console.error(`Error checking checkout ${checkout.checkoutId}:`, error);
+          // A response shape change breaks every checkout at once: alert the admin the first time only
+          const alert = error instanceof MissingCheckoutPaymentsError && !this.reportedMissingPayments;
+          if (alert) this.reportedMissingPayments = true;
+          await handleError('CheckoutMonitorError', {
+            checkoutId: checkout.checkoutId,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          }, null, alert);
+        }
+      }
+    } catch (error) {
+      console.error('Error in checkout monitor:', error);
+      await handleError('CheckoutMonitorError', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }, null, false);
+    } finally {
+      this.isChecking = false;
+    }
+  }
+
+  private async checkSingleCheckout(checkout: db.Checkout) {
+    const payment = getCheckoutPayment(await getCheckoutStatus(checkout.checkoutId));
+    await db.updateCheckoutStatus(checkout.checkoutId, payment.status, payment.shift?.settleHash ?? null);
+
+    if (payment.status === checkout.status) return;
+    console.log(`🧾 Checkout ${checkout.checkoutId} status changed: ${checkout.status} → ${payment.status}`);
+
+    if (payment.status === 'paid' || payment.status === 'refunded') {
+      await this.notifyMerchant(checkout, payment);
+    }
+  }
+
+  private async notifyMerchant(checkout: db.Checkout, payment: CheckoutPayment) {
+    try {
+      await this.bot.telegram.sendMessage(checkout.telegramId, describeCheckoutPayment(checkout, payment), { parse_mode: 'Markdown' });
+    } catch (error) {
+      console.error(`Failed to notify merchant ${checkout.telegramId}:`, error);
+    }
+  }
+}
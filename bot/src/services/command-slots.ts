@@ -0,0 +1,61 @@
+import type { ParsedCommand } from './groq-client';
+
+// A field of a ParsedCommand the user may have to be asked for
+export type CommandSlot =
+  | 'fromAsset'
+  | 'toAsset'
+  | 'amount'
+  | 'settleAsset'
+  | 'settleAmount'
+  | 'portfolio'
+  | 'triggerCondition'
+  | 'triggerPrice'
+  | 'cadence'
+  | 'settleAddress';
+
+// Fields each intent needs before it can be checked against SideShift. Networks are left out:
+// they are resolved against the coin list afterwards, with buttons when there is a choice.
+export const REQUIRED_SLOTS: Record<string, CommandSlot[]> = {
+  swap: ['fromAsset', 'toAsset', 'amount'],
+  portfolio: ['fromAsset', 'amount', 'portfolio'],
+  checkout: ['settleAsset', 'settleAmount'],
+  yield_deposit: ['fromAsset', 'amount'],
+  conditional_swap: ['fromAsset', 'toAsset', 'amount', 'triggerCondition', 'triggerPrice'],
+  dca: ['fromAsset', 'toAsset', 'amount', 'cadence'],
+};
+
+// The order missing slots are asked in, one per turn
+export const SLOT_PRIORITY: CommandSlot[] = [
+  'amount', 'fromAsset', 'toAsset', 'settleAmount', 'settleAsset', 'portfolio', 'triggerCondition', 'triggerPrice', 'cadence',
+];
+
+// Intents that pay out to an address, asked for once everything else is settled
+export const ADDRESS_INTENTS = ['swap', 'checkout', 'portfolio', 'conditional_swap', 'dca'];
+
+export function isSlotMissing(command: ParsedCommand, slot: CommandSlot): boolean {
+  const value = command[slot];
+  switch (slot) {
+    case 'amount':
+      // "All my ETH" has no number until the balance is read
+      return command.amountType !== 'all' && (typeof value !== 'number' || value <= 0);
+    case 'settleAmount':
+    case 'triggerPrice':
+      return typeof value !== 'number' || value <= 0;
+    case 'portfolio':
+      return !Array.isArray(value) || value.length === 0;
+    case 'triggerCondition':
+      return value !== 'above' && value !== 'below';
+    case 'cadence':
+      return value !== 'daily' && value !== 'weekly' && value !== 'monthly';
+    default:
+      return !value;
+  }
+}
+
+/**
+ * Required fields the command doesn't have yet, in the order they are asked
+ */
+export function missingSlots(command: ParsedCommand): CommandSlot[] {
+  const required = REQUIRED_SLOTS[command.intent] ?? [];
+  return SLOT_PRIORITY.filter(slot => required.includes(slot) && isSlotMissing(command, slot));
+}
@@ -1,4 +1,5 @@
 import { ParsedCommand } from './groq-client';
+import { REQUIRED_SLOTS, SLOT_PRIORITY } from './command-slots';
 
 /**
  * Analysis result identifying present, missing, and invalid fields in a parsed command
@@ -44,15 +45,8 @@ export function analyzeCommand(parsed: ParsedCommand): CommandAnalysis {
   const missingFields: string[] = [];
   const invalidFields: { field: string; reason: string }[] = [];
 
-  // Define required fields based on intent
-  const requiredFieldsByIntent: Record<string, string[]> = {
-    swap: ['fromAsset', 'toAsset', 'amount'],
-    portfolio: ['fromAsset', 'amount', 'portfolio'],
-    checkout: ['settleAsset', 'settleNetwork', 'settleAmount'],
-    yield_deposit: ['fromAsset', 'amount']
-  };
-
-  const requiredFields = requiredFieldsByIntent[intent] || [];
+  // Required fields are shared with the dialogue manager, which asks for them one at a time
+  const requiredFields = REQUIRED_SLOTS[intent] || [];
 
   // Analyze each required field
   for (const field of requiredFields) {
@@ -104,8 +98,7 @@ export function generateContextualHelp(
   }
 
   // Get the highest priority missing field
-  const priorityOrder = ['amount', 'fromAsset', 'toAsset', 'settleAmount', 'settleAsset', 'portfolio'];
-  const criticalMissing = priorityOrder.find(field => analysis.missingFields.includes(field));
+  const criticalMissing = SLOT_PRIORITY.find(field => analysis.missingFields.includes(field));
 
   // Extract present field values for context
   const presentAsset = analysis.presentFields.find(f => f.field === 'fromAsset' || f.field === 'settleAsset')?.value;
@@ -137,6 +130,17 @@ export function generateContextualHelp(
   } else if (criticalMissing === 'portfolio') {
     question = `How would you like to split your ${presentAsset || 'assets'}?`;
     example = `split ${presentAmount || '1'} ${presentAsset || 'ETH'} into 50% BTC and 50% USDC`;
+  } else if (criticalMissing === 'triggerCondition') {
+    const assetPart = presentAsset || 'ETH';
+    question = `Should I swap when ${assetPart} goes above or below your price?`;
+    example = `if ${assetPart} goes below $2500, swap ${presentAmount || '1'} ${assetPart} to ${presentToAsset || 'USDC'}`;
+  } else if (criticalMissing === 'triggerPrice') {
+    const assetPart = presentAsset || 'ETH';
+    question = `At what ${assetPart} price should I trigger the swap?`;
+    example = `if ${assetPart} goes above $3000, swap ${presentAmount || '1'} ${assetPart} to ${presentToAsset || 'BTC'}`;
+  } else if (criticalMissing === 'cadence') {
+    question = `How often should I repeat this swap?`;
+    example = `buy ${presentAmount || '50'} ${presentAsset || 'USDC'} of ${presentToAsset || 'ETH'} every Monday`;
   } else {
     // Multiple missing fields or unknown scenario
     const intentName = getIntentDisplayName(analysis.intent);
@@ -168,7 +172,9 @@ function getActionForIntent(intent: string): string {
     swap: 'swap',
     portfolio: 'split',
     checkout: 'receive',
-    yield_deposit: 'deposit'
+    yield_deposit: 'deposit',
+    conditional_swap: 'swap',
+    dca: 'invest'
   };
   return actions[intent] || 'trade';
 }
@@ -181,7 +187,9 @@ function getIntentDisplayName(intent: string): string {
     swap: 'swap',
     portfolio: 'portfolio allocation',
     checkout: 'payment link',
-    yield_deposit: 'yield deposit'
+    yield_deposit: 'yield deposit',
+    conditional_swap: 'conditional swap',
+    dca: 'recurring buy'
   };
   return names[intent] || 'transaction';
 }
@@ -194,7 +202,9 @@ function getDefaultExampleForIntent(intent: string): string {
     swap: 'swap 1 ETH to BTC',
     portfolio: 'split 1 ETH into 50% BTC and 50% USDC',
     checkout: 'create payment link for 100 USDC',
-    yield_deposit: 'deposit 1 ETH to yield'
+    yield_deposit: 'deposit 1 ETH to yield',
+    conditional_swap: 'if ETH goes above $3000, swap 1 ETH to BTC',
+    dca: 'buy 50 USDC of ETH every Monday'
   };
   return examples[intent] || 'swap 1 ETH to BTC';
 }
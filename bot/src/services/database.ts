@@ -1,10 +1,15 @@
 import { neon } from '@neondatabase/serverless';
 import { drizzle } from 'drizzle-orm/neon-http';
-import { pgTable, serial, text, real, timestamp, bigint } from 'drizzle-orm/pg-core';
-import { eq, desc, and } from 'drizzle-orm'; // Added 'and'
+import { pgTable, serial, text, real, timestamp, bigint, integer } from 'drizzle-orm/pg-core';
+import { eq, desc, and, lte, gte, inArray } from 'drizzle-orm'; // Added 'and'
 import dotenv from 'dotenv';
-import type { SideShiftOrder, SideShiftCheckoutResponse } from './sideshift-client';
+import type { SideShiftOrder, SideShiftCheckoutResponse, ShiftMode } from './sideshift-client';
 import type { ParsedCommand } from './groq-client';
+import { endOfDay } from '@swapsmith/core';
+import type { ChatMessage } from '@swapsmith/core';
+import type { OrderStatus } from './order-status';
+import type { CheckoutStatus } from './checkout-monitor';
+import type { SwapProviderId } from './swap-router';
 
 dotenv.config();
 
@@ -17,20 +22,26 @@ export const users = pgTable('users', {
   telegramId: bigint('telegram_id', { mode: 'number' }).notNull().unique(),
   walletAddress: text('wallet_address'),
   sessionTopic: text('session_topic'),
+  region: text('region'), // ISO 3166-1 alpha-2 country code declared with /region
+  maxRateDeviation: real('max_rate_deviation'), // Percent below market a quote may be without extra confirmation; null uses the default
 });
 
 export const conversations = pgTable('conversations', {
   id: serial('id').primaryKey(),
   telegramId: bigint('telegram_id', { mode: 'number' }).notNull().unique(),
   state: text('state'),
+  history: text('history'), // JSON ChatMessage[] of recent turns; kept when the state is replaced or cleared
   lastUpdated: timestamp('last_updated').defaultNow(),
 });
 
 export const orders = pgTable('orders', {
   id: serial('id').primaryKey(),
   telegramId: bigint('telegram_id', { mode: 'number' }).notNull(),
-  sideshiftOrderId: text('sideshift_order_id').notNull().unique(),
-  quoteId: text('quote_id').notNull(),
+  sideshiftOrderId: text('sideshift_order_id').notNull().unique(), // For other providers, their order id (the transaction hash for LI.FI)
+  provider: text('provider').notNull().default('sideshift'),
+  quoteId: text('quote_id'), // null for variable-rate shifts, which have no quote
+  batchId: integer('batch_id'), // portfolio batch this order is a leg of
+  shiftType: text('shift_type').notNull().default('fixed'),
   fromAsset: text('from_asset').notNull(),
   fromNetwork: text('from_network').notNull(),
   fromAmount: real('from_amount').notNull(),
@@ -39,7 +50,8 @@ export const orders = pgTable('orders', {
   settleAmount: text('settle_amount').notNull(),
   depositAddress: text('deposit_address').notNull(),
   depositMemo: text('deposit_memo'),
-  status: text('status').notNull().default('pending'),
+  refundAddress: text('refund_address'), // null when the user gave none; SideShift then asks on its order page
+  status: text('status').$type<OrderStatus>().notNull().default('waiting'),
   txHash: text('tx_hash'),
   createdAt: timestamp('created_at').defaultNow(),
 });
@@ -52,7 +64,9 @@ export const checkouts = pgTable('checkouts', {
   settleNetwork: text('settle_network').notNull(),
   settleAmount: real('settle_amount').notNull(),
   settleAddress: text('settle_address').notNull(),
-  status: text('status').notNull().default('pending'),
+  status: text('status').$type<CheckoutStatus>().notNull().default('pending'),
+  settleHash: text('settle_hash'), // Payout to the merchant, once paid
+  lastChecked: timestamp('last_checked'),
   createdAt: timestamp('created_at').defaultNow(),
 });
 
@@ -69,16 +83,75 @@ export const watchedOrders = pgTable('watched_orders', {
   id: serial('id').primaryKey(),
   telegramId: bigint('telegram_id', { mode: 'number' }).notNull(),
   sideshiftOrderId: text('sideshift_order_id').notNull().unique(),
-  lastStatus: text('last_status').notNull().default('pending'),
+  provider: text('provider').notNull().default('sideshift'), // Which provider's status API tracks it
+  lastStatus: text('last_status').$type<OrderStatus>().notNull().default('waiting'),
   lastChecked: timestamp('last_checked').defaultNow(),
   createdAt: timestamp('created_at').defaultNow(),
 });
 
+export const pendingTriggers = pgTable('pending_triggers', {
+  id: serial('id').primaryKey(),
+  telegramId: bigint('telegram_id', { mode: 'number' }).notNull(),
+  fromAsset: text('from_asset').notNull(),
+  fromNetwork: text('from_network').notNull(),
+  toAsset: text('to_asset').notNull(),
+  toNetwork: text('to_network').notNull(),
+  amount: real('amount').notNull(),
+  settleAddress: text('settle_address').notNull(),
+  triggerAsset: text('trigger_asset').notNull(),
+  triggerCondition: text('trigger_condition').notNull(), // 'above' | 'below'
+  triggerPrice: real('trigger_price').notNull(),
+  status: text('status').notNull().default('pending'), // 'pending' | 'triggered' | 'cancelled'
+  lastPrice: real('last_price'),
+  triggeredAt: timestamp('triggered_at'),
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+export const dcaSchedules = pgTable('dca_schedules', {
+  id: serial('id').primaryKey(),
+  telegramId: bigint('telegram_id', { mode: 'number' }).notNull(),
+  fromAsset: text('from_asset').notNull(),
+  fromNetwork: text('from_network').notNull(),
+  toAsset: text('to_asset').notNull(),
+  toNetwork: text('to_network').notNull(),
+  amount: real('amount').notNull(),
+  settleAddress: text('settle_address').notNull(),
+  cadence: text('cadence').notNull(), // 'daily' | 'weekly' | 'monthly'
+  cadenceDay: integer('cadence_day'),
+  status: text('status').notNull().default('active'), // 'active' | 'paused' | 'cancelled' | 'completed'
+  nextRunAt: timestamp('next_run_at').notNull(),
+  lastRunAt: timestamp('last_run_at'),
+  runCount: integer('run_count').notNull().default(0),
+  endDate: timestamp('end_date'),
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+export const portfolioBatches = pgTable('portfolio_batches', {
+  id: serial('id').primaryKey(),
+  telegramId: bigint('telegram_id', { mode: 'number' }).notNull(),
+  fromAsset: text('from_asset').notNull(),
+  fromNetwork: text('from_network').notNull(),
+  amount: real('amount').notNull(),
+  status: text('status').notNull().default('placing'), // 'placing' | 'placed' | 'abandoned'
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+// Nonces handed out by /link_wallet; each one is consumed by the signature that uses it
+export const walletLinkRequests = pgTable('wallet_link_requests', {
+  nonce: text('nonce').primaryKey(),
+  telegramId: bigint('telegram_id', { mode: 'number' }).notNull(),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+});
+
 export type User = typeof users.$inferSelect;
 export type Order = typeof orders.$inferSelect;
 export type Checkout = typeof checkouts.$inferSelect;
 export type AddressBookEntry = typeof addressBook.$inferSelect;
 export type WatchedOrder = typeof watchedOrders.$inferSelect;
+export type PendingTrigger = typeof pendingTriggers.$inferSelect;
+export type DcaSchedule = typeof dcaSchedules.$inferSelect;
+export type PortfolioBatch = typeof portfolioBatches.$inferSelect;
+export type WalletLinkRequest = typeof walletLinkRequests.$inferSelect;
 
 // --- FUNCTIONS ---
 
@@ -87,6 +160,45 @@ export async function getUser(telegramId: number): Promise<User | undefined> {
   return result[0];
 }
 
+export async function setUserRegion(telegramId: number, region: string | null) {
+  await db.insert(users)
+    .values({ telegramId, region })
+    .onConflictDoUpdate({
+      target: users.telegramId,
+      set: { region }
+    });
+}
+
+export async function setUserMaxRateDeviation(telegramId: number, maxRateDeviation: number | null) {
+  await db.insert(users)
+    .values({ telegramId, maxRateDeviation })
+    .onConflictDoUpdate({
+      target: users.telegramId,
+      set: { maxRateDeviation }
+    });
+}
+
+export async function setUserWallet(telegramId: number, walletAddress: string | null) {
+  await db.insert(users)
+    .values({ telegramId, walletAddress })
+    .onConflictDoUpdate({
+      target: users.telegramId,
+      set: { walletAddress }
+    });
+}
+
+export async function createWalletLinkRequest(telegramId: number, nonce: string) {
+  await db.insert(walletLinkRequests).values({ telegramId, nonce });
+}
+
+/**
+ * Removes and returns a /link_wallet nonce, so a signed message can only be used once
+ */
+export async function takeWalletLinkRequest(nonce: string): Promise<WalletLinkRequest | undefined> {
+  const result = await db.delete(walletLinkRequests).where(eq(walletLinkRequests.nonce, nonce)).returning();
+  return result[0];
+}
+
 export async function setUserWalletAndSession(telegramId: number, walletAddress: string, sessionTopic: string) {
   await db.insert(users)
     .values({ telegramId, walletAddress, sessionTopic })
@@ -96,6 +208,9 @@ export async function setUserWalletAndSession(telegramId: number, walletAddress:
     });
 }
 
+const CONVERSATION_TTL = 60 * 60 * 1000; // Conversations idle for an hour start over
+const MAX_HISTORY_TURNS = 12;
+
 export async function getConversationState(telegramId: number) {
   const result = await db.select({ state: conversations.state, lastUpdated: conversations.lastUpdated }).from(conversations).where(eq(conversations.telegramId, telegramId));
   if (!result[0]?.state) return null;
@@ -103,7 +218,7 @@ export async function getConversationState(telegramId: number) {
   const state = JSON.parse(result[0].state);
   const lastUpdated = result[0].lastUpdated;
 
-  if (lastUpdated && (Date.now() - new Date(lastUpdated).getTime()) > 60 * 60 * 1000) {
+  if (lastUpdated && (Date.now() - new Date(lastUpdated).getTime()) > CONVERSATION_TTL) {
     await clearConversationState(telegramId);
     return null;
   }
@@ -119,24 +234,63 @@ export async function setConversationState(telegramId: number, state: any) {
     });
 }
 
+/**
+ * Ends the flow in progress; the history stays so the next command still has the recent turns
+ */
 export async function clearConversationState(telegramId: number) {
+  await db.update(conversations)
+    .set({ state: null })
+    .where(eq(conversations.telegramId, telegramId));
+}
+
+/**
+ * Forgets the flow in progress and the history (/clear)
+ */
+export async function clearConversation(telegramId: number) {
   await db.delete(conversations).where(eq(conversations.telegramId, telegramId));
 }
 
+export async function getConversationHistory(telegramId: number): Promise<ChatMessage[]> {
+  const result = await db.select({ history: conversations.history, lastUpdated: conversations.lastUpdated }).from(conversations).where(eq(conversations.telegramId, telegramId));
+  const row = result[0];
+  if (!row?.history) return [];
+  if (row.lastUpdated && (Date.now() - new Date(row.lastUpdated).getTime()) > CONVERSATION_TTL) return [];
+  return JSON.parse(row.history);
+}
+
+/**
+ * Adds turns to the conversation history, keeping only the most recent ones
+ */
+export async function appendConversationHistory(telegramId: number, turns: ChatMessage[]) {
+  const history = JSON.stringify([...(await getConversationHistory(telegramId)), ...turns].slice(-MAX_HISTORY_TURNS));
+  await db.insert(conversations)
+    .values({ telegramId, history, lastUpdated: new Date() })
+    .onConflictDoUpdate({
+      target: conversations.telegramId,
+      set: { history, lastUpdated: new Date() }
+    });
+}
+
 export async function createOrderEntry(
   telegramId: number, 
-  parsedCommand: ParsedCommand, 
+  parsedCommand: Pick<ParsedCommand, 'fromAsset' | 'fromChain' | 'toAsset' | 'toChain' | 'amount' | 'refundAddress'>, 
   order: SideShiftOrder, 
   settleAmount: string | number,
-  quoteId: string
+  quoteId: string | null,
+  shiftType: ShiftMode = 'fixed',
+  batchId: number | null = null,
+  provider: SwapProviderId = 'sideshift'
 ) {
   const depositAddr = typeof order.depositAddress === 'string' ? order.depositAddress : order.depositAddress?.address;
   const depositMemo = typeof order.depositAddress === 'object' ? order.depositAddress?.memo : null;
 
-  await db.insert(orders).values({
+  const result = await db.insert(orders).values({
     telegramId,
     sideshiftOrderId: order.id,
+    provider,
     quoteId,
+    shiftType,
+    batchId,
     fromAsset: parsedCommand.fromAsset!,
     fromNetwork: parsedCommand.fromChain!,
     fromAmount: parsedCommand.amount!,
@@ -144,8 +298,10 @@ export async function createOrderEntry(
     toNetwork: parsedCommand.toChain!,
     settleAmount: settleAmount.toString(),
     depositAddress: depositAddr!,
-    depositMemo: depositMemo || null
-  });
+    depositMemo: depositMemo || null,
+    refundAddress: parsedCommand.refundAddress ?? null
+  }).returning({ id: orders.id });
+  return result[0];
 }
 
 export async function getUserHistory(telegramId: number): Promise<Order[]> {
@@ -163,7 +319,7 @@ export async function getLatestUserOrder(telegramId: number): Promise<Order | un
   return result[0];
 }
 
-export async function updateOrderStatus(sideshiftOrderId: string, newStatus: string) {
+export async function updateOrderStatus(sideshiftOrderId: string, newStatus: OrderStatus) {
   await db.update(orders)
     .set({ status: newStatus })
     .where(eq(orders.sideshiftOrderId, sideshiftOrderId));
@@ -187,6 +343,26 @@ export async function getUserCheckouts(telegramId: number): Promise<Checkout[]>
     .limit(10);
 }
 
+/**
+ * Checkouts that may still be paid (a refunded payer can pay again), created after `since`;
+ * older links are no longer polled
+ */
+export async function getOpenCheckouts(since: Date): Promise<Checkout[]> {
+  return await db.select().from(checkouts)
+    .where(
+      and(
+        inArray(checkouts.status, ['pending', 'processing', 'refunded']),
+        gte(checkouts.createdAt, since)
+      )
+    );
+}
+
+export async function updateCheckoutStatus(checkoutId: string, status: CheckoutStatus, settleHash: string | null = null) {
+  await db.update(checkouts)
+    .set({ status, settleHash, lastChecked: new Date() })
+    .where(eq(checkouts.checkoutId, checkoutId));
+}
+
 export async function addAddressBookEntry(telegramId: number, nickname: string, address: string, chain: string) {
   await db.insert(addressBook)
     .values({ telegramId, nickname, address, chain })
@@ -218,11 +394,12 @@ export async function resolveNickname(telegramId: number, nickname: string): Pro
 
 // --- WATCHED ORDERS FUNCTIONS ---
 
-export async function addWatchedOrder(telegramId: number, sideshiftOrderId: string, initialStatus: string = 'pending') {
+export async function addWatchedOrder(telegramId: number, sideshiftOrderId: string, initialStatus: OrderStatus = 'waiting', provider: SwapProviderId = 'sideshift') {
   await db.insert(watchedOrders)
     .values({ 
       telegramId, 
       sideshiftOrderId, 
+      provider,
       lastStatus: initialStatus,
       lastChecked: new Date()
     })
@@ -236,6 +413,11 @@ export async function removeWatchedOrder(sideshiftOrderId: string) {
   await db.delete(watchedOrders).where(eq(watchedOrders.sideshiftOrderId, sideshiftOrderId));
 }
 
+export async function getWatchedOrder(sideshiftOrderId: string): Promise<WatchedOrder | undefined> {
+  const result = await db.select().from(watchedOrders).where(eq(watchedOrders.sideshiftOrderId, sideshiftOrderId));
+  return result[0];
+}
+
 export async function getAllWatchedOrders(): Promise<WatchedOrder[]> {
   return await db.select().from(watchedOrders);
 }
@@ -246,8 +428,194 @@ export async function getUserWatchedOrders(telegramId: number): Promise<WatchedO
     .orderBy(desc(watchedOrders.createdAt));
 }
 
-export async function updateWatchedOrderStatus(sideshiftOrderId: string, newStatus: string) {
+export async function updateWatchedOrderStatus(sideshiftOrderId: string, newStatus: OrderStatus) {
   await db.update(watchedOrders)
     .set({ lastStatus: newStatus, lastChecked: new Date() })
     .where(eq(watchedOrders.sideshiftOrderId, sideshiftOrderId));
 }
+
+
+// --- PENDING TRIGGERS FUNCTIONS ---
+
+export async function createPendingTrigger(telegramId: number, parsedCommand: ParsedCommand): Promise<PendingTrigger> {
+  const result = await db.insert(pendingTriggers)
+    .values({
+      telegramId,
+      fromAsset: parsedCommand.fromAsset!,
+      fromNetwork: parsedCommand.fromChain!,
+      toAsset: parsedCommand.toAsset!,
+      toNetwork: parsedCommand.toChain!,
+      amount: parsedCommand.amount!,
+      settleAddress: parsedCommand.settleAddress!,
+      triggerAsset: (parsedCommand.triggerAsset || parsedCommand.fromAsset)!.toUpperCase(),
+      triggerCondition: parsedCommand.triggerCondition!,
+      triggerPrice: parsedCommand.triggerPrice!,
+    })
+    .returning();
+  return result[0];
+}
+
+export async function getActivePendingTriggers(): Promise<PendingTrigger[]> {
+  return await db.select().from(pendingTriggers)
+    .where(eq(pendingTriggers.status, 'pending'));
+}
+
+export async function getUserPendingTriggers(telegramId: number): Promise<PendingTrigger[]> {
+  return await db.select().from(pendingTriggers)
+    .where(
+      and(
+        eq(pendingTriggers.telegramId, telegramId),
+        eq(pendingTriggers.status, 'pending')
+      )
+    )
+    .orderBy(desc(pendingTriggers.createdAt));
+}
+
+export async function getPendingTrigger(telegramId: number, triggerId: number): Promise<PendingTrigger | undefined> {
+  const result = await db.select().from(pendingTriggers)
+    .where(
+      and(
+        eq(pendingTriggers.id, triggerId),
+        eq(pendingTriggers.telegramId, telegramId)
+      )
+    )
+    .limit(1);
+  return result[0];
+}
+
+export async function cancelPendingTrigger(telegramId: number, triggerId: number): Promise<boolean> {
+  const result = await db.update(pendingTriggers)
+    .set({ status: 'cancelled' })
+    .where(
+      and(
+        eq(pendingTriggers.id, triggerId),
+        eq(pendingTriggers.telegramId, telegramId),
+        eq(pendingTriggers.status, 'pending')
+      )
+    )
+    .returning({ id: pendingTriggers.id });
+  return result.length > 0;
+}
+
+export async function updateTriggerLastPrice(triggerId: number, lastPrice: number) {
+  await db.update(pendingTriggers)
+    .set({ lastPrice })
+    .where(eq(pendingTriggers.id, triggerId));
+}
+
+export async function markTriggerFired(triggerId: number, price: number) {
+  await db.update(pendingTriggers)
+    .set({ status: 'triggered', lastPrice: price, triggeredAt: new Date() })
+    .where(eq(pendingTriggers.id, triggerId));
+}
+
+
+// --- DCA SCHEDULE FUNCTIONS ---
+
+export async function createDcaSchedule(telegramId: number, parsedCommand: ParsedCommand, nextRunAt: Date): Promise<DcaSchedule> {
+  const result = await db.insert(dcaSchedules)
+    .values({
+      telegramId,
+      fromAsset: parsedCommand.fromAsset!,
+      fromNetwork: parsedCommand.fromChain!,
+      toAsset: parsedCommand.toAsset!,
+      toNetwork: parsedCommand.toChain!,
+      amount: parsedCommand.amount!,
+      settleAddress: parsedCommand.settleAddress!,
+      cadence: parsedCommand.cadence!,
+      cadenceDay: parsedCommand.cadenceDay ?? null,
+      nextRunAt,
+      endDate: parsedCommand.endDate ? endOfDay(parsedCommand.endDate) : null,
+    })
+    .returning();
+  return result[0];
+}
+
+export async function getDueDcaSchedules(now: Date = new Date()): Promise<DcaSchedule[]> {
+  return await db.select().from(dcaSchedules)
+    .where(
+      and(
+        eq(dcaSchedules.status, 'active'),
+        lte(dcaSchedules.nextRunAt, now)
+      )
+    );
+}
+
+export async function getUserDcaSchedules(telegramId: number): Promise<DcaSchedule[]> {
+  return await db.select().from(dcaSchedules)
+    .where(eq(dcaSchedules.telegramId, telegramId))
+    .orderBy(desc(dcaSchedules.createdAt));
+}
+
+export async function setDcaScheduleStatus(
+  telegramId: number,
+  scheduleId: number,
+  fromStatuses: string[],
+  toStatus: string,
+  nextRunAt?: Date
+): Promise<boolean> {
+  const result = await db.update(dcaSchedules)
+    .set(nextRunAt ? { status: toStatus, nextRunAt } : { status: toStatus })
+    .where(
+      and(
+        eq(dcaSchedules.id, scheduleId),
+        eq(dcaSchedules.telegramId, telegramId),
+        inArray(dcaSchedules.status, fromStatuses)
+      )
+    )
+    .returning({ id: dcaSchedules.id });
+  return result.length > 0;
+}
+
+export async function recordDcaRun(scheduleId: number, runCount: number, nextRunAt: Date) {
+  await db.update(dcaSchedules)
+    .set({ lastRunAt: new Date(), runCount, nextRunAt })
+    .where(eq(dcaSchedules.id, scheduleId));
+}
+
+export async function completeDcaSchedule(scheduleId: number) {
+  await db.update(dcaSchedules)
+    .set({ status: 'completed' })
+    .where(eq(dcaSchedules.id, scheduleId));
+}
+
+
+// --- PORTFOLIO BATCH FUNCTIONS ---
+
+export async function createPortfolioBatch(telegramId: number, parsedCommand: ParsedCommand): Promise<PortfolioBatch> {
+  const result = await db.insert(portfolioBatches)
+    .values({
+      telegramId,
+      fromAsset: parsedCommand.fromAsset!,
+      fromNetwork: parsedCommand.fromChain!,
+      amount: parsedCommand.amount!,
+    })
+    .returning();
+  return result[0];
+}
+
+export async function getPortfolioBatch(telegramId: number, batchId: number): Promise<PortfolioBatch | undefined> {
+  const result = await db.select().from(portfolioBatches)
+    .where(and(eq(portfolioBatches.id, batchId), eq(portfolioBatches.telegramId, telegramId)));
+  return result[0];
+}
+
+export async function getLatestPortfolioBatch(telegramId: number): Promise<PortfolioBatch | undefined> {
+  const result = await db.select().from(portfolioBatches)
+    .where(eq(portfolioBatches.telegramId, telegramId))
+    .orderBy(desc(portfolioBatches.createdAt))
+    .limit(1);
+  return result[0];
+}
+
+export async function getBatchOrders(batchId: number): Promise<Order[]> {
+  return await db.select().from(orders)
+    .where(eq(orders.batchId, batchId))
+    .orderBy(orders.id);
+}
+
+export async function setPortfolioBatchStatus(batchId: number, status: string) {
+  await db.update(portfolioBatches)
+    .set({ status })
+    .where(eq(portfolioBatches.id, batchId));
+}
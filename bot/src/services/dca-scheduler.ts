@@ -0,0 +1,187 @@
+import { Telegraf, Markup } from 'telegraf';
+import { createQuote, createOrder } from './sideshift-client';
+import { buildDepositPrompt } from './mini-app';
+import { checkSwapPermission } from './region-policy';
+import { canRefundToPayoutAddress, findRefundAddress } from './refund-address';
+import * as db from './database';
+import { handleError } from './logger';
+
+const POLL_INTERVAL = 60000; // Check for due schedules every 60 seconds
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * Computes when a schedule should run next
+ * @param cadence - 'daily' | 'weekly' | 'monthly'
+ * @param cadenceDay - Day of week (0-6) for weekly, day of month (1-28) for monthly, or null for "any"
+ * @param from - Reference time, usually now or the last run
+ * @param includeFrom - Whether `from` itself is an acceptable run time (used for the first run)
+ */
+export function getNextRunDate(cadence: string, cadenceDay: number | null, from: Date, includeFrom: boolean = false): Date {
+  const next = new Date(from.getTime());
+
+  if (cadence === 'weekly') {
+    let diff = cadenceDay == null ? 0 : (cadenceDay - next.getUTCDay() + 7) % 7;
+    if (diff === 0 && !includeFrom) diff = 7;
+    next.setUTCDate(next.getUTCDate() + diff);
+    return next;
+  }
+
+  if (cadence === 'monthly') {
+    const day = cadenceDay ?? Math.min(next.getUTCDate(), 28);
+    next.setUTCDate(day);
+    if (next.getTime() > from.getTime() || (includeFrom && next.getTime() === from.getTime())) return next;
+    next.setUTCMonth(next.getUTCMonth() + 1);
+    return next;
+  }
+
+  // daily
+  if (!includeFrom) next.setUTCDate(next.getUTCDate() + 1);
+  return next;
+}
+
+/**
+ * Human readable description of a schedule's cadence, e.g. "every Monday"
+ */
+export function describeCadence(cadence: string, cadenceDay: number | null): string {
+  if (cadence === 'weekly') return cadenceDay == null ? 'every week' : `every ${WEEKDAYS[cadenceDay]}`;
+  if (cadence === 'monthly') return cadenceDay == null ? 'every month' : `on day ${cadenceDay} of every month`;
+  return 'every day';
+}
+
+export class DcaScheduler {
+  private bot: Telegraf;
+  private intervalId: NodeJS.Timeout | null = null;
+  private isRunning: boolean = false;
+  private isChecking: boolean = false;
+
+  constructor(bot: Telegraf) {
+    this.bot = bot;
+  }
+
+  start() {
+    if (this.isRunning) {
+      console.log('⚠️ DCA scheduler is already running');
+      return;
+    }
+
+    console.log('🔁 Starting DCA scheduler...');
+    this.isRunning = true;
+
+    // Run immediately on start
+    this.runDueSchedules();
+
+    // Then run on interval
+    this.intervalId = setInterval(() => {
+      this.runDueSchedules();
+    }, POLL_INTERVAL);
+  }
+
+  stop() {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    this.isRunning = false;
+    console.log('🛑 DCA scheduler stopped');
+  }
+
+  private async runDueSchedules() {
+    // A slow run must not overlap with the next one, or both would place the same due schedules
+    if (this.isChecking) return;
+    this.isChecking = true;
+
+    try {
+      const schedules = await db.getDueDcaSchedules(new Date());
+
+      for (const schedule of schedules) {
+        try {
+          await this.runSchedule(schedule);
+        } catch (error) {
+          console.error(`Error running DCA schedule ${schedule.id}:`, error);
+          await handleError('DcaSchedulerError', {
+            scheduleId: schedule.id,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          }, null, false);
+        }
+      }
+    } catch (error) {
+      console.error('Error in DCA scheduler:', error);
+      await handleError('DcaSchedulerError', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }, null, false);
+    } finally {
+      this.isChecking = false;
+    }
+  }
+
+  private async runSchedule(schedule: db.DcaSchedule) {
+    const now = new Date();
+
+    if (schedule.endDate && schedule.endDate.getTime() < now.getTime()) {
+      await db.completeDcaSchedule(schedule.id);
+      await this.bot.telegram.sendMessage(schedule.telegramId, `🏁 DCA #${schedule.id} has reached its end date and is now complete.`);
+      return;
+    }
+
+    // Advance the schedule before calling SideShift so a failing quote is not retried every poll
+    const runCount = schedule.runCount + 1;
+    const nextRunAt = getNextRunDate(schedule.cadence, schedule.cadenceDay, now);
+    await db.recordDcaRun(schedule.id, runCount, nextRunAt);
+
+    const isLastRun = !!schedule.endDate && nextRunAt.getTime() > schedule.endDate.getTime();
+    if (isLastRun) await db.completeDcaSchedule(schedule.id);
+
+    try {
+      const permission = await checkSwapPermission(schedule.telegramId);
+      if (!permission.allowed) throw new Error(permission.reason);
+
+      const quote = await createQuote(
+        schedule.fromAsset, schedule.fromNetwork,
+        schedule.toAsset, schedule.toNetwork,
+        schedule.amount, permission.userIP
+      );
+      if (!quote.id) throw new Error('Failed to create quote');
+
+      // Nobody is around to ask mid-schedule; the payout address stands in when it is valid on the deposit network
+      const refundAddress = (await findRefundAddress(schedule.telegramId, schedule.fromNetwork))?.address
+        ?? (canRefundToPayoutAddress(schedule.settleAddress, schedule.toNetwork, schedule.fromNetwork) ? schedule.settleAddress : null);
+      const order = await createOrder(quote.id, schedule.settleAddress, refundAddress, permission.userIP);
+      if (!order.id) throw new Error('Failed to create order');
+
+      const orderCommand = {
+        fromAsset: schedule.fromAsset,
+        fromChain: schedule.fromNetwork,
+        toAsset: schedule.toAsset,
+        toChain: schedule.toNetwork,
+        amount: schedule.amount,
+        refundAddress
+      };
+      await db.createOrderEntry(schedule.telegramId, orderCommand, order, quote.settleAmount, quote.id);
+      await db.addWatchedOrder(schedule.telegramId, order.id, 'waiting');
+
+      const deposit = await buildDepositPrompt(order, schedule.amount, schedule.fromAsset, schedule.fromNetwork);
+
+      let message = `🔁 *DCA #${schedule.id} — Run ${runCount}*\n\n`;
+      message += `➡️ *Send:* \`${quote.depositAmount} ${quote.depositCoin}\`\n`;
+      message += `⬅️ *Receive:* \`${quote.settleAmount} ${quote.settleCoin}\`\n`;
+      if (quote.expiry) message += `⏳ *Quote expires:* ${new Date(quote.expiry).toLocaleTimeString()}\n`;
+      message += isLastRun
+        ? `\nThis is the last run of this schedule.`
+        : `\n*Next run:* ${nextRunAt.toLocaleString()}`;
+      if (!deposit.signUrl) message += `\n\n${deposit.text}`;
+
+      await this.bot.telegram.sendMessage(schedule.telegramId, message, {
+        parse_mode: 'Markdown',
+        ...(deposit.signUrl ? Markup.inlineKeyboard([
+          Markup.button.webApp('📱 Sign Transaction', deposit.signUrl)
+        ]) : {})
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      const retryNote = isLastRun ? `This was the last run of this schedule.` : `I'll try again on ${nextRunAt.toLocaleString()}.`;
+      await this.bot.telegram.sendMessage(schedule.telegramId, `⚠️ DCA #${schedule.id} run skipped: ${errorMessage}\n\n${retryNote}`);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,187 @@
+import { canonicalChain, validateParsedCommand } from '@swapsmith/core';
+import { analyzeCommand, generateContextualHelp } from './contextual-help';
+import { CommandSlot, missingSlots } from './command-slots';
+import { VALIDATION_OPTIONS } from './groq-client';
+import type { ParsedCommand } from './groq-client';
+
+const NUMBER = String.raw`(\d+(?:,\d{3})*(?:\.\d+)?|\.\d+)\s*(k)?`;
+const AMOUNT_REPLY = new RegExp(String.raw`^(?:about\s+|around\s+)?\$?${NUMBER}\s*(%|percent)?(?:\s+([a-z][a-z0-9]{1,9}))?$`, 'i');
+const ASSET_REPLY = /^(from|to|into|in|for)?\s*([a-z][a-z0-9]{1,9})(?:\s+on\s+([a-z0-9 -]+))?$/i;
+// "make it 2 instead", "actually, to USDT", "change the amount to 50"
+const CORRECTION = /^(?:no[,.!]?\s+)?(?:actually[,]?\s+)?(?:(?:make it|make that|change it to|change that to|change the amount to|let'?s do|use)\s+(.+?)(?:\s+instead)?|(.+?)\s+instead)$/i;
+
+// Short replies that are never an asset symbol
+const NOT_ASSETS = new Set(['yes', 'no', 'ok', 'okay', 'sure', 'cancel', 'stop', 'help', 'it', 'that', 'all', 'max']);
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+// Intents whose amount can be a share of the wallet balance
+const BALANCE_INTENTS = ['swap', 'portfolio'];
+// Intents where a bare asset in a correction means what the user receives
+const REQUIRES_DESTINATION = ['swap', 'conditional_swap', 'dca'];
+
+// Fields a follow-up parse may fill in; the rest describe the parse itself
+const COMMAND_FIELDS: (keyof ParsedCommand)[] = [
+  'fromAsset', 'fromChain', 'toAsset', 'toChain', 'amount', 'amountType', 'portfolio',
+  'settleAsset', 'settleNetwork', 'settleAmount', 'settleAddress',
+  'triggerAsset', 'triggerCondition', 'triggerPrice', 'cadence', 'cadenceDay', 'endDate',
+];
+
+function parseNumber(value: string, thousands?: string): number {
+  return parseFloat(value.replace(/,/g, '')) * (thousands ? 1000 : 1);
+}
+
+function clean(reply: string): string {
+  return reply.trim().replace(/[.!?]+$/, '').replace(/\s+/g, ' ');
+}
+
+function parseAsset(value: string): { side: string | null; asset: string; chain: string | null } | null {
+  const match = value.match(ASSET_REPLY);
+  if (!match || NOT_ASSETS.has(match[2].toLowerCase())) return null;
+  const chain = match[3] ? canonicalChain(match[3]) ?? match[3].trim().toLowerCase() : null;
+  return { side: match[1]?.toLowerCase() ?? null, asset: match[2].toUpperCase(), chain };
+}
+
+function fillAmount(command: ParsedCommand, reply: string): ParsedCommand | null {
+  if (/^(all|everything|max|all of it)$/i.test(reply) && BALANCE_INTENTS.includes(command.intent)) {
+    return { ...command, amount: null, amountType: 'all' };
+  }
+
+  const match = reply.match(AMOUNT_REPLY);
+  if (!match) return null;
+  const amount = parseNumber(match[1], match[2]);
+  const percentage = !!match[3];
+  if (percentage && !BALANCE_INTENTS.includes(command.intent)) return null;
+
+  const asset = match[4]?.toUpperCase();
+  let filled: ParsedCommand = { ...command, amount, amountType: percentage ? 'percentage' : 'exact' };
+  if (asset && !command.fromAsset) filled = { ...filled, fromAsset: asset };
+  // "100 USDC" when asked how much ETH to swap for USDC: receive exactly 100 USDC
+  else if (asset && command.intent === 'swap' && asset === command.toAsset?.toUpperCase() && !percentage) filled = { ...filled, amountSide: 'settle' };
+  else if (asset && asset !== command.fromAsset?.toUpperCase()) return null;
+  return filled;
+}
+
+function fillCadence(command: ParsedCommand, reply: string): ParsedCommand | null {
+  const text = reply.toLowerCase();
+  const weekday = WEEKDAYS.findIndex(day => text.includes(day));
+  if (weekday !== -1) return { ...command, cadence: 'weekly', cadenceDay: weekday };
+  if (/\b(daily|every day|each day)\b/.test(text)) return { ...command, cadence: 'daily', cadenceDay: null };
+  if (/\b(weekly|every week|each week)\b/.test(text)) return { ...command, cadence: 'weekly', cadenceDay: null };
+  if (/\b(monthly|every month|each month)\b/.test(text)) return { ...command, cadence: 'monthly', cadenceDay: null };
+  return null;
+}
+
+/**
+ * Reads a short reply as the answer to one missing field ("2", "USDC on base", "every Monday").
+ * @returns The command with the field filled in, or null when the reply needs the full parser
+ */
+export function fillSlot(command: ParsedCommand, slot: CommandSlot, reply: string): ParsedCommand | null {
+  const text = clean(reply);
+
+  switch (slot) {
+    case 'amount':
+      return fillAmount(command, text);
+    case 'settleAmount':
+    case 'triggerPrice': {
+      const match = text.match(new RegExp(String.raw`^\$?${NUMBER}(?:\s*(?:usd|dollars))?$`, 'i'));
+      return match ? { ...command, [slot]: parseNumber(match[1], match[2]) } : null;
+    }
+    case 'fromAsset':
+    case 'toAsset':
+    case 'settleAsset': {
+      const parsed = parseAsset(text);
+      if (!parsed) return null;
+      const chainField = slot === 'fromAsset' ? 'fromChain' : slot === 'toAsset' ? 'toChain' : 'settleNetwork';
+      return { ...command, [slot]: parsed.asset, [chainField]: parsed.chain ?? command[chainField] };
+    }
+    case 'triggerCondition': {
+      const condition = /\b(above|over|higher|rises?|up)\b/i.test(text) ? 'above'
+        : /\b(below|under|lower|drops?|falls?|down)\b/i.test(text) ? 'below' : null;
+      if (!condition) return null;
+      // "below 2500" answers the price too
+      const price = text.match(new RegExp(String.raw`\$?${NUMBER}`, 'i'));
+      return { ...command, triggerCondition: condition, triggerPrice: price ? parseNumber(price[1], price[2]) : command.triggerPrice };
+    }
+    case 'cadence':
+      return fillCadence(command, text);
+    default:
+      // Portfolio splits and addresses need more than a pattern
+      return null;
+  }
+}
+
+/**
+ * Applies a change to a command already in progress: "make it 2 instead", "to USDT instead",
+ * "actually, from USDC on base". Networks and addresses tied to a changed asset are dropped
+ * so they are resolved again.
+ * @returns The changed command, or null when the reply isn't a correction
+ */
+export function applyCorrection(command: ParsedCommand, reply: string): ParsedCommand | null {
+  const match = clean(reply).match(CORRECTION);
+  if (!match) return null;
+  const value = (match[1] ?? match[2]).trim();
+
+  const amount = value.match(new RegExp(String.raw`^\$?${NUMBER}(?:\s+([a-z][a-z0-9]{1,9}))?$`, 'i'));
+  if (amount) {
+    const number = parseNumber(amount[1], amount[2]);
+    if (command.intent === 'checkout') return { ...command, settleAmount: number };
+    const corrected: ParsedCommand = { ...command, amount: number, amountType: 'exact', balanceAmount: null };
+    const asset = amount[3]?.toUpperCase();
+    if (!asset || asset === command.fromAsset?.toUpperCase()) return { ...corrected, amountSide: 'deposit' };
+    if (command.intent === 'swap' && asset === command.toAsset?.toUpperCase()) return { ...corrected, amountSide: 'settle' };
+    return { ...corrected, fromAsset: asset, fromChain: null, amountSide: 'deposit', refundAddress: undefined };
+  }
+
+  const asset = parseAsset(value);
+  if (!asset) return null;
+  if (command.intent === 'checkout') {
+    return { ...command, settleAsset: asset.asset, settleNetwork: asset.chain };
+  }
+  if (asset.side === 'from' || !REQUIRES_DESTINATION.includes(command.intent)) {
+    return { ...command, fromAsset: asset.asset, fromChain: asset.chain, balanceAmount: null, refundAddress: undefined };
+  }
+  return { ...command, toAsset: asset.asset, toChain: asset.chain, settleAddress: null };
+}
+
+/**
+ * Copies the fields a follow-up parse found onto the command being filled in
+ */
+export function mergeCommands(base: ParsedCommand, update: ParsedCommand): ParsedCommand {
+  const merged: ParsedCommand = { ...base };
+  const copy = <K extends keyof ParsedCommand>(field: K) => { merged[field] = update[field]; };
+  for (const field of COMMAND_FIELDS) {
+    const value = update[field];
+    if (value === null || value === undefined || (Array.isArray(value) && value.length === 0)) continue;
+    copy(field);
+  }
+  // The parser defaults amountSide, so only take it along with an amount
+  if (update.amount != null && update.amountSide) merged.amountSide = update.amountSide;
+  return merged;
+}
+
+/**
+ * The next field to ask for, or null once the command has everything its intent needs
+ */
+export function nextSlot(command: ParsedCommand): CommandSlot | null {
+  return missingSlots(command)[0] ?? null;
+}
+
+/**
+ * The question for one missing field, worded like the rest of the contextual help
+ */
+export function slotQuestion(command: ParsedCommand, slot: CommandSlot, inputType: 'text' | 'voice' = 'text'): string {
+  const analysis = { ...analyzeCommand(command), missingFields: [slot], invalidFields: [] };
+  return generateContextualHelp(analysis, command.originalInput || command.intent, inputType);
+}
+
+/**
+ * Re-checks a command once the user has answered for its missing fields. The parser's
+ * earlier errors and confidence described the incomplete command, so they are reset.
+ */
+export function validateFilledCommand(command: ParsedCommand): ParsedCommand {
+  const validated = validateParsedCommand(
+    { ...command, success: true, validationErrors: [], confidence: 100 },
+    command.originalInput ?? '',
+    VALIDATION_OPTIONS
+  );
+  return { ...validated, balanceAmount: command.balanceAmount ?? null };
+}
@@ -0,0 +1,207 @@
+import { ethers } from 'ethers';
+import dotenv from 'dotenv';
+import { chainIdMap } from '../config/chains';
+import { tokenResolver } from './token-resolver';
+import type { SideShiftOrder } from './sideshift-client';
+
+dotenv.config();
+
+const MINI_APP_URL = process.env.MINI_APP_URL!;
+
+// --- ERC20 CONFIGURATION ---
+const ERC20_ABI = [
+    "function transfer(address to, uint256 amount) returns (bool)"
+];
+
+// Every EVM chain's gas coin (ETH, BNB, POL, AVAX...) uses 18 decimals
+const EVM_NATIVE_DECIMALS = 18;
+
+// Non-EVM networks we can hand to a wallet as a payment URI, keyed by SideShift network id
+const URI_DEPOSIT_NETWORKS: { [network: string]: { decimals: number; build: (p: UriParams) => string } } = {
+    bitcoin: { decimals: 8, build: p => bip21('bitcoin', p) },
+    litecoin: { decimals: 8, build: p => bip21('litecoin', p) },
+    dogecoin: { decimals: 8, build: p => bip21('dogecoin', p) },
+    bitcoincash: { decimals: 8, build: p => bip21('bitcoincash', p) },
+    solana: { decimals: 9, build: solanaPay },
+    ripple: { decimals: 6, build: xrpUri },
+    stellar: { decimals: 7, build: stellarUri },
+};
+
+interface UriParams {
+    address: string;
+    amount: string;
+    memo: string | null;
+    tokenAddress?: string; // SPL mint for Solana tokens
+}
+
+export type DepositInstruction =
+    | {
+        kind: 'evm';
+        signUrl: string; // Mini App link that asks the wallet to sign
+        chainId: string;
+        to: string;
+        value: string;
+        data: string;
+    }
+    | {
+        kind: 'uri';
+        uri: string; // Payment URI for a wallet deep link or QR code
+        network: string;
+        address: string;
+        memo: string | null;
+        amount: string;
+    };
+
+export function getDepositAddress(order: SideShiftOrder): { address: string; memo: string | null } {
+    if (typeof order.depositAddress === 'string') return { address: order.depositAddress, memo: null };
+    return { address: order.depositAddress.address, memo: order.depositAddress.memo || null };
+}
+
+/**
+ * Formats an amount with at most `decimals` places, without float artifacts or exponent notation
+ */
+function formatAmount(amount: number, decimals: number): string {
+    return amount.toLocaleString('en-US', { useGrouping: false, maximumFractionDigits: decimals });
+}
+
+function bip21(scheme: string, { address, amount }: UriParams): string {
+    const bare = address.startsWith(`${scheme}:`) ? address.slice(scheme.length + 1) : address;
+    return `${scheme}:${bare}?amount=${amount}`;
+}
+
+function solanaPay({ address, amount, memo, tokenAddress }: UriParams): string {
+    const params = new URLSearchParams({ amount });
+    if (tokenAddress) params.set('spl-token', tokenAddress);
+    if (memo) params.set('memo', memo);
+    return `solana:${address}?${params.toString()}`;
+}
+
+function xrpUri({ address, amount, memo }: UriParams): string {
+    // The memo SideShift returns for XRP is the destination tag
+    return `ripple:${address}?amount=${amount}${memo ? `&dt=${memo}` : ''}`;
+}
+
+function stellarUri({ address, amount, memo }: UriParams): string {
+    const params = new URLSearchParams({ destination: address, amount });
+    if (memo) {
+        params.set('memo', memo);
+        params.set('memo_type', 'MEMO_TEXT');
+    }
+    return `web+stellar:pay?${params.toString()}`;
+}
+
+/**
+ * Mini App link that asks the user's wallet to sign one EVM transaction
+ * @param tx.token - Label shown in the Mini App, e.g. the asset being sent
+ */
+export function buildSignUrl(tx: { to: string; value: string; data: string; chainId: string | number; token: string; amount: string }): string {
+    const params = new URLSearchParams({ ...tx, chainId: String(tx.chainId) });
+    return `${MINI_APP_URL}?${params.toString()}`;
+}
+
+/**
+ * Works out how the user should fund a SideShift order: a Mini App signing link on EVM
+ * chains, or a payment URI (BIP21, Solana Pay, XRP destination tag...) elsewhere.
+ * Throws instead of guessing when the asset or chain can't be paid either way.
+ * @param order - The created SideShift order holding the deposit address
+ * @param amount - Amount of fromAsset to send
+ * @param fromAsset - Token symbol being deposited
+ * @param fromChain - Network the deposit is sent on
+ */
+export async function buildDepositInstruction(
+    order: SideShiftOrder,
+    amount: number,
+    fromAsset: string | null,
+    fromChain: string | null
+): Promise<DepositInstruction> {
+    const { address: depositAddress, memo: depositMemo } = getDepositAddress(order);
+
+    if (!fromAsset || !fromChain) {
+        throw new Error('The deposit asset and network are needed to build the transaction.');
+    }
+
+    const chainKey = fromChain.toLowerCase();
+    const assetKey = fromAsset.toUpperCase();
+
+    // Use dynamic token resolver instead of hardcoded TOKEN_MAP
+    const tokenData = await tokenResolver.getTokenInfo(assetKey, chainKey);
+    const isNative = !tokenData && await tokenResolver.isKnownNativeAsset(assetKey, chainKey);
+
+    if (!tokenData && !isNative) {
+        throw new Error(`${assetKey} on ${fromChain} isn't a known SideShift asset, so I can't build its transfer.`);
+    }
+
+    const chainId = chainIdMap[chainKey];
+    if (chainId) {
+        let txTo = depositAddress, txValueHex = '0x0', txData = '0x';
+
+        if (tokenData) {
+            // This is an ERC20 token - construct transfer transaction
+            txTo = tokenData.address;
+            const amountBigInt = ethers.parseUnits(formatAmount(amount, tokenData.decimals), tokenData.decimals);
+            const iface = new ethers.Interface(ERC20_ABI);
+            txData = iface.encodeFunctionData("transfer", [depositAddress, amountBigInt]);
+        } else {
+            // This is a native token (ETH, AVAX, BNB, etc.) - send value directly
+            const amountBigInt = ethers.parseUnits(formatAmount(amount, EVM_NATIVE_DECIMALS), EVM_NATIVE_DECIMALS);
+            txValueHex = '0x' + amountBigInt.toString(16);
+            if (depositMemo) txData = ethers.hexlify(ethers.toUtf8Bytes(depositMemo));
+        }
+
+        const signUrl = buildSignUrl({ to: txTo, value: txValueHex, data: txData, chainId, token: assetKey, amount: amount.toString() });
+        return { kind: 'evm', signUrl, chainId, to: txTo, value: txValueHex, data: txData };
+    }
+
+    const network = URI_DEPOSIT_NETWORKS[chainKey];
+    if (!network || (tokenData && chainKey !== 'solana')) {
+        throw new Error(`Deposits of ${assetKey} on ${fromChain} can't be signed through the Mini App. Send it manually to ${depositAddress}${depositMemo ? ` with memo ${depositMemo}` : ''}.`);
+    }
+
+    const formatted = formatAmount(amount, tokenData ? tokenData.decimals : network.decimals);
+    return {
+        kind: 'uri',
+        uri: network.build({ address: depositAddress, amount: formatted, memo: depositMemo, tokenAddress: tokenData?.address }),
+        network: chainKey,
+        address: depositAddress,
+        memo: depositMemo,
+        amount: formatted
+    };
+}
+
+/**
+ * Markdown lines telling the user how to pay a URI deposit from their own wallet
+ */
+export function describeUriDeposit(instruction: Extract<DepositInstruction, { kind: 'uri' }>): string {
+    let message = `💳 *Pay from your ${instruction.network} wallet*\n`;
+    message += `*Amount:* \`${instruction.amount}\`\n`;
+    message += `*Address:* \`${instruction.address}\`\n`;
+    if (instruction.memo) message += `*${instruction.network === 'ripple' ? 'Destination Tag' : 'Memo'}:* \`${instruction.memo}\` (required)\n`;
+    message += `*Payment link:* \`${instruction.uri}\`\n`;
+    return message;
+}
+
+export interface DepositPrompt {
+    text: string; // Markdown explaining how to fund the order
+    signUrl: string | null; // Mini App link, only for EVM deposits
+}
+
+/**
+ * Funding step shown after an order is created. A deposit the Mini App can't sign is
+ * reported with manual instructions rather than failing the already created order.
+ */
+export async function buildDepositPrompt(
+    order: SideShiftOrder,
+    amount: number,
+    fromAsset: string | null,
+    fromChain: string | null
+): Promise<DepositPrompt> {
+    try {
+        const instruction = await buildDepositInstruction(order, amount, fromAsset, fromChain);
+        if (instruction.kind === 'evm') {
+            return { text: 'To complete the swap, sign in your wallet.', signUrl: instruction.signUrl };
+        }
+        return { text: describeUriDeposit(instruction), signUrl: null };
+    } catch (error) {
+        return { text: `⚠️ ${error instanceof Error ? error.message : 'Could not build the deposit transaction.'}`, signUrl: null };
+    }
+}
@@ -1,18 +1,82 @@
 import { Telegraf } from 'telegraf';
 import { getOrderStatus } from './sideshift-client';
+import { getProviderOrderStatus, ProviderOrderStatus } from './swap-router';
 import * as db from './database';
 import { handleError } from './logger';
+import { ACTIVE_STATUSES, canTransition, describeOrderStatus, isTerminalStatus, parseOrderStatus, OrderStatus } from './order-status';
 
+const TICK_INTERVAL = 15000; // Look for due orders every 15 seconds
+const FAST_INTERVAL = 15000; // Deposit seen / swap or refund in progress: poll often
 const POLL_INTERVAL = 60000; // Check every 60 seconds
-const COMPLETED_STATUSES = ['settled', 'refunded'];
+const SLOW_INTERVAL = 10 * 60 * 1000; // Stale orders nobody has funded
+const RECONCILE_INTERVAL = 10 * 60 * 1000; // With webhooks, polling only catches missed notifications
+const STALE_AFTER = 60 * 60 * 1000; // An unfunded order is stale after an hour
+const DEFAULT_CONCURRENCY = 5;
+const DEFAULT_MAX_WATCH_AGE_HOURS = 72;
+
+// Outcome of checking one order: 'skipped' when another check of it was already running
+export type OrderCheckResult = 'processed' | 'skipped' | 'failed';
+
+export interface OrderMonitorOptions {
+  webhooksEnabled?: boolean;
+  concurrency?: number;
+  maxWatchAgeMs?: number;
+}
+
+/**
+ * How long to wait between status checks of a watched order
+ * @param watchedOrder - The watch, whose lastStatus and age decide the backoff
+ * @param now - Reference time
+ * @param webhooksEnabled - Whether pushed notifications make polling a fallback
+ */
+export function getCheckInterval(watchedOrder: db.WatchedOrder, now: Date, webhooksEnabled: boolean = false): number {
+  const status = parseOrderStatus(watchedOrder.lastStatus);
+  const age = now.getTime() - new Date(watchedOrder.createdAt ?? now).getTime();
+
+  let interval = POLL_INTERVAL;
+  if (status && ACTIVE_STATUSES.includes(status)) interval = FAST_INTERVAL;
+  else if (age > STALE_AFTER) interval = SLOW_INTERVAL;
+
+  return webhooksEnabled ? Math.max(interval, RECONCILE_INTERVAL) : interval;
+}
+
+export function isCheckDue(watchedOrder: db.WatchedOrder, now: Date, webhooksEnabled: boolean = false): boolean {
+  if (!watchedOrder.lastChecked) return true;
+  const sinceLastCheck = now.getTime() - new Date(watchedOrder.lastChecked).getTime();
+  return sinceLastCheck >= getCheckInterval(watchedOrder, now, webhooksEnabled);
+}
+
+/**
+ * Runs `worker` over `items` with at most `limit` in flight
+ */
+async function runWithConcurrency<T>(items: T[], limit: number, worker: (item: T) => Promise<void>) {
+  let next = 0;
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      await worker(item);
+    }
+  });
+  await Promise.all(runners);
+}
 
 export class OrderMonitor {
   private bot: Telegraf;
   private intervalId: NodeJS.Timeout | null = null;
   private isRunning: boolean = false;
+  private isChecking: boolean = false;
+  private webhooksEnabled: boolean;
+  private concurrency: number;
+  private maxWatchAgeMs: number;
+  private inFlight = new Set<string>();
 
-  constructor(bot: Telegraf) {
+  constructor(bot: Telegraf, options: OrderMonitorOptions = {}) {
     this.bot = bot;
+    this.webhooksEnabled = options.webhooksEnabled ?? false;
+    this.concurrency = options.concurrency
+      ?? (parseInt(process.env.ORDER_MONITOR_CONCURRENCY || '', 10) || DEFAULT_CONCURRENCY);
+    this.maxWatchAgeMs = options.maxWatchAgeMs
+      ?? (parseFloat(process.env.ORDER_WATCH_MAX_AGE_HOURS || '') || DEFAULT_MAX_WATCH_AGE_HOURS) * 60 * 60 * 1000;
   }
 
   start() {
@@ -27,10 +91,10 @@ export class OrderMonitor {
     // Run immediately on start
     this.checkOrders();
     
-    // Then run on interval
+    // Then look for due orders on a short tick; each order has its own backoff
     this.intervalId = setInterval(() => {
       this.checkOrders();
-    }, POLL_INTERVAL);
+    }, TICK_INTERVAL);
   }
 
   stop() {
@@ -43,6 +107,10 @@ export class OrderMonitor {
   }
 
   private async checkOrders() {
+    // A slow cycle must not overlap with the next tick
+    if (this.isChecking) return;
+    this.isChecking = true;
+
     try {
       const watchedOrders = await db.getAllWatchedOrders();
       
@@ -50,9 +118,21 @@ export class OrderMonitor {
         return;
       }
 
-      console.log(`🔍 Checking ${watchedOrders.length} watched orders...`);
+      const now = new Date();
+      const expired = watchedOrders.filter(o => this.isWatchExpired(o, now));
+      const due = watchedOrders.filter(o => !this.isWatchExpired(o, now) && isCheckDue(o, now, this.webhooksEnabled));
+
+      for (const watchedOrder of expired) {
+        await this.dropExpiredWatch(watchedOrder);
+      }
+
+      if (due.length === 0) {
+        return;
+      }
+
+      console.log(`🔍 Checking ${due.length} of ${watchedOrders.length} watched orders...`);
 
-      for (const watchedOrder of watchedOrders) {
+      await runWithConcurrency(due, this.concurrency, async (watchedOrder) => {
         try {
           await this.checkSingleOrder(watchedOrder);
         } catch (error) {
@@ -62,43 +142,105 @@ export class OrderMonitor {
             error: error instanceof Error ? error.message : 'Unknown error'
           }, null, false);
         }
-      }
+      });
     } catch (error) {
       console.error('Error in order monitor:', error);
       await handleError('OrderMonitorError', {
         error: error instanceof Error ? error.message : 'Unknown error'
       }, null, false);
+    } finally {
+      this.isChecking = false;
     }
   }
 
-  private async checkSingleOrder(watchedOrder: db.WatchedOrder) {
-    const { sideshiftOrderId, telegramId, lastStatus } = watchedOrder;
+  private isWatchExpired(watchedOrder: db.WatchedOrder, now: Date): boolean {
+    if (!watchedOrder.createdAt) return false;
+    return now.getTime() - new Date(watchedOrder.createdAt).getTime() > this.maxWatchAgeMs;
+  }
 
+  private async dropExpiredWatch(watchedOrder: db.WatchedOrder) {
+    const { sideshiftOrderId, telegramId } = watchedOrder;
     try {
-      const status = await getOrderStatus(sideshiftOrderId);
-      
+      await db.removeWatchedOrder(sideshiftOrderId);
+      console.log(`🗑️ Order ${sideshiftOrderId} watched for too long, removed from watch list`);
+
+      const hours = Math.round(this.maxWatchAgeMs / (60 * 60 * 1000));
+      await this.bot.telegram.sendMessage(
+        telegramId,
+        `🔕 Stopped watching order \`${sideshiftOrderId}\` after ${hours}h without completing.\nUse /status ${sideshiftOrderId} to check it manually.`,
+        { parse_mode: 'Markdown' }
+      );
+    } catch (error) {
+      console.error(`Failed to drop watch for order ${sideshiftOrderId}:`, error);
+    }
+  }
+
+  /**
+   * Applies a pushed status notification. The status is re-fetched from SideShift
+   * instead of trusting the payload, so a forged event can't fake a settlement.
+   * Anything but 'processed' means the notification wasn't applied and should be retried.
+   */
+  async handleStatusNotification(sideshiftOrderId: string): Promise<OrderCheckResult> {
+    const watchedOrder = await db.getWatchedOrder(sideshiftOrderId);
+    if (watchedOrder) {
+      return this.checkSingleOrder(watchedOrder);
+    }
+
+    // No longer watched (e.g. already completed): just keep the order history current
+    const status = await getOrderStatus(sideshiftOrderId);
+    const newStatus = parseOrderStatus(status.status);
+    if (newStatus) {
+      await db.updateOrderStatus(sideshiftOrderId, newStatus);
+    }
+    return 'processed';
+  }
+
+  private async checkSingleOrder(watchedOrder: db.WatchedOrder): Promise<OrderCheckResult> {
+    const { sideshiftOrderId, telegramId, lastStatus, provider } = watchedOrder;
+
+    // A webhook and a reconciliation poll can arrive for the same order at once
+    if (this.inFlight.has(sideshiftOrderId)) return 'skipped';
+    this.inFlight.add(sideshiftOrderId);
+
+    try {
+      // Orders placed through another provider are tracked with that provider's status API
+      const status = await getProviderOrderStatus(provider, sideshiftOrderId);
+      const newStatus = parseOrderStatus(status.status);
+
+      if (!newStatus) {
+        console.warn(`⚠️ Order ${sideshiftOrderId} reported unknown status "${status.status}", keeping it watched`);
+        return 'processed';
+      }
+
       // Update the order status in the orders table
-      await db.updateOrderStatus(sideshiftOrderId, status.status);
+      await db.updateOrderStatus(sideshiftOrderId, newStatus);
 
       // Check if status has changed
-      if (status.status !== lastStatus) {
-        console.log(`📊 Order ${sideshiftOrderId} status changed: ${lastStatus} → ${status.status}`);
-        
+      if (newStatus !== lastStatus) {
+        console.log(`📊 Order ${sideshiftOrderId} status changed: ${lastStatus} → ${newStatus}`);
+
+        const previousStatus = parseOrderStatus(lastStatus);
+        if (previousStatus && !canTransition(previousStatus, newStatus)) {
+          // SideShift is the source of truth; record it anyway but leave a trace
+          console.warn(`⚠️ Order ${sideshiftOrderId} made an unexpected transition ${previousStatus} → ${newStatus}`);
+        }
+
         // Update watched order status
-        await db.updateWatchedOrderStatus(sideshiftOrderId, status.status);
+        await db.updateWatchedOrderStatus(sideshiftOrderId, newStatus);
 
         // Notify user of status change
-        await this.notifyUser(telegramId, sideshiftOrderId, status.status, status);
+        await this.notifyUser(telegramId, sideshiftOrderId, newStatus, status, provider);
 
-        // If order is completed, remove from watch list
-        if (COMPLETED_STATUSES.includes(status.status.toLowerCase())) {
+        // If order reached a final state, remove from watch list
+        if (isTerminalStatus(newStatus)) {
           await db.removeWatchedOrder(sideshiftOrderId);
-          console.log(`✅ Order ${sideshiftOrderId} completed and removed from watch list`);
+          console.log(`✅ Order ${sideshiftOrderId} ${newStatus} and removed from watch list`);
         }
       } else {
         // Just update the last checked time
-        await db.updateWatchedOrderStatus(sideshiftOrderId, status.status);
+        await db.updateWatchedOrderStatus(sideshiftOrderId, newStatus);
       }
+      return 'processed';
     } catch (error) {
       console.error(`Failed to check order ${sideshiftOrderId}:`, error);
       
@@ -107,40 +249,20 @@ export class OrderMonitor {
         await db.removeWatchedOrder(sideshiftOrderId);
         console.log(`🗑️ Order ${sideshiftOrderId} not found, removed from watch list`);
       }
+      return 'failed';
+    } finally {
+      this.inFlight.delete(sideshiftOrderId);
     }
   }
 
-  private async notifyUser(telegramId: number, orderId: string, newStatus: string, statusData: any) {
+  private async notifyUser(telegramId: number, orderId: string, newStatus: OrderStatus, statusData: ProviderOrderStatus, provider: string) {
     try {
+      const { title, guidance } = describeOrderStatus(newStatus, statusData, provider);
+
       let message = `🔔 *Order Update*\n\n`;
       message += `*Order ID:* \`${orderId}\`\n`;
       message += `*Status:* \`${newStatus.toUpperCase()}\`\n\n`;
-
-      if (newStatus.toLowerCase() === 'settled') {
-        message += `✅ *Your swap is complete!*\n\n`;
-        message += `*Sent:* ${statusData.depositAmount || '?'} ${statusData.depositCoin} (${statusData.depositNetwork})\n`;
-        message += `*Received:* ${statusData.settleAmount || '?'} ${statusData.settleCoin} (${statusData.settleNetwork})\n`;
-        
-        if (statusData.settleHash) {
-          message += `*Transaction Hash:* \`${statusData.settleHash}\`\n`;
-        }
-        
-        message += `\n🎉 Funds have been delivered to your wallet!`;
-      } else if (newStatus.toLowerCase() === 'refunded') {
-        message += `⚠️ *Your swap was refunded*\n\n`;
-        message += `*Sent:* ${statusData.depositAmount || '?'} ${statusData.depositCoin}\n`;
-        
-        if (statusData.depositHash) {
-          message += `*Refund Hash:* \`${statusData.depositHash}\`\n`;
-        }
-        
-        message += `\nPlease check your wallet for the refunded amount.`;
-      } else if (newStatus.toLowerCase() === 'processing') {
-        message += `⏳ *Your swap is being processed*\n\n`;
-        message += `Deposit received and swap is in progress...`;
-      } else {
-        message += `Status changed to: *${newStatus}*`;
-      }
+      message += `${title}\n\n${guidance}`;
 
       await this.bot.telegram.sendMessage(telegramId, message, { parse_mode: 'Markdown' });
     } catch (error) {
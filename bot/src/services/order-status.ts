@@ -0,0 +1,160 @@
+import { providerForOrderId } from './swap-router';
+import type { ProviderOrderStatus } from './swap-router';
+
+// Every status a SideShift shift can report (https://docs.sideshift.ai/endpoints/v2/shift),
+// plus 'failed' for wallet-signed routes from other providers
+export const ORDER_STATUSES = [
+  'waiting',    // Shift created, no deposit seen yet
+  'pending',    // Deposit detected, waiting for confirmations
+  'processing', // Deposit confirmed, swap in progress
+  'review',     // Held for manual review by SideShift
+  'settling',   // Settlement transaction is being sent
+  'settled',    // Funds delivered
+  'refund',     // Queued for refund, may need a refund address
+  'refunding',  // Refund transaction is being sent
+  'refunded',   // Deposit returned
+  'expired',    // Quote/shift expired before a deposit arrived
+  'multiple',   // More than one deposit was sent to the address
+  'failed',     // Never funded: a wallet-signed route's transaction failed, or a portfolio leg was abandoned
+] as const;
+
+export type OrderStatus = typeof ORDER_STATUSES[number];
+
+/**
+ * Moves SideShift allows from each status. Polling can skip steps, so
+ * `canTransition` checks reachability rather than direct edges.
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+  waiting: ['pending', 'processing', 'review', 'multiple', 'expired', 'refund', 'failed'],
+  pending: ['processing', 'review', 'refund'],
+  processing: ['settling', 'review', 'refund', 'failed'],
+  review: ['processing', 'settling', 'refund'],
+  settling: ['settled', 'review'],
+  settled: [],
+  refund: ['refunding'],
+  refunding: ['refunded'],
+  refunded: [],
+  expired: [],
+  multiple: ['processing', 'settling', 'review', 'refund'],
+  failed: [],
+};
+
+// Statuses the monitor polls on its fast interval
+export const ACTIVE_STATUSES: readonly OrderStatus[] = ['pending', 'processing', 'settling', 'refunding'];
+
+export function parseOrderStatus(status: string | null | undefined): OrderStatus | null {
+  const normalized = (status || '').toLowerCase();
+  return (ORDER_STATUSES as readonly string[]).includes(normalized) ? normalized as OrderStatus : null;
+}
+
+export function isTerminalStatus(status: OrderStatus): boolean {
+  return ORDER_STATUS_TRANSITIONS[status].length === 0;
+}
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  if (from === to) return true;
+
+  const seen = new Set<OrderStatus>([from]);
+  const queue: OrderStatus[] = [from];
+  while (queue.length > 0) {
+    for (const next of ORDER_STATUS_TRANSITIONS[queue.shift()!]) {
+      if (next === to) return true;
+      if (!seen.has(next)) {
+        seen.add(next);
+        queue.push(next);
+      }
+    }
+  }
+  return false;
+}
+
+/**
+ * Headline and next step shown to the user for a status
+ * @param status - The shift's current status
+ * @param order - Latest order details from the provider
+ * @param provider - Who executed the order, told apart by its id when unknown
+ */
+export function describeOrderStatus(
+  status: OrderStatus,
+  order: ProviderOrderStatus,
+  provider: string = providerForOrderId(order.id)
+): { title: string; guidance: string } {
+  const orderUrl = `https://sideshift.ai/orders/${order.id}`;
+
+  switch (status) {
+    case 'waiting':
+      return {
+        title: '⏳ *Waiting for your deposit*',
+        guidance: `Send ${order.depositCoin} (${order.depositNetwork}) to the deposit address before the quote expires.`,
+      };
+    case 'pending':
+      return {
+        title: '👀 *Deposit detected*',
+        guidance: `Waiting for network confirmations on your ${order.depositAmount || ''} ${order.depositCoin}. No action needed.`,
+      };
+    case 'processing':
+      return {
+        title: '⏳ *Your swap is being processed*',
+        guidance: 'Deposit received and swap is in progress...',
+      };
+    case 'review':
+      return {
+        title: '🔎 *Your swap is under review*',
+        guidance: `SideShift is reviewing this shift. If they can't complete it your deposit is refunded, so submit a refund address on the order page now: ${orderUrl}`,
+      };
+    case 'settling':
+      return {
+        title: '🚚 *Sending your funds*',
+        guidance: `The ${order.settleCoin} payout on ${order.settleNetwork} is being broadcast.`,
+      };
+    case 'settled': {
+      let guidance = `*Sent:* ${order.depositAmount || '?'} ${order.depositCoin} (${order.depositNetwork})\n`;
+      guidance += `*Received:* ${order.settleAmount || '?'} ${order.settleCoin} (${order.settleNetwork})\n`;
+      if (order.settleHash) {
+        guidance += `*Transaction Hash:* \`${order.settleHash}\`\n`;
+      }
+      guidance += `\n🎉 Funds have been delivered to your wallet!`;
+      return { title: '✅ *Your swap is complete!*', guidance };
+    }
+    case 'refund':
+      return {
+        title: '↩️ *Your swap will be refunded*',
+        guidance: `The shift couldn't be completed. If you didn't set a refund address, submit one on the order page so SideShift can return your ${order.depositCoin}: ${orderUrl}`,
+      };
+    case 'refunding':
+      return {
+        title: '↩️ *Refund in progress*',
+        guidance: `Your ${order.depositCoin} is being sent back. No action needed.`,
+      };
+    case 'refunded': {
+      let guidance = `*Sent:* ${order.depositAmount || '?'} ${order.depositCoin}\n`;
+      if (order.depositHash) {
+        guidance += `*Refund Hash:* \`${order.depositHash}\`\n`;
+      }
+      guidance += `\nPlease check your wallet for the refunded amount.`;
+      return { title: '⚠️ *Your swap was refunded*', guidance };
+    }
+    case 'expired':
+      return {
+        title: '⌛ *Quote expired*',
+        guidance: `No deposit arrived in time, so nothing was swapped. Don't send funds to the old address — ask me for the swap again to get a fresh quote.`,
+      };
+    case 'multiple':
+      return {
+        title: '⚠️ *Multiple deposits detected*',
+        guidance: `More than one deposit was sent to this address. SideShift handles the extra deposits separately; check the order page or contact SideShift support: ${orderUrl}`,
+      };
+    case 'failed':
+      if (provider !== 'lifi') {
+        // SideShift orders only fail on our side, when a portfolio leg is abandoned before its deposit
+        return {
+          title: '❌ *Order cancelled*',
+          guidance: `This order was cancelled before any deposit, so nothing was swapped. Don't send funds to its deposit address — ask me for the swap again: ${orderUrl}`,
+        };
+      }
+      return {
+        title: '❌ *Your swap transaction failed*',
+        guidance: `The transaction didn't go through, so your ${order.depositCoin} stayed in your wallet apart from gas. Ask me for the swap again to get a new route: https://scan.li.fi/tx/${order.id}`,
+      };
+  }
+}
@@ -0,0 +1,106 @@
+import { createOrder } from './sideshift-client';
+import { isTerminalStatus, parseOrderStatus } from './order-status';
+import * as db from './database';
+import { getRefundAddress } from './refund-address';
+import type { ParsedCommand } from './groq-client';
+
+// A quoted leg of a portfolio, as stored in conversation state by confirm_portfolio
+export interface PortfolioQuote {
+  quoteId: string;
+  allocation: { toAsset: string; toChain: string; percentage: number };
+  swapAmount: number;
+  depositAmount?: string;
+  settleAmount: string;
+}
+
+export interface PortfolioSummary {
+  total: number;
+  awaitingDeposit: number;
+  inProgress: number;
+  settled: number;
+  failed: number; // refunded, expired or abandoned
+}
+
+/**
+ * Places every leg of a portfolio under one batch. If any leg fails, the legs already
+ * created are abandoned (unwatched and marked 'failed', batch marked 'abandoned') before the user is asked
+ * to fund anything, so a portfolio is either placed whole or not at all.
+ * @returns The batch and its legs, in placement order
+ */
+export async function placePortfolioBatch(
+  telegramId: number,
+  parsedCommand: ParsedCommand,
+  quotes: PortfolioQuote[],
+  userIP?: string
+): Promise<{ batch: db.PortfolioBatch; legs: db.Order[] }> {
+  const batch = await db.createPortfolioBatch(telegramId, parsedCommand);
+  const placedOrderIds: string[] = [];
+  const settleAddress = parsedCommand.settleAddress!;
+  const refundAddress = await getRefundAddress(telegramId, parsedCommand);
+
+  for (const quoteData of quotes) {
+    const { toAsset, toChain } = quoteData.allocation;
+    try {
+      const order = await createOrder(quoteData.quoteId, settleAddress, refundAddress, userIP);
+      if (!order.id) throw new Error('SideShift did not return an order');
+      placedOrderIds.push(order.id);
+
+      // Store each leg with the exact amount its deposit address expects
+      const orderCommand = {
+        ...parsedCommand,
+        refundAddress,
+        toAsset,
+        toChain,
+        amount: parseFloat(quoteData.depositAmount ?? String(quoteData.swapAmount))
+      };
+      await db.createOrderEntry(telegramId, orderCommand, order, quoteData.settleAmount, quoteData.quoteId, 'fixed', batch.id);
+      await db.addWatchedOrder(telegramId, order.id, 'waiting');
+    } catch (error) {
+      await abandonPortfolioBatch(batch.id, placedOrderIds);
+      throw new Error(`${toAsset}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  await db.setPortfolioBatchStatus(batch.id, 'placed');
+  return { batch: { ...batch, status: 'placed' }, legs: await db.getBatchOrders(batch.id) };
+}
+
+async function abandonPortfolioBatch(batchId: number, sideshiftOrderIds: string[]) {
+  for (const orderId of sideshiftOrderIds) {
+    try {
+      await db.removeWatchedOrder(orderId);
+      // Nobody will fund these, so /history must not keep showing them as awaiting a deposit
+      await db.updateOrderStatus(orderId, 'failed');
+    } catch (error) {
+      console.error(`Failed to unwatch abandoned portfolio leg ${orderId}:`, error);
+    }
+  }
+  await db.setPortfolioBatchStatus(batchId, 'abandoned');
+}
+
+export function summarizePortfolioLegs(legs: db.Order[]): PortfolioSummary {
+  const summary: PortfolioSummary = { total: legs.length, awaitingDeposit: 0, inProgress: 0, settled: 0, failed: 0 };
+
+  for (const leg of legs) {
+    const status = parseOrderStatus(leg.status);
+    if (status === 'waiting') summary.awaitingDeposit++;
+    else if (status === 'settled') summary.settled++;
+    else if (status && isTerminalStatus(status)) summary.failed++;
+    else summary.inProgress++;
+  }
+
+  return summary;
+}
+
+/**
+ * One-line state of a whole batch, derived from its legs
+ */
+export function describePortfolioBatch(batch: db.PortfolioBatch, summary: PortfolioSummary): string {
+  if (batch.status === 'abandoned') return '🚫 Abandoned before funding — do not send funds';
+  if (batch.status === 'placing') return '⏳ Placing orders';
+  if (summary.settled === summary.total) return '✅ Complete';
+  if (summary.awaitingDeposit === summary.total) return '⏳ Awaiting deposits';
+  if (summary.awaitingDeposit > 0) return `⚠️ Partially funded (${summary.inProgress + summary.settled}/${summary.total} legs)`;
+  if (summary.inProgress > 0) return '🔄 Swapping';
+  return `⚠️ Finished with ${summary.failed} refunded or expired leg${summary.failed === 1 ? '' : 's'}`;
+}
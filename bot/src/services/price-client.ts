@@ -0,0 +1,2 @@
+// The price client lives in @swapsmith/core so the bot and the web app share one copy
+export { isPriceSupported, getUsdPrices, getUsdPrice } from '@swapsmith/core';
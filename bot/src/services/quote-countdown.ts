@@ -0,0 +1,109 @@
+import { Telegraf, Markup } from 'telegraf';
+import * as db from './database';
+
+const TICK_INTERVAL = 60000; // Refresh the time left once a minute
+
+// A quote message the countdown keeps up to date
+export interface QuoteMessage {
+  chatId: number;
+  messageId: number;
+  body: string; // Everything above the expiry line
+  keyboard: ReturnType<typeof Markup.inlineKeyboard>;
+}
+
+export function isQuoteExpired(expiry: string | null | undefined, now: number = Date.now()): boolean {
+  return !!expiry && new Date(expiry).getTime() <= now;
+}
+
+/**
+ * Time left on a quote, rounded up to the minute ("14 min") and in seconds for the last one
+ */
+export function formatTimeRemaining(expiry: string, now: number = Date.now()): string {
+  const remaining = new Date(expiry).getTime() - now;
+  if (remaining <= 0) return 'expired';
+  if (remaining < 60000) return `${Math.ceil(remaining / 1000)} s`;
+  return `${Math.ceil(remaining / 60000)} min`;
+}
+
+/**
+ * How a refreshed rate compares to the lapsed one, e.g. "▲ 0.42% vs last quote"
+ */
+export function describeRateChange(previousRate: string, rate: string): string {
+  const previous = parseFloat(previousRate);
+  const change = previous > 0 ? ((parseFloat(rate) - previous) / previous) * 100 : 0;
+  if (!isFinite(change) || Math.abs(change) < 0.005) return 'unchanged vs last quote';
+  return `${change > 0 ? '▲' : '▼'} ${Math.abs(change).toFixed(2)}% vs last quote`;
+}
+
+export function renderQuoteMessage(body: string, expiry: string | null | undefined, now: number = Date.now()): string {
+  if (!expiry) return `${body}\nReady?`;
+  return `${body}⏳ *Expires in:* ${formatTimeRemaining(expiry, now)} (${new Date(expiry).toLocaleTimeString()})\n\nReady?`;
+}
+
+export function renderExpiredQuote(body: string): { text: string; keyboard: ReturnType<typeof Markup.inlineKeyboard> } {
+  return {
+    text: `${body}⌛ *Quote expired* — refresh for a new rate.`,
+    keyboard: Markup.inlineKeyboard([
+      Markup.button.callback('🔄 Refresh Quote', 'refresh_quote'),
+      Markup.button.callback('❌ Cancel', 'cancel_swap'),
+    ]),
+  };
+}
+
+/**
+ * Counts down fixed-rate quotes in their Telegram message and swaps in a refresh button
+ * once the quote lapses. Stops by itself when the conversation moves past the quote.
+ */
+export class QuoteCountdown {
+  private bot: Telegraf;
+  private timers = new Map<number, NodeJS.Timeout>();
+
+  constructor(bot: Telegraf) {
+    this.bot = bot;
+  }
+
+  start(userId: number, quoteId: string, expiry: string, message: QuoteMessage) {
+    this.stop(userId);
+    this.schedule(userId, quoteId, expiry, message);
+  }
+
+  stop(userId: number) {
+    const timer = this.timers.get(userId);
+    if (timer) clearTimeout(timer);
+    this.timers.delete(userId);
+  }
+
+  private schedule(userId: number, quoteId: string, expiry: string, message: QuoteMessage) {
+    const remaining = new Date(expiry).getTime() - Date.now();
+    // Land exactly on the expiry rather than up to a minute after it
+    const delay = Math.max(0, Math.min(TICK_INTERVAL, remaining));
+    this.timers.set(userId, setTimeout(() => this.tick(userId, quoteId, expiry, message), delay));
+  }
+
+  private async tick(userId: number, quoteId: string, expiry: string, message: QuoteMessage) {
+    this.timers.delete(userId);
+    try {
+      // The order was placed, cancelled or re-quoted since
+      const state = await db.getConversationState(userId);
+      if (state?.quoteId !== quoteId) return;
+
+      if (isQuoteExpired(expiry)) {
+        const expired = renderExpiredQuote(message.body);
+        await this.bot.telegram.editMessageText(message.chatId, message.messageId, undefined, expired.text, {
+          parse_mode: 'Markdown',
+          ...expired.keyboard,
+        });
+        return;
+      }
+
+      await this.bot.telegram.editMessageText(message.chatId, message.messageId, undefined, renderQuoteMessage(message.body, expiry), {
+        parse_mode: 'Markdown',
+        ...message.keyboard,
+      });
+      this.schedule(userId, quoteId, expiry, message);
+    } catch (error) {
+      // Usually the message was deleted or edited by another action; nothing left to count down
+      console.error('Quote countdown error:', error);
+    }
+  }
+}
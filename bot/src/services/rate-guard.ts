@@ -0,0 +1,14 @@
+import { checkQuoteRate, DEFAULT_MAX_RATE_DEVIATION, RateCheck } from '@swapsmith/core';
+import * as db from './database';
+
+export { DEFAULT_MAX_RATE_DEVIATION, describeRateDeviation } from '@swapsmith/core';
+export type { RateCheck } from '@swapsmith/core';
+
+/**
+ * Checks a quoted rate against market prices using the user's /slippage limit.
+ * @returns null when the coins have no market price to compare with
+ */
+export async function checkUserQuoteRate(telegramId: number, depositCoin: string, settleCoin: string, quoteRate: string): Promise<RateCheck | null> {
+  const user = await db.getUser(telegramId);
+  return checkQuoteRate(depositCoin, settleCoin, quoteRate, user?.maxRateDeviation ?? DEFAULT_MAX_RATE_DEVIATION);
+}
@@ -0,0 +1,51 @@
+import { canonicalChain, toSideShiftNetwork } from '@swapsmith/core';
+import { isValidAddress, sameAddressFormat } from './address-resolver';
+import { getLinkedWallet } from './wallet-link';
+import * as db from './database';
+import type { ParsedCommand } from './groq-client';
+
+export interface RefundAddress {
+  address: string;
+  source: 'linked_wallet' | 'address_book';
+  nickname?: string; // Address book entry it came from
+}
+
+// Address book chains are free text ("eth", "Avalanche"); compare them as SideShift network ids
+function sameNetwork(chain: string, network: string): boolean {
+  const standardized = canonicalChain(chain) ?? chain.trim().toLowerCase();
+  return toSideShiftNetwork(standardized) === network.toLowerCase();
+}
+
+/**
+ * Finds an address of the user's on the deposit network for SideShift to refund to:
+ * the linked wallet first, then the newest address book entry saved for that network.
+ * @returns null when neither has one, so the user has to be asked
+ */
+export async function findRefundAddress(telegramId: number, depositNetwork: string | null): Promise<RefundAddress | null> {
+  if (!depositNetwork) return null;
+
+  const wallet = await getLinkedWallet(telegramId, depositNetwork);
+  if (wallet) return { address: wallet, source: 'linked_wallet' };
+
+  const entries = await db.getAddressBookEntries(telegramId);
+  const entry = entries.find(e => sameNetwork(e.chain, depositNetwork) && isValidAddress(e.address, depositNetwork));
+  return entry ? { address: entry.address, source: 'address_book', nickname: entry.nickname } : null;
+}
+
+/**
+ * Whether the payout address can take refunds: the deposit network must use the same address
+ * format, so an EVM payout address is never offered for a bitcoincash or bitcoin deposit
+ */
+export function canRefundToPayoutAddress(settleAddress: string | null | undefined, settleNetwork: string | null | undefined, depositNetwork: string | null | undefined): boolean {
+  if (!settleAddress || !settleNetwork || !depositNetwork) return false;
+  return sameAddressFormat(settleNetwork, depositNetwork) && isValidAddress(settleAddress, depositNetwork);
+}
+
+/**
+ * The refund address to put on a shift for a command: the one the user gave or skipped
+ * during the conversation, otherwise whatever can be found for the deposit network
+ */
+export async function getRefundAddress(telegramId: number, command: Pick<ParsedCommand, 'fromChain' | 'refundAddress'>): Promise<string | null> {
+  if (command.refundAddress !== undefined) return command.refundAddress;
+  return (await findRefundAddress(telegramId, command.fromChain))?.address ?? null;
+}
@@ -0,0 +1,78 @@
+import dotenv from 'dotenv';
+import { getPermissions } from './sideshift-client';
+import * as db from './database';
+import logger from './logger';
+
+dotenv.config();
+
+// Telegram never tells us a user's IP, so the bot can't forward one per user: every bot user is
+// attributed to this one operator-set IP (or, unset, the server's), and SideShift's geo checks see that
+const FORWARDED_USER_IP = process.env.SIDESHIFT_USER_IP || undefined;
+const PERMISSION_CACHE_TTL = 10 * 60 * 1000; // Re-check SideShift permissions every 10 minutes
+
+export interface SwapPermission {
+  allowed: boolean;
+  reason?: string;
+  userIP?: string;
+}
+
+const permissionCache = new Map<string, { createShift: boolean; checkedAt: number }>();
+
+/**
+ * Regions this deployment refuses to serve, from BLOCKED_REGIONS (comma-separated ISO country codes)
+ */
+export function getBlockedRegions(): string[] {
+  return (process.env.BLOCKED_REGIONS || '')
+    .split(',')
+    .map(r => r.trim().toUpperCase())
+    .filter(Boolean);
+}
+
+export function isValidRegion(region: string): boolean {
+  return /^[A-Za-z]{2}$/.test(region);
+}
+
+async function canCreateShift(userIP?: string): Promise<boolean> {
+  const key = userIP || 'default';
+  const cached = permissionCache.get(key);
+  if (cached && Date.now() - cached.checkedAt < PERMISSION_CACHE_TTL) return cached.createShift;
+
+  const { createShift } = await getPermissions(userIP);
+  permissionCache.set(key, { createShift, checkedAt: Date.now() });
+  return createShift;
+}
+
+/**
+ * Decides whether a user may create swaps, before any quote is requested.
+ * Checks the region the user declared with /region against the deployment policy, then SideShift's
+ * /permissions for the deployment IP. Neither verifies where the user actually is.
+ */
+export async function checkSwapPermission(telegramId: number): Promise<SwapPermission> {
+  const user = await db.getUser(telegramId);
+  const region = user?.region?.toUpperCase();
+
+  if (region && getBlockedRegions().includes(region)) {
+    return {
+      allowed: false,
+      reason: `Swaps are not available in your region (${region}) on this service.`
+    };
+  }
+
+  try {
+    if (!(await canCreateShift(FORWARDED_USER_IP))) {
+      return {
+        allowed: false,
+        reason: 'SideShift does not allow shifts from this location, so I can\'t request a quote.'
+      };
+    }
+  } catch (error) {
+    // SideShift still enforces restrictions when the quote is created, so don't block on an outage
+    logger.warn(`Permissions check failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  return { allowed: true, userIP: FORWARDED_USER_IP };
+}
+
+export function clearPermissionCache() {
+  permissionCache.clear();
+}
@@ -0,0 +1,105 @@
+import { checkNetwork, checkShift, roundWithin, ShiftCheck, ShiftCheckRequest, ShiftSide } from '@swapsmith/core';
+import { getPair } from './sideshift-client';
+import { tokenResolver } from './token-resolver';
+import type { NetworkQuestion } from './asset-canonicalizer';
+import type { ParsedCommand } from './groq-client';
+
+export interface CommandPreflight {
+  problems: string[];
+  warnings: string[];
+  suggestedAmount: number | null;     // Replacement for the command's `amount` that fits the limits
+  alternative: NetworkQuestion | null; // Networks to offer instead of an offline one
+}
+
+interface ShiftLeg extends ShiftCheckRequest {
+  label: string | null; // Prefix for problems when a command has several shifts
+  settleSlot: string;
+  share: number;        // Fraction of the command's amount this shift carries
+}
+
+// Amounts typed as "50%" or "all" are resolved against a balance later, so there is nothing to compare yet
+function shiftAmount(command: ParsedCommand): number | null {
+  if (command.amountType === 'percentage' || command.amountType === 'all') return null;
+  return command.amount;
+}
+
+function legsOf(command: ParsedCommand): ShiftLeg[] {
+  const { fromAsset, fromChain } = command;
+  if (!fromAsset || !fromChain) return [];
+  const amount = shiftAmount(command);
+
+  if (command.intent === 'portfolio') {
+    return (command.portfolio ?? []).map((leg, i) => ({
+      label: leg.toAsset, settleSlot: `leg${i}`,
+      depositCoin: fromAsset, depositNetwork: fromChain, settleCoin: leg.toAsset, settleNetwork: leg.toChain,
+      amount: amount === null ? null : amount * leg.percentage / 100, amountSide: 'deposit', share: leg.percentage / 100,
+    }));
+  }
+
+  if (!command.toAsset || !command.toChain) return [];
+  return [{
+    label: null, settleSlot: 'to',
+    depositCoin: fromAsset, depositNetwork: fromChain, settleCoin: command.toAsset, settleNetwork: command.toChain,
+    amount, amountSide: command.amountSide === 'settle' ? 'settle' : 'deposit', share: 1,
+  }];
+}
+
+async function checkLeg(leg: ShiftLeg): Promise<ShiftCheck> {
+  const coins = await tokenResolver.getCoinList();
+  try {
+    const depositAmount = leg.amountSide === 'deposit' ? leg.amount ?? undefined : undefined;
+    const pair = await getPair(leg.depositCoin, leg.depositNetwork, leg.settleCoin, leg.settleNetwork, depositAmount);
+    return checkShift(coins, pair, leg);
+  } catch (error) {
+    return checkShift(coins, null, leg, error instanceof Error ? error.message : undefined);
+  }
+}
+
+/**
+ * Checks a parsed command against SideShift before anything is quoted: pair availability,
+ * min/max, offline networks and memo requirements. Problems come with the nearest amount
+ * that fits or other networks to use, so the user can fix the command in one step.
+ */
+export async function preflightCommand(command: ParsedCommand): Promise<CommandPreflight> {
+  const result: CommandPreflight = { problems: [], warnings: [], suggestedAmount: null, alternative: null };
+
+  if (command.intent === 'checkout') {
+    if (!command.settleAsset || !command.settleNetwork) return result;
+    const check = checkNetwork(await tokenResolver.getCoinList(), command.settleAsset, command.settleNetwork, 'settle');
+    const alternative = check.alternativeNetworks;
+    return {
+      problems: check.problems,
+      warnings: check.warnings,
+      suggestedAmount: null,
+      alternative: alternative ? { slot: 'settle', coin: alternative.coin, networks: alternative.networks } : null,
+    };
+  }
+
+  if (!['swap', 'conditional_swap', 'dca', 'portfolio'].includes(command.intent)) return result;
+
+  const amount = shiftAmount(command);
+  for (const leg of legsOf(command)) {
+    const check = await checkLeg(leg);
+    result.problems.push(...check.problems.map(problem => (leg.label ? `${leg.label}: ${problem}` : problem)));
+    result.warnings.push(...check.warnings.filter(warning => !result.warnings.includes(warning)));
+
+    if (check.alternativeNetworks && !result.alternative) {
+      const side: ShiftSide = check.alternativeNetworks.side;
+      result.alternative = {
+        slot: side === 'deposit' ? 'from' : leg.settleSlot,
+        coin: check.alternativeNetworks.coin,
+        networks: check.alternativeNetworks.networks,
+      };
+    }
+
+    if (check.suggestedAmount !== null && amount !== null) {
+      // A leg's limit scales up to the whole amount; the tightest leg decides
+      const raising = check.suggestedAmount / leg.share > amount;
+      const total = leg.share === 1 ? check.suggestedAmount : roundWithin(check.suggestedAmount / leg.share, raising ? 'up' : 'down');
+      if (result.suggestedAmount === null) result.suggestedAmount = total;
+      else result.suggestedAmount = raising ? Math.max(result.suggestedAmount, total) : Math.min(result.suggestedAmount, total);
+    }
+  }
+
+  return result;
+}
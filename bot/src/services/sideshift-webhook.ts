@@ -0,0 +1,97 @@
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+import type { Request, Response } from 'express';
+import type { OrderMonitor } from './order-monitor';
+import { handleError } from './logger';
+
+dotenv.config();
+
+const DEDUPE_TTL = 60 * 60 * 1000; // Remember processed events for an hour
+
+// Shape of SideShift's shift notification
+export interface SideShiftWebhookEvent {
+  meta?: { hook?: boolean };
+  payload?: {
+    shiftId?: string;
+    status?: string;
+    txid?: string;
+  };
+}
+
+function getWebhookSecret(): string | undefined {
+  return process.env.SIDESHIFT_WEBHOOK_SECRET || undefined;
+}
+
+export function isWebhookEnabled(): boolean {
+  return !!getWebhookSecret();
+}
+
+/**
+ * SideShift can't sign requests, so the registered URL carries a shared secret.
+ * Accepts it from the `secret` query parameter or an `x-webhook-secret` header.
+ */
+export function verifyWebhookSecret(provided: unknown): boolean {
+  const secret = getWebhookSecret();
+  if (!secret || typeof provided !== 'string') return false;
+
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(provided);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Drops repeated deliveries of the same shift status (SideShift retries until it gets a 2xx)
+ */
+export class WebhookDeduper {
+  private seen = new Map<string, number>();
+
+  isDuplicate(key: string): boolean {
+    const now = Date.now();
+    for (const [k, at] of this.seen) {
+      if (now - at > DEDUPE_TTL) this.seen.delete(k);
+    }
+
+    if (this.seen.has(key)) return true;
+    this.seen.set(key, now);
+    return false;
+  }
+
+  forget(key: string) {
+    this.seen.delete(key);
+  }
+}
+
+export function createSideShiftWebhookHandler(orderMonitor: OrderMonitor, deduper: WebhookDeduper = new WebhookDeduper()) {
+  return async (req: Request, res: Response) => {
+    if (!verifyWebhookSecret(req.query.secret ?? req.headers['x-webhook-secret'])) {
+      return res.status(401).json({ error: 'Invalid webhook secret' });
+    }
+
+    const event = req.body as SideShiftWebhookEvent;
+    const shiftId = event?.payload?.shiftId;
+    const status = event?.payload?.status;
+    if (!shiftId || !status) {
+      return res.status(400).json({ error: 'Missing shiftId or status' });
+    }
+
+    const eventKey = `${shiftId}:${status}`;
+    if (deduper.isDuplicate(eventKey)) {
+      return res.status(200).json({ ok: true, duplicate: true });
+    }
+
+    try {
+      const result = await orderMonitor.handleStatusNotification(shiftId);
+      if (result !== 'processed') throw new Error(`Notification ${result}`);
+      res.status(200).json({ ok: true });
+    } catch (error) {
+      // Let SideShift retry; the reconciliation poll is the final fallback
+      deduper.forget(eventKey);
+      await handleError('SideShiftWebhookError', {
+        shiftId,
+        status,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }, null, false);
+      res.status(500).json({ error: 'Failed to process notification' });
+    }
+  };
+}
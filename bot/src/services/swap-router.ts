@@ -0,0 +1,57 @@
+import { getSwapProvider, rankRoutes, routeShortfall, sideShiftRoute, SWAP_PROVIDERS } from '@swapsmith/core';
+import type { ProviderOrderStatus, RouteQuote, RouteRequest, SwapProviderId } from '@swapsmith/core';
+import { getOrderStatus, SideShiftQuote } from './sideshift-client';
+
+export type { ProviderOrderStatus, RouteQuote, RouteRequest, RouteTransaction, SwapProviderId } from '@swapsmith/core';
+
+export const TX_HASH = /^0x[a-fA-F0-9]{64}$/;
+
+/**
+ * Provider of an order the user refers to by id: SideShift ids are short, while wallet-signed
+ * routes are tracked by their transaction hash
+ */
+export function providerForOrderId(orderId: string): SwapProviderId {
+  return TX_HASH.test(orderId) ? 'lifi' : 'sideshift';
+}
+
+/**
+ * Status of an order on the provider that executed it. SideShift goes through the bot's own
+ * client like the rest of the order flow.
+ */
+export async function getProviderOrderStatus(provider: string | null | undefined, orderId: string): Promise<ProviderOrderStatus> {
+  if (!provider || provider === 'sideshift') return getOrderStatus(orderId);
+  return getSwapProvider(provider).getOrderStatus(orderId);
+}
+
+/**
+ * Quotes the other providers for a swap SideShift has already quoted and ranks all of them.
+ * A provider that can't quote the pair is left out rather than failing the SideShift quote.
+ */
+export async function compareWithSideShift(request: RouteRequest, quote: SideShiftQuote): Promise<RouteQuote[]> {
+  const alternatives = SWAP_PROVIDERS.filter(p => p.id !== 'sideshift' && p.supports(request));
+  const results = await Promise.allSettled(alternatives.map(p => p.getQuote(request)));
+  const routes = results.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+  return rankRoutes([sideShiftRoute(quote), ...routes], request.amountSide);
+}
+
+/**
+ * Markdown list of the ranked routes, e.g. "1. LI.FI via Uniswap — 2001.5 USDC ⭐"
+ */
+export function describeRoutes(routes: RouteQuote[], amountSide: RouteRequest['amountSide'] = 'deposit'): string {
+  const best = routes[0];
+  return routes.map((route, i) => {
+    const amount = amountSide === 'settle' ? `send ${route.depositAmount} ${route.depositCoin}` : `${route.settleAmount} ${route.settleCoin}`;
+    const shortfall = routeShortfall(route, best, amountSide);
+    const note = i === 0 ? ' ⭐' : ` (${shortfall.toFixed(2)}% worse)`;
+    const fee = route.feeUsd ? `, ~$${route.feeUsd.toFixed(2)} gas & fees` : '';
+    return `${i + 1}. ${route.providerName} — \`${amount}\`${fee}${note}`;
+  }).join('\n');
+}
+
+export function getSwapProviderName(provider: string): string {
+  return SWAP_PROVIDERS.find(p => p.id === provider)?.name ?? provider;
+}
+
+export function findRoute(routes: RouteQuote[] | null | undefined, provider: SwapProviderId | string): RouteQuote | null {
+  return routes?.find(route => route.provider === provider) ?? null;
+}
@@ -7,6 +7,8 @@ interface TokenInfo {
 
 class TokenResolver {
   private cache: Map<string, TokenInfo> = new Map();
+  private natives: Set<string> = new Set();
+  private coins: SideShiftCoin[] = [];
   private lastFetch: number = 0;
   private readonly CACHE_DURATION = 3600000; // 1 hour in milliseconds
 
@@ -37,6 +39,25 @@ class TokenResolver {
     return !this.cache.has(cacheKey);
   }
 
+  /**
+   * Check if SideShift lists the asset as the network's own coin. Unlike isNativeToken,
+   * an asset missing from SideShift's list (or an unloaded cache) is not treated as native.
+   * @param asset - Token symbol
+   * @param network - Network name
+   */
+  async isKnownNativeAsset(asset: string, network: string): Promise<boolean> {
+    await this.ensureCacheLoaded();
+    return this.natives.has(`${asset.toUpperCase()}-${network.toLowerCase()}`);
+  }
+
+  /**
+   * SideShift's coin list as last fetched; empty if it has never loaded
+   */
+  async getCoinList(): Promise<SideShiftCoin[]> {
+    await this.ensureCacheLoaded();
+    return this.coins;
+  }
+
   /**
    * Ensure the cache is loaded and fresh
    */
@@ -56,6 +77,8 @@ class TokenResolver {
     try {
       const coins = await getCoins();
       this.cache.clear();
+      this.natives.clear();
+      this.coins = coins;
 
       for (const coin of coins) {
         if (coin.tokenDetails) {
@@ -69,6 +92,11 @@ class TokenResolver {
           }
         }
         // Native tokens (like ETH, BTC, AVAX on their main chains) won't have tokenDetails
+        for (const network of coin.networks) {
+          if (!coin.tokenDetails?.[network]) {
+            this.natives.add(`${coin.coin.toUpperCase()}-${network.toLowerCase()}`);
+          }
+        }
       }
 
       this.lastFetch = Date.now();
@@ -84,6 +112,8 @@ class TokenResolver {
    */
   clearCache(): void {
     this.cache.clear();
+    this.natives.clear();
+    this.coins = [];
     this.lastFetch = 0;
   }
 }
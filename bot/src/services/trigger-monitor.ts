@@ -0,0 +1,117 @@
+import { Telegraf, Markup } from 'telegraf';
+import { getUsdPrices } from './price-client';
+import * as db from './database';
+import { handleError } from './logger';
+
+const POLL_INTERVAL = 30000; // Check prices every 30 seconds
+
+export function isTriggerMet(trigger: Pick<db.PendingTrigger, 'triggerCondition' | 'triggerPrice'>, price: number): boolean {
+  if (trigger.triggerCondition === 'above') return price >= trigger.triggerPrice;
+  if (trigger.triggerCondition === 'below') return price <= trigger.triggerPrice;
+  return false;
+}
+
+export class TriggerMonitor {
+  private bot: Telegraf;
+  private intervalId: NodeJS.Timeout | null = null;
+  private isRunning: boolean = false;
+  private isChecking: boolean = false;
+
+  constructor(bot: Telegraf) {
+    this.bot = bot;
+  }
+
+  start() {
+    if (this.isRunning) {
+      console.log('⚠️ Trigger monitor is already running');
+      return;
+    }
+
+    console.log('🎯 Starting trigger monitor...');
+    this.isRunning = true;
+
+    // Run immediately on start
+    this.checkTriggers();
+
+    // Then run on interval
+    this.intervalId = setInterval(() => {
+      this.checkTriggers();
+    }, POLL_INTERVAL);
+  }
+
+  stop() {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    this.isRunning = false;
+    console.log('🛑 Trigger monitor stopped');
+  }
+
+  private async checkTriggers() {
+    // A slow price request must not let two cycles fire the same trigger
+    if (this.isChecking) return;
+    this.isChecking = true;
+
+    try {
+      const triggers = await db.getActivePendingTriggers();
+
+      if (triggers.length === 0) {
+        return;
+      }
+
+      // One price request for every asset we are watching
+      const prices = await getUsdPrices(triggers.map(t => t.triggerAsset));
+
+      for (const trigger of triggers) {
+        const price = prices[trigger.triggerAsset.toUpperCase()];
+        if (price === undefined) continue;
+
+        try {
+          if (isTriggerMet(trigger, price)) {
+            await db.markTriggerFired(trigger.id, price);
+            console.log(`🎯 Trigger ${trigger.id} fired: ${trigger.triggerAsset} at $${price}`);
+            await this.notifyUser(trigger, price);
+          } else {
+            await db.updateTriggerLastPrice(trigger.id, price);
+          }
+        } catch (error) {
+          console.error(`Error checking trigger ${trigger.id}:`, error);
+          await handleError('TriggerMonitorError', {
+            triggerId: trigger.id,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          }, null, false);
+        }
+      }
+    } catch (error) {
+      console.error('Error in trigger monitor:', error);
+      await handleError('TriggerMonitorError', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }, null, false);
+    } finally {
+      this.isChecking = false;
+    }
+  }
+
+  private async notifyUser(trigger: db.PendingTrigger, price: number) {
+    try {
+      const direction = trigger.triggerCondition === 'above' ? 'above' : 'below';
+
+      let message = `🎯 *Price Trigger Hit*\n\n`;
+      message += `*${trigger.triggerAsset}* is now *$${price}* (${direction} $${trigger.triggerPrice})\n\n`;
+      message += `*Swap:* ${trigger.amount} ${trigger.fromAsset} (${trigger.fromNetwork}) → ${trigger.toAsset} (${trigger.toNetwork})\n`;
+      message += `*To:* \`${trigger.settleAddress}\`\n\n`;
+      message += `Do you want to get a quote and execute this swap now?`;
+
+      await this.bot.telegram.sendMessage(trigger.telegramId, message, {
+        parse_mode: 'Markdown',
+        ...Markup.inlineKeyboard([
+          Markup.button.callback('✅ Get Quote', `execute_trigger:${trigger.id}`),
+          Markup.button.callback('❌ Dismiss', 'cancel_swap')
+        ])
+      });
+    } catch (error) {
+      console.error(`Failed to notify user ${trigger.telegramId}:`, error);
+    }
+  }
+}
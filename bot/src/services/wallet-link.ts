@@ -0,0 +1,136 @@
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+import { ethers } from 'ethers';
+import type { Request, Response } from 'express';
+import { chainIdMap } from '../config/chains';
+import * as db from './database';
+
+dotenv.config();
+
+const LINK_REQUEST_TTL = 10 * 60 * 1000; // A /link_wallet nonce is good for ten minutes
+export const LINK_STATEMENT = 'Link this wallet to your SwapSmith Telegram account.';
+
+// Fields of an EIP-4361 (Sign-In with Ethereum) message
+export interface SiweMessage {
+  domain: string;
+  address: string;
+  statement: string | null;
+  uri: string;
+  version: string;
+  chainId: number;
+  nonce: string;
+  issuedAt: string;
+  expirationTime: string | null;
+}
+
+function getMiniAppUrl(): URL {
+  return new URL(process.env.MINI_APP_URL!);
+}
+
+/**
+ * Parses the plain-text EIP-4361 message a wallet signed
+ * @throws If the text isn't a SIWE message
+ */
+export function parseSiweMessage(message: string): SiweMessage {
+  const header = message.match(/^(\S+) wants you to sign in with your Ethereum account:\n(0x[a-fA-F0-9]{40})\n\n(?:([^\n]+)\n\n)?/);
+  if (!header) throw new Error('Not a Sign-In with Ethereum message');
+
+  const field = (name: string) => message.match(new RegExp(`^${name}: (.+)$`, 'm'))?.[1] ?? null;
+  const uri = field('URI');
+  const version = field('Version');
+  const chainId = field('Chain ID');
+  const nonce = field('Nonce');
+  const issuedAt = field('Issued At');
+  if (!uri || !version || !chainId || !nonce || !issuedAt) throw new Error('Sign-In with Ethereum message is missing fields');
+
+  return {
+    domain: header[1],
+    address: header[2],
+    statement: header[3] ?? null,
+    uri,
+    version,
+    chainId: Number(chainId),
+    nonce,
+    issuedAt,
+    expirationTime: field('Expiration Time'),
+  };
+}
+
+/**
+ * Starts a /link_wallet request: a single-use nonce, and the Mini App link that has the
+ * wallet sign a SIWE message over it and post the signature back to the bot
+ */
+export async function createWalletLinkUrl(telegramId: number): Promise<string> {
+  const nonce = crypto.randomBytes(16).toString('hex');
+  await db.createWalletLinkRequest(telegramId, nonce);
+
+  const url = getMiniAppUrl();
+  url.searchParams.set('action', 'link_wallet');
+  url.searchParams.set('nonce', nonce);
+  url.searchParams.set('statement', LINK_STATEMENT);
+  if (process.env.BOT_PUBLIC_URL) url.searchParams.set('callback', new URL('/wallet/link', process.env.BOT_PUBLIC_URL).toString());
+  return url.toString();
+}
+
+/**
+ * Checks a signed SIWE message against an outstanding /link_wallet nonce and stores the
+ * signer as the user's wallet. Only EOA signatures are accepted (no EIP-1271 contract wallets).
+ * @returns The Telegram user and the checksummed address now linked to them
+ */
+export async function verifyWalletLink(message: string, signature: string): Promise<{ telegramId: number; address: string }> {
+  const siwe = parseSiweMessage(message);
+  const now = Date.now();
+
+  if (siwe.domain !== getMiniAppUrl().host) throw new Error(`Message was signed for ${siwe.domain}, not this app`);
+  if (siwe.statement !== LINK_STATEMENT) throw new Error('Message is not a SwapSmith wallet link');
+  if (siwe.expirationTime && Date.parse(siwe.expirationTime) < now) throw new Error('Signed message has expired');
+
+  let signer: string;
+  try {
+    signer = ethers.verifyMessage(message, signature);
+  } catch {
+    throw new Error('Invalid signature');
+  }
+  if (signer.toLowerCase() !== siwe.address.toLowerCase()) throw new Error('Signature does not match the address in the message');
+
+  const request = await db.takeWalletLinkRequest(siwe.nonce);
+  if (!request || now - request.createdAt.getTime() > LINK_REQUEST_TTL) {
+    throw new Error('This link request has expired. Run /link_wallet again.');
+  }
+
+  const address = ethers.getAddress(siwe.address);
+  await db.setUserWallet(request.telegramId, address);
+  return { telegramId: request.telegramId, address };
+}
+
+/**
+ * The linked wallet, if it can receive or refund on `network`. Linked wallets are EVM
+ * addresses, so they only stand in on EVM networks.
+ */
+export async function getLinkedWallet(telegramId: number, network: string | null): Promise<string | null> {
+  if (!network || !chainIdMap[network.toLowerCase()]) return null;
+  const user = await db.getUser(telegramId);
+  return user?.walletAddress ?? null;
+}
+
+export function createWalletLinkHandler(onLinked: (telegramId: number, address: string) => Promise<void>) {
+  return async (req: Request, res: Response) => {
+    // The Mini App is served from its own origin
+    res.setHeader('Access-Control-Allow-Origin', getMiniAppUrl().origin);
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    if (req.method === 'OPTIONS') return res.sendStatus(204);
+
+    const { message, signature } = (req.body ?? {}) as { message?: unknown; signature?: unknown };
+    if (typeof message !== 'string' || typeof signature !== 'string') {
+      return res.status(400).json({ error: 'Missing message or signature' });
+    }
+
+    try {
+      const { telegramId, address } = await verifyWalletLink(message, signature);
+      await onLinked(telegramId, address);
+      return res.status(200).json({ address });
+    } catch (error) {
+      return res.status(400).json({ error: error instanceof Error ? error.message : 'Could not link wallet' });
+    }
+  };
+}
@@ -0,0 +1,68 @@
+import { resolveAssetNetwork, SideShiftCoin } from '@swapsmith/core';
+import { matchNetworkChoice } from '../services/asset-canonicalizer';
+
+const coin = (symbol: string, name: string, networks: string[], extra: Partial<SideShiftCoin> = {}): SideShiftCoin => ({
+  coin: symbol, name, networks, hasMemo: false, fixedOnly: false, variableOnly: false,
+  networksWithMemo: [], depositOffline: false, settleOffline: false, ...extra,
+});
+
+const coins = [
+  coin('ETH', 'Ethereum', ['ethereum', 'arbitrum', 'base', 'optimism']),
+  coin('BTC', 'Bitcoin', ['bitcoin']),
+  coin('USDT', 'Tether', ['tron', 'bsc', 'ethereum', 'solana']),
+  coin('USDC', 'USD Coin', ['ethereum', 'arbitrum', 'avax', 'polygon']),
+  coin('USDCE', 'Bridged USDC', ['polygon', 'arbitrum']),
+  coin('POL', 'Polygon', ['polygon', 'ethereum']),
+  coin('SHIB', 'Shiba Inu', ['ethereum']),
+  coin('XYZ', 'Retired', ['ethereum'], { deprecated: true }),
+];
+
+describe('Asset resolver', () => {
+  it('should ask which network a multi-network token is on', () => {
+    expect(resolveAssetNetwork(coins, 'USDT', null)).toEqual({
+      status: 'ambiguous', coin: 'USDT', networks: ['ethereum', 'tron', 'bsc', 'solana'],
+    });
+  });
+
+  it('should default native coins and single-network coins', () => {
+    expect(resolveAssetNetwork(coins, 'ETH', null)).toEqual({ status: 'resolved', coin: 'ETH', network: 'ethereum', corrected: false });
+    expect(resolveAssetNetwork(coins, 'shib', null)).toEqual({ status: 'resolved', coin: 'SHIB', network: 'ethereum', corrected: false });
+  });
+
+  it('should map chain aliases onto SideShift network ids', () => {
+    expect(resolveAssetNetwork(coins, 'USDC', 'arb')).toMatchObject({ status: 'resolved', network: 'arbitrum' });
+    expect(resolveAssetNetwork(coins, 'USDC', 'avalanche')).toMatchObject({ status: 'resolved', network: 'avax' });
+    expect(resolveAssetNetwork(coins, 'USDT', 'BNB Chain')).toMatchObject({ status: 'resolved', network: 'bsc' });
+  });
+
+  it('should resolve asset aliases and bridged variants', () => {
+    expect(resolveAssetNetwork(coins, 'usdc.e', 'arbitrum')).toEqual({ status: 'resolved', coin: 'USDCE', network: 'arbitrum', corrected: true });
+    expect(resolveAssetNetwork(coins, 'bridged usdc', 'polygon')).toMatchObject({ coin: 'USDCE' });
+    expect(resolveAssetNetwork(coins, 'matic', null)).toMatchObject({ status: 'resolved', coin: 'POL', network: 'polygon' });
+    expect(resolveAssetNetwork(coins, 'tether', 'tron')).toMatchObject({ status: 'resolved', coin: 'USDT' });
+  });
+
+  it('should correct typos in assets and networks', () => {
+    expect(resolveAssetNetwork(coins, 'USCD', 'etherium')).toEqual({ status: 'resolved', coin: 'USDC', network: 'ethereum', corrected: true });
+    expect(resolveAssetNetwork(coins, 'Bitcon', null)).toMatchObject({ status: 'resolved', coin: 'BTC' });
+  });
+
+  it('should report coins and networks SideShift does not list', () => {
+    expect(resolveAssetNetwork(coins, 'PEPE', null)).toEqual({ status: 'unknown_coin', input: 'PEPE', suggestions: [] });
+    expect(resolveAssetNetwork(coins, 'XYZ', null)).toMatchObject({ status: 'unknown_coin' });
+    expect(resolveAssetNetwork(coins, 'BTC', 'solana')).toEqual({
+      status: 'unsupported_network', coin: 'BTC', network: 'solana', networks: ['bitcoin'],
+    });
+  });
+
+  it('should only take a reply to a network question as one of its networks', () => {
+    const question = { slot: 'from', coin: 'USDT', networks: ['ethereum', 'tron', 'bsc', 'avax'] };
+
+    expect(matchNetworkChoice(question, ' Tron ')).toBe('tron');
+    expect(matchNetworkChoice(question, 'BEP20')).toBe('bsc');
+    expect(matchNetworkChoice(question, 'avalanche')).toBe('avax');
+    expect(matchNetworkChoice(question, 'cancel')).toBeNull();
+    expect(matchNetworkChoice(question, 'swap 1 ETH')).toBeNull();
+    expect(matchNetworkChoice(question, 'solana')).toBeNull();
+  });
+});
@@ -0,0 +1,75 @@
+import { ethers } from 'ethers';
+import { toBaseUnits } from '@swapsmith/core';
+import { resolveBalanceAmount, resolveCommandAmount } from '../services/balance-service';
+import { tokenResolver } from '../services/token-resolver';
+
+jest.mock('../services/token-resolver', () => ({
+  tokenResolver: { getTokenInfo: jest.fn(), isKnownNativeAsset: jest.fn() },
+}));
+
+describe('Balance service', () => {
+  const wallet = '0x1111111111111111111111111111111111111111';
+  const swap: any = {
+    intent: 'swap', fromAsset: 'ETH', fromChain: 'base', toAsset: 'USDC', toChain: 'base', amount: null, amountType: 'all',
+  };
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    (tokenResolver.getTokenInfo as jest.Mock).mockResolvedValue(null);
+    (tokenResolver.isKnownNativeAsset as jest.Mock).mockResolvedValue(true);
+  });
+
+  it('should take a share of a token balance exactly', () => {
+    const usdc = { raw: 1234_560000n, decimals: 6, gasReserve: 0n };
+
+    expect(resolveBalanceAmount(usdc, 'percentage', 50)).toEqual({ amount: 617.28, balance: 1234.56, gasReserve: 0 });
+    expect(resolveBalanceAmount(usdc, 'percentage', 12.5).amount).toBe(154.32);
+    expect(resolveBalanceAmount(usdc, 'all', null).amount).toBe(1234.56);
+  });
+
+  it('should keep the gas reserve out of a native balance', () => {
+    const eth = { raw: ethers.parseEther('1'), decimals: 18, gasReserve: ethers.parseEther('0.01') };
+
+    expect(resolveBalanceAmount(eth, 'all', null).amount).toBe(0.99);
+    expect(resolveBalanceAmount(eth, 'percentage', 100).amount).toBe(0.99);
+    expect(resolveBalanceAmount(eth, 'percentage', 50).amount).toBe(0.5);
+  });
+
+  it('should never round an "all" amount above what the wallet holds', () => {
+    const eth = { raw: 1_234567890123456789n, decimals: 18, gasReserve: 0n };
+    const { amount } = resolveBalanceAmount(eth, 'all', null);
+
+    expect(amount).toBe(1.23456789012345);
+    expect(BigInt(toBaseUnits(amount, 18)) <= eth.raw).toBe(true);
+  });
+
+  it('should resolve "all my ETH" from the wallet over RPC', async () => {
+    jest.spyOn(ethers.JsonRpcProvider.prototype, 'getBalance').mockResolvedValue(ethers.parseEther('0.5'));
+    jest.spyOn(ethers.JsonRpcProvider.prototype, 'getFeeData')
+      .mockResolvedValue(new ethers.FeeData(null, ethers.parseUnits('50', 'gwei'), ethers.parseUnits('1', 'gwei')));
+
+    const resolved = await resolveCommandAmount(swap, wallet);
+
+    // 21000 gas at twice 50 gwei
+    expect(resolved).toMatchObject({ amount: 0.4979, amountType: 'exact', balanceAmount: { share: 100, balance: 0.5, gasReserve: 0.0021 } });
+  });
+
+  it('should refuse when the balance only covers gas', async () => {
+    jest.spyOn(ethers.JsonRpcProvider.prototype, 'getBalance').mockResolvedValue(ethers.parseEther('0.001'));
+    jest.spyOn(ethers.JsonRpcProvider.prototype, 'getFeeData')
+      .mockResolvedValue(new ethers.FeeData(null, ethers.parseUnits('50', 'gwei'), ethers.parseUnits('1', 'gwei')));
+
+    await expect(resolveCommandAmount(swap, wallet)).rejects.toThrow("doesn't cover the 0.0021 ETH kept for gas");
+  });
+
+  it('should not read networks it has no RPC for', async () => {
+    await expect(resolveCommandAmount({ ...swap, fromAsset: 'BTC', fromChain: 'bitcoin' }, wallet))
+      .rejects.toThrow("Reading balances on bitcoin isn't supported yet.");
+  });
+
+  it('should leave exact amounts alone', async () => {
+    const exact = { ...swap, amount: 1, amountType: 'exact' };
+
+    expect(await resolveCommandAmount(exact, wallet)).toBe(exact);
+  });
+});
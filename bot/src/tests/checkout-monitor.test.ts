@@ -0,0 +1,140 @@
+import { CheckoutMonitor, MissingCheckoutPaymentsError, describeLastChecked, getCheckoutPayment } from '../services/checkout-monitor';
+import * as db from '../services/database';
+import { getCheckoutStatus } from '../services/sideshift-client';
+import { handleError } from '../services/logger';
+import { Telegraf } from 'telegraf';
+
+jest.mock('../services/database');
+jest.mock('../services/sideshift-client');
+jest.mock('../services/logger');
+
+describe('CheckoutMonitor', () => {
+  let mockBot: any;
+  let checkoutMonitor: CheckoutMonitor;
+
+  const checkout = {
+    id: 7,
+    telegramId: 123456,
+    checkoutId: 'chk-abc',
+    settleAsset: 'USDC',
+    settleNetwork: 'polygon',
+    settleAmount: 50,
+    settleAddress: '0xdef',
+    status: 'pending',
+    settleHash: null,
+    lastChecked: null,
+    createdAt: new Date(),
+  };
+
+  const shift = (status: string, extra: object = {}) => ({
+    id: `shift-${status}`,
+    status,
+    depositCoin: 'ETH',
+    depositNetwork: 'ethereum',
+    settleCoin: 'USDC',
+    settleNetwork: 'polygon',
+    depositAmount: '0.02',
+    settleAmount: '50',
+    depositHash: '0xdeposit',
+    settleHash: null,
+    ...extra,
+  });
+
+  beforeEach(() => {
+    mockBot = {
+      telegram: {
+        sendMessage: jest.fn().mockResolvedValue({}),
+      },
+    };
+
+    checkoutMonitor = new CheckoutMonitor(mockBot as Telegraf);
+    jest.clearAllMocks();
+  });
+
+  it('should derive the checkout status from its payments', () => {
+    expect(getCheckoutPayment({ shifts: [] })).toEqual({ status: 'pending', shift: null });
+    expect(getCheckoutPayment({ shifts: [shift('expired')] as any }).status).toBe('pending');
+    expect(getCheckoutPayment({ shifts: [shift('processing')] as any }).status).toBe('processing');
+    expect(getCheckoutPayment({ shifts: [shift('refunded')] as any }).status).toBe('refunded');
+
+    // A payer who was refunded and paid again settles the checkout
+    const paid = getCheckoutPayment({ shifts: [shift('refunded'), shift('settled')] as any });
+    expect(paid.status).toBe('paid');
+    expect(paid.shift?.id).toBe('shift-settled');
+  });
+
+  it('should not read a response without payments as unpaid', () => {
+    expect(() => getCheckoutPayment({})).toThrow(MissingCheckoutPaymentsError);
+  });
+
+  it('should leave checkouts untouched and alert once when SideShift omits their payments', async () => {
+    (db.getOpenCheckouts as jest.Mock).mockResolvedValue([checkout, { ...checkout, checkoutId: 'chk-def' }]);
+    (getCheckoutStatus as jest.Mock).mockResolvedValue({ id: 'chk-abc', settleCoin: 'USDC' });
+
+    await checkoutMonitor.checkCheckouts();
+    await checkoutMonitor.checkCheckouts();
+
+    expect(db.updateCheckoutStatus).not.toHaveBeenCalled();
+    expect(handleError).toHaveBeenCalledTimes(4);
+    const alerts = (handleError as jest.Mock).mock.calls.filter(call => call[3] === true);
+    expect(alerts).toHaveLength(1);
+  });
+
+  it('should describe how fresh a status is', () => {
+    const now = Date.now();
+    expect(describeLastChecked(null, now)).toBe('not checked yet');
+    expect(describeLastChecked(new Date(now - 30000), now)).toBe('checked just now');
+    expect(describeLastChecked(new Date(now - 5 * 60000), now)).toBe('checked 5 min ago');
+    expect(describeLastChecked(new Date(now - 3 * 24 * 60 * 60000), now)).toBe('checked 3 d ago');
+  });
+
+  it('should mark a checkout paid and notify the merchant with the payment details', async () => {
+    (db.getOpenCheckouts as jest.Mock).mockResolvedValue([checkout]);
+    (getCheckoutStatus as jest.Mock).mockResolvedValue({
+      id: 'chk-abc',
+      shifts: [shift('settled', { settleHash: '0xsettle' })],
+    });
+
+    await checkoutMonitor.checkCheckouts();
+
+    expect(getCheckoutStatus).toHaveBeenCalledWith('chk-abc');
+    expect(db.updateCheckoutStatus).toHaveBeenCalledWith('chk-abc', 'paid', '0xsettle');
+    expect(mockBot.telegram.sendMessage).toHaveBeenCalledWith(
+      123456,
+      expect.stringContaining('Payment Received'),
+      { parse_mode: 'Markdown' }
+    );
+
+    const message = mockBot.telegram.sendMessage.mock.calls[0][1];
+    expect(message).toContain('0.02 ETH (ethereum)');
+    expect(message).toContain('`0xdeposit`');
+    expect(message).toContain('50 USDC (polygon)');
+    expect(message).toContain('`0xsettle`');
+  });
+
+  it('should not notify while a checkout is unpaid or already known', async () => {
+    (db.getOpenCheckouts as jest.Mock).mockResolvedValue([checkout, { ...checkout, checkoutId: 'chk-def', status: 'processing' }]);
+    (getCheckoutStatus as jest.Mock)
+      .mockResolvedValueOnce({ id: 'chk-abc', shifts: [] })
+      .mockResolvedValueOnce({ id: 'chk-def', shifts: [shift('processing')] });
+
+    await checkoutMonitor.checkCheckouts();
+
+    expect(db.updateCheckoutStatus).toHaveBeenCalledWith('chk-abc', 'pending', null);
+    expect(db.updateCheckoutStatus).toHaveBeenCalledWith('chk-def', 'processing', null);
+    expect(mockBot.telegram.sendMessage).not.toHaveBeenCalled();
+  });
+
+  it('should keep checking other checkouts when one lookup fails', async () => {
+    (db.getOpenCheckouts as jest.Mock).mockResolvedValue([checkout, { ...checkout, checkoutId: 'chk-def' }]);
+    (getCheckoutStatus as jest.Mock)
+      .mockRejectedValueOnce(new Error('Failed to get checkout status'))
+      .mockResolvedValueOnce({ id: 'chk-def', shifts: [shift('settled')] });
+
+    await checkoutMonitor.checkCheckouts();
+
+    expect(db.updateCheckoutStatus).toHaveBeenCalledTimes(1);
+    expect(db.updateCheckoutStatus).toHaveBeenCalledWith('chk-def', 'paid', null);
+    expect(mockBot.telegram.sendMessage).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,70 @@
+import { parseCommandGrammar } from '@swapsmith/core';
+
+describe('Command grammar', () => {
+  it('should parse swaps with default and explicit chains', () => {
+    expect(parseCommandGrammar('swap 1 ETH to BTC')).toMatchObject({
+      success: true, intent: 'swap', amount: 1, amountSide: 'deposit',
+      fromAsset: 'ETH', fromChain: 'ethereum', toAsset: 'BTC', toChain: 'bitcoin', confidence: 100,
+    });
+
+    expect(parseCommandGrammar('Convert 0.5 eth on base for usdc on arb.')).toMatchObject({
+      fromAsset: 'ETH', fromChain: 'base', toAsset: 'USDC', toChain: 'arbitrum', amount: 0.5,
+    });
+  });
+
+  it('should parse receive-exact swaps', () => {
+    expect(parseCommandGrammar('swap ETH for exactly 500 USDC on arbitrum')).toMatchObject({
+      intent: 'swap', amount: 500, amountSide: 'settle', toAsset: 'USDC', toChain: 'arbitrum',
+    });
+  });
+
+  it('should parse checkouts with and without a recipient', () => {
+    expect(parseCommandGrammar('send 5 USDC to vitalik.eth')).toMatchObject({
+      success: true, intent: 'checkout', settleAsset: 'USDC', settleNetwork: 'ethereum', settleAmount: 5, settleAddress: 'vitalik.eth',
+    });
+
+    expect(parseCommandGrammar('receive 10 USDT on polygon')).toMatchObject({
+      intent: 'checkout', settleAsset: 'USDT', settleNetwork: 'polygon', settleAmount: 10, settleAddress: null,
+    });
+  });
+
+  it('should parse portfolio splits', () => {
+    const parsed = parseCommandGrammar('split 1 ETH on base into 50% USDC on arbitrum and 50% SOL');
+
+    expect(parsed).toMatchObject({ intent: 'portfolio', fromAsset: 'ETH', fromChain: 'base', amount: 1 });
+    expect(parsed?.portfolio).toEqual([
+      { toAsset: 'USDC', toChain: 'arbitrum', percentage: 50 },
+      { toAsset: 'SOL', toChain: 'solana', percentage: 50 },
+    ]);
+    expect(parseCommandGrammar('split 1 ETH into 30% BTC, 30% SOL, and 40% USDC')?.portfolio).toHaveLength(3);
+  });
+
+  it('should parse yield questions', () => {
+    expect(parseCommandGrammar('show me the best stablecoin yields')?.intent).toBe('yield_scout');
+    expect(parseCommandGrammar('top yields')?.intent).toBe('yield_scout');
+  });
+
+  it('should leave token networks open when the caller resolves them', () => {
+    expect(parseCommandGrammar('send 5 USDT to vitalik.eth', { deferNetworks: true })).toMatchObject({
+      success: true, settleAsset: 'USDT', settleNetwork: null, parsedMessage: 'Create a link paying 5 USDT to vitalik.eth',
+    });
+    expect(parseCommandGrammar('swap 100 USDC to ETH', { deferNetworks: true })).toMatchObject({
+      fromAsset: 'USDC', fromChain: null, toAsset: 'ETH', toChain: 'ethereum',
+    });
+  });
+
+  it('should leave anything else to the LLM', () => {
+    for (const input of [
+      'swap 1 ETH to BTC or USDC',              // ambiguous
+      'swap 1 ETH to BTC if ETH > 3000',        // conditional
+      'swap 50 USDC to ETH every monday',       // recurring
+      'swap 1 bitcoin to eth',                  // chain name used as an asset
+      'swap 100 PEPE to USDC',                  // unknown asset without a chain
+      'swap 1 ETH to ETH',                      // nothing to swap
+      'split 1 ETH into 60% BTC and 60% SOL',   // doesn't add up
+      'send 5 USDC to alice',                   // nickname needs the address book
+    ]) {
+      expect(parseCommandGrammar(input)).toBeNull();
+    }
+  });
+});
@@ -0,0 +1,54 @@
+import { checkCommandSchema } from '@swapsmith/core';
+
+describe('Command schema', () => {
+  it('should coerce safe values', () => {
+    const result = checkCommandSchema({
+      intent: 'Conditional Swap',
+      fromAsset: 'eth',
+      fromChain: 'BNB Chain',
+      amount: '2.5',
+      triggerCondition: '>',
+      triggerPrice: '$3,000',
+      confidence: 0.85,
+      validationErrors: 'none',
+      settleAddress: '',
+    });
+
+    expect(result).toEqual({
+      ok: true,
+      command: expect.objectContaining({
+        intent: 'conditional_swap', fromAsset: 'ETH', fromChain: 'bsc', amount: 2.5,
+        triggerCondition: 'above', triggerPrice: 3000, confidence: 85, validationErrors: [], settleAddress: null,
+      }),
+    });
+  });
+
+  it('should only check the fields of the intent', () => {
+    const result = checkCommandSchema({ intent: 'swap', fromAsset: 'ETH', toAsset: 'BTC', amount: 1, triggerCondition: 'sideways', confidence: 90 });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) expect(result.command).not.toHaveProperty('triggerCondition');
+  });
+
+  it('should report each field it cannot use', () => {
+    const result = checkCommandSchema({
+      intent: 'portfolio',
+      fromAsset: 'ETH',
+      fromChain: 'the base network',
+      amount: 1,
+      portfolio: [{ toAsset: 'BTC', toChain: 'bitcoin', percentage: '50%' }, { toAsset: 'SOL', percentage: 50 }],
+    });
+
+    expect(result).toEqual({
+      ok: false,
+      issues: [
+        expect.stringMatching(/^fromChain: "the base network" is not a chain id/),
+        expect.stringMatching(/^portfolio\.1\.toChain:/),
+      ],
+    });
+  });
+
+  it('should reject intents it does not know', () => {
+    expect(checkCommandSchema({ intent: 'buy' })).toEqual({ ok: false, issues: [expect.stringContaining('"buy" is not one of')] });
+  });
+});
@@ -0,0 +1,163 @@
+import { DcaScheduler, getNextRunDate } from '../services/dca-scheduler';
+import * as db from '../services/database';
+import { createQuote, createOrder } from '../services/sideshift-client';
+import { buildDepositPrompt } from '../services/mini-app';
+import { checkSwapPermission } from '../services/region-policy';
+import { Telegraf } from 'telegraf';
+import { validateParsedCommand } from '@swapsmith/core';
+
+// Mock dependencies
+jest.mock('../services/database');
+jest.mock('../services/sideshift-client');
+jest.mock('../services/mini-app');
+jest.mock('../services/region-policy');
+jest.mock('../services/logger');
+
+describe('getNextRunDate', () => {
+  // Wednesday 2025-01-15 10:00 UTC
+  const wednesday = new Date(Date.UTC(2025, 0, 15, 10, 0, 0));
+
+  it('should schedule daily runs one day apart', () => {
+    expect(getNextRunDate('daily', null, wednesday)).toEqual(new Date(Date.UTC(2025, 0, 16, 10, 0, 0)));
+    expect(getNextRunDate('daily', null, wednesday, true)).toEqual(wednesday);
+  });
+
+  it('should pick the next matching weekday', () => {
+    // Monday
+    expect(getNextRunDate('weekly', 1, wednesday)).toEqual(new Date(Date.UTC(2025, 0, 20, 10, 0, 0)));
+    // Same weekday: a week later, unless the current day is allowed
+    expect(getNextRunDate('weekly', 3, wednesday)).toEqual(new Date(Date.UTC(2025, 0, 22, 10, 0, 0)));
+    expect(getNextRunDate('weekly', 3, wednesday, true)).toEqual(wednesday);
+  });
+
+  it('should pick the next matching day of month', () => {
+    expect(getNextRunDate('monthly', 20, wednesday)).toEqual(new Date(Date.UTC(2025, 0, 20, 10, 0, 0)));
+    expect(getNextRunDate('monthly', 1, wednesday)).toEqual(new Date(Date.UTC(2025, 1, 1, 10, 0, 0)));
+    expect(getNextRunDate('monthly', null, wednesday)).toEqual(new Date(Date.UTC(2025, 1, 15, 10, 0, 0)));
+  });
+});
+
+describe('DCA end date', () => {
+  const dca = { intent: 'dca' as const, fromAsset: 'USDC', toAsset: 'ETH', amount: 50, cadence: 'daily' as const };
+  const day = (offsetDays: number) => new Date(Date.now() + offsetDays * 86400000).toISOString().slice(0, 10);
+
+  it('should accept a schedule that ends today and reject one that ended yesterday', () => {
+    expect(validateParsedCommand({ ...dca, endDate: day(0) }, '').validationErrors).not.toContain('End date is in the past');
+    expect(validateParsedCommand({ ...dca, endDate: day(-1) }, '').validationErrors).toContain('End date is in the past');
+  });
+});
+
+describe('DcaScheduler', () => {
+  let mockBot: any;
+  let scheduler: DcaScheduler;
+
+  const mockSchedule = {
+    id: 3,
+    telegramId: 123456,
+    fromAsset: 'USDC',
+    fromNetwork: 'ethereum',
+    toAsset: 'ETH',
+    toNetwork: 'ethereum',
+    amount: 50,
+    settleAddress: '0x1234567890123456789012345678901234567890',
+    cadence: 'weekly',
+    cadenceDay: 1,
+    status: 'active',
+    nextRunAt: new Date(Date.now() - 1000),
+    lastRunAt: null,
+    runCount: 2,
+    endDate: null,
+    createdAt: new Date(),
+  };
+
+  beforeEach(() => {
+    mockBot = {
+      telegram: {
+        sendMessage: jest.fn().mockResolvedValue({}),
+      },
+    };
+
+    scheduler = new DcaScheduler(mockBot as Telegraf);
+    jest.clearAllMocks();
+    (checkSwapPermission as jest.Mock).mockResolvedValue({ allowed: true, userIP: '203.0.113.5' });
+    (db.getAddressBookEntries as jest.Mock).mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+  });
+
+  it('should create a quote, order and signing link for a due schedule', async () => {
+    (db.getDueDcaSchedules as jest.Mock).mockResolvedValue([mockSchedule]);
+    (createQuote as jest.Mock).mockResolvedValue({
+      id: 'quote-1', depositAmount: '50', depositCoin: 'USDC', settleAmount: '0.015', settleCoin: 'ETH',
+    });
+    (createOrder as jest.Mock).mockResolvedValue({ id: 'order-1', depositAddress: '0xdeposit' });
+    (buildDepositPrompt as jest.Mock).mockResolvedValue({ text: 'To complete the swap, sign in your wallet.', signUrl: 'https://mini.app/?to=0xdeposit' });
+
+    await (scheduler as any).runDueSchedules();
+
+    expect(db.recordDcaRun).toHaveBeenCalledWith(3, 3, expect.any(Date));
+    expect(createQuote).toHaveBeenCalledWith('USDC', 'ethereum', 'ETH', 'ethereum', 50, '203.0.113.5');
+    expect(createOrder).toHaveBeenCalledWith('quote-1', mockSchedule.settleAddress, mockSchedule.settleAddress, '203.0.113.5');
+    expect(db.addWatchedOrder).toHaveBeenCalledWith(123456, 'order-1', 'waiting');
+    expect(mockBot.telegram.sendMessage).toHaveBeenCalledWith(
+      123456,
+      expect.stringContaining('DCA #3'),
+      expect.any(Object)
+    );
+  });
+
+  it('should complete schedules past their end date without quoting', async () => {
+    (db.getDueDcaSchedules as jest.Mock).mockResolvedValue([
+      { ...mockSchedule, endDate: new Date(Date.now() - 60000) },
+    ]);
+
+    await (scheduler as any).runDueSchedules();
+
+    expect(db.completeDcaSchedule).toHaveBeenCalledWith(3);
+    expect(createQuote).not.toHaveBeenCalled();
+  });
+
+  it('should skip the run without quoting when the region policy blocks the user', async () => {
+    (db.getDueDcaSchedules as jest.Mock).mockResolvedValue([mockSchedule]);
+    (checkSwapPermission as jest.Mock).mockResolvedValue({ allowed: false, reason: 'Swaps are not available in your region (US) on this service.' });
+
+    await (scheduler as any).runDueSchedules();
+
+    expect(createQuote).not.toHaveBeenCalled();
+    expect(mockBot.telegram.sendMessage).toHaveBeenCalledWith(
+      123456,
+      expect.stringContaining('not available in your region')
+    );
+  });
+
+  it('should still advance the schedule when quoting fails', async () => {
+    (db.getDueDcaSchedules as jest.Mock).mockResolvedValue([mockSchedule]);
+    (createQuote as jest.Mock).mockRejectedValue(new Error('Amount below minimum'));
+
+    await (scheduler as any).runDueSchedules();
+
+    expect(db.recordDcaRun).toHaveBeenCalled();
+    expect(mockBot.telegram.sendMessage).toHaveBeenCalledWith(
+      123456,
+      expect.stringContaining('Amount below minimum')
+    );
+  });
+
+  it('should not place a schedule twice when a slow run overlaps the next', async () => {
+    let resolveQuote: (quote: object) => void = () => {};
+    (db.getDueDcaSchedules as jest.Mock).mockResolvedValue([mockSchedule]);
+    (createQuote as jest.Mock).mockReturnValueOnce(new Promise(resolve => { resolveQuote = resolve; }));
+    (createOrder as jest.Mock).mockResolvedValue({ id: 'order-1', depositAddress: '0xdeposit' });
+    (buildDepositPrompt as jest.Mock).mockResolvedValue({ text: 'Sign in your wallet.', signUrl: 'https://mini.app/?to=0xdeposit' });
+
+    const slowRun = (scheduler as any).runDueSchedules();
+    await (scheduler as any).runDueSchedules();
+    resolveQuote({ id: 'quote-1', depositAmount: '50', depositCoin: 'USDC', settleAmount: '0.015', settleCoin: 'ETH' });
+    await slowRun;
+
+    expect(db.getDueDcaSchedules).toHaveBeenCalledTimes(1);
+    expect(createOrder).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { OfflineProvider, setLLMProviders } from '@swapsmith/core';
+import { parseUserCommand } from '../services/groq-client';
+import { applyCorrection, fillSlot, mergeCommands, nextSlot, slotQuestion, validateFilledCommand } from '../services/dialogue-manager';
+
+describe('Dialogue manager', () => {
+  const swap: any = {
+    success: true, intent: 'swap', fromAsset: 'ETH', fromChain: 'ethereum', toAsset: 'USDC', toChain: 'base',
+    amount: 1, amountType: 'exact', amountSide: 'deposit', settleAsset: null, settleNetwork: null, settleAmount: null,
+    settleAddress: '0x1111111111111111111111111111111111111111', originalInput: 'swap 1 ETH to USDC on base',
+  };
+
+  afterEach(() => {
+    setLLMProviders(null);
+  });
+
+  it('should ask for a missing amount and complete the command from a short reply', async () => {
+    setLLMProviders([new OfflineProvider([{
+      match: 'swap some ETH for BTC',
+      response: {
+        success: false, intent: 'swap', fromAsset: 'ETH', fromChain: 'ethereum', toAsset: 'BTC', toChain: 'bitcoin',
+        amount: null, confidence: 60, validationErrors: [], parsedMessage: '',
+      },
+    }])]);
+
+    const partial = await parseUserCommand('swap some ETH for BTC');
+    expect(partial.success).toBe(false);
+    expect(nextSlot(partial)).toBe('amount');
+    expect(slotQuestion(partial, 'amount')).toContain('How much ETH');
+
+    const filled = fillSlot(partial, 'amount', '0.5 eth')!;
+    expect(nextSlot(filled)).toBeNull();
+
+    const command = validateFilledCommand(filled);
+    expect(command.success).toBe(true);
+    expect(command).toMatchObject({ fromAsset: 'ETH', toAsset: 'BTC', amount: 0.5, amountType: 'exact' });
+  });
+
+  it('should ask for fields one at a time in priority order', () => {
+    const dca: any = { intent: 'dca', fromAsset: 'USDC', toAsset: null, amount: null, cadence: null };
+
+    expect(nextSlot(dca)).toBe('amount');
+    expect(nextSlot({ ...dca, amount: 50 })).toBe('toAsset');
+    expect(nextSlot({ ...dca, amount: 50, toAsset: 'ETH' })).toBe('cadence');
+    expect(fillSlot({ ...dca, amount: 50, toAsset: 'ETH' }, 'cadence', 'every Monday')).toMatchObject({ cadence: 'weekly', cadenceDay: 1 });
+  });
+
+  it('should read asset, condition and price replies', () => {
+    const trigger: any = { intent: 'conditional_swap', fromAsset: 'ETH', toAsset: null, amount: 1, triggerCondition: null, triggerPrice: null };
+
+    expect(fillSlot(trigger, 'toAsset', 'USDC on Arbitrum One')).toMatchObject({ toAsset: 'USDC', toChain: 'arbitrum' });
+    expect(fillSlot(trigger, 'triggerCondition', 'when it drops below $2.5k')).toMatchObject({ triggerCondition: 'below', triggerPrice: 2500 });
+    expect(fillSlot(trigger, 'triggerPrice', '$3,000')).toMatchObject({ triggerPrice: 3000 });
+    expect(fillSlot(trigger, 'toAsset', 'cancel')).toBeNull();
+    expect(fillSlot(trigger, 'toAsset', 'split it between BTC and SOL')).toBeNull();
+  });
+
+  it('should take shares of the balance only where they are supported', () => {
+    expect(fillSlot({ ...swap, amount: null }, 'amount', '50%')).toMatchObject({ amount: 50, amountType: 'percentage' });
+    expect(fillSlot({ ...swap, amount: null }, 'amount', 'all')).toMatchObject({ amount: null, amountType: 'all' });
+    expect(fillSlot({ ...swap, intent: 'dca', amount: null }, 'amount', '50%')).toBeNull();
+  });
+
+  it('should apply corrections to a command in progress', () => {
+    expect(applyCorrection(swap, 'make it 2 instead')).toMatchObject({ amount: 2, toAsset: 'USDC', settleAddress: swap.settleAddress });
+    expect(applyCorrection(swap, 'actually, 100 USDC instead')).toMatchObject({ amount: 100, amountSide: 'settle' });
+    expect(applyCorrection(swap, 'to USDT instead')).toMatchObject({ toAsset: 'USDT', toChain: null, settleAddress: null });
+    expect(applyCorrection(swap, 'from USDC on base instead')).toMatchObject({ fromAsset: 'USDC', fromChain: 'base', toAsset: 'USDC' });
+    expect(applyCorrection(swap, 'swap 2 ETH to BTC')).toBeNull();
+  });
+
+  it('should merge only the fields a follow-up parse found', () => {
+    const update: any = { intent: 'portfolio', fromAsset: null, amount: null, amountSide: 'deposit', portfolio: [{ toAsset: 'BTC', toChain: 'bitcoin', percentage: 100 }] };
+    const base: any = { intent: 'portfolio', fromAsset: 'ETH', fromChain: 'ethereum', amount: 1, amountSide: 'deposit', portfolio: [] };
+
+    expect(mergeCommands(base, update)).toMatchObject({ fromAsset: 'ETH', amount: 1, portfolio: update.portfolio });
+  });
+});
@@ -0,0 +1,70 @@
+import { completeJson, getLLMProviders, OfflineProvider, LLMProvider } from '@swapsmith/core';
+
+describe('LLM providers', () => {
+  const env = { ...process.env };
+
+  const provider = (name: string, complete: () => Promise<string>): LLMProvider => ({
+    name,
+    model: 'test',
+    complete: jest.fn(complete),
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    for (const key of ['LLM_PROVIDER', 'LLM_MODEL', 'LLM_FALLBACK', 'GROQ_API_KEY']) delete process.env[key];
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+    jest.restoreAllMocks();
+  });
+
+  it('should fall back to the offline provider without any configuration', () => {
+    const providers = getLLMProviders();
+
+    expect(providers.map(p => p.name)).toEqual(['offline']);
+  });
+
+  it('should build the chain from env', () => {
+    process.env.LLM_PROVIDER = 'openai';
+    process.env.LLM_MODEL = 'gpt-4.1-mini';
+    process.env.LLM_FALLBACK = 'groq, local,openai';
+
+    const providers = getLLMProviders();
+
+    expect(providers.map(p => p.name)).toEqual(['openai', 'groq', 'local']);
+    expect(providers[0].model).toBe('gpt-4.1-mini');
+    expect(providers[1].model).toBe('llama-3.3-70b-versatile');
+  });
+
+  it('should reject an unknown provider name', () => {
+    process.env.LLM_PROVIDER = 'claude';
+
+    expect(() => getLLMProviders()).toThrow('Unknown LLM provider "claude"');
+  });
+
+  it('should fail over on errors and malformed answers', async () => {
+    const down = provider('primary', async () => { throw new Error('503 Service Unavailable'); });
+    const garbled = provider('secondary', async () => 'Sure! Here is your JSON:');
+    const healthy = provider('tertiary', async () => '{"intent":"swap"}');
+
+    const result = await completeJson([{ role: 'user', content: 'swap' }], {}, [down, garbled, healthy]);
+
+    expect(result).toEqual({ data: { intent: 'swap' }, provider: 'tertiary' });
+    expect(down.complete).toHaveBeenCalledTimes(1);
+    expect(garbled.complete).toHaveBeenCalledTimes(1);
+  });
+
+  it('should throw the last error when every provider fails', async () => {
+    const down = provider('primary', async () => { throw new Error('timeout'); });
+
+    await expect(completeJson([{ role: 'user', content: 'swap' }], {}, [down])).rejects.toThrow('timeout');
+  });
+
+  it('should answer deterministically offline', async () => {
+    const offline = new OfflineProvider([{ match: /^swap/i, response: { intent: 'swap' } }]);
+
+    expect(await offline.complete([{ role: 'user', content: 'Swap 1 ETH' }])).toBe('{"intent":"swap"}');
+    expect(JSON.parse(await offline.complete([{ role: 'user', content: 'hello' }])).intent).toBe('unknown');
+  });
+});
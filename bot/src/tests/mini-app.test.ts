@@ -0,0 +1,74 @@
+import { ethers } from 'ethers';
+import { buildDepositInstruction, buildDepositPrompt } from '../services/mini-app';
+import { tokenResolver } from '../services/token-resolver';
+
+// Mock dependencies
+jest.mock('../services/token-resolver', () => ({
+  tokenResolver: {
+    getTokenInfo: jest.fn(),
+    isKnownNativeAsset: jest.fn(),
+  },
+}));
+
+describe('Deposit instructions', () => {
+  const order = (address: string, memo: string | null = null) => ({
+    id: 'shift-1',
+    depositAddress: memo ? { address, memo } : address,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (tokenResolver.getTokenInfo as jest.Mock).mockResolvedValue(null);
+    (tokenResolver.isKnownNativeAsset as jest.Mock).mockResolvedValue(true);
+  });
+
+  it('should encode an ERC-20 transfer with the token decimals', async () => {
+    const deposit = '0x' + '1'.repeat(40);
+    (tokenResolver.getTokenInfo as jest.Mock).mockResolvedValue({ address: '0x' + 'a'.repeat(40), decimals: 6 });
+
+    const instruction = await buildDepositInstruction(order(deposit), 12.5, 'USDC', 'polygon');
+
+    expect(instruction.kind).toBe('evm');
+    if (instruction.kind !== 'evm') return;
+    expect(instruction.chainId).toBe('137');
+    expect(instruction.to).toBe('0x' + 'a'.repeat(40));
+    const [to, amount] = new ethers.Interface(['function transfer(address to, uint256 amount)']).decodeFunctionData('transfer', instruction.data);
+    expect(to.toLowerCase()).toBe(deposit);
+    expect(amount).toBe(12500000n);
+  });
+
+  it('should send native EVM value without float artifacts', async () => {
+    const instruction = await buildDepositInstruction(order('0x' + '1'.repeat(40)), 0.1, 'ETH', 'arbitrum');
+
+    expect(instruction.kind).toBe('evm');
+    if (instruction.kind !== 'evm') return;
+    expect(BigInt(instruction.value)).toBe(ethers.parseEther('0.1'));
+    expect(instruction.signUrl).toContain('chainId=42161');
+  });
+
+  it('should build payment URIs for non-EVM chains', async () => {
+    const btc = await buildDepositInstruction(order('bc1qdeposit'), 0.00123456789, 'BTC', 'bitcoin');
+    expect(btc).toMatchObject({ kind: 'uri', uri: 'bitcoin:bc1qdeposit?amount=0.00123457' });
+
+    const xrp = await buildDepositInstruction(order('rDeposit', '12345'), 25, 'XRP', 'ripple');
+    expect(xrp).toMatchObject({ kind: 'uri', uri: 'ripple:rDeposit?amount=25&dt=12345', memo: '12345' });
+
+    (tokenResolver.getTokenInfo as jest.Mock).mockResolvedValue({ address: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', decimals: 6 });
+    const spl = await buildDepositInstruction(order('SoLDeposit'), 10, 'USDC', 'solana');
+    expect(spl).toMatchObject({ kind: 'uri', uri: 'solana:SoLDeposit?amount=10&spl-token=EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v' });
+  });
+
+  it('should refuse chains it cannot pay and assets it does not know', async () => {
+    await expect(buildDepositInstruction(order('TDeposit'), 5, 'TRX', 'tron')).rejects.toThrow("can't be signed through the Mini App");
+
+    (tokenResolver.isKnownNativeAsset as jest.Mock).mockResolvedValue(false);
+    await expect(buildDepositInstruction(order('0x' + '1'.repeat(40)), 5, 'FOO', 'ethereum')).rejects.toThrow("isn't a known SideShift asset");
+  });
+
+  it('should fall back to manual instructions in the deposit prompt', async () => {
+    const prompt = await buildDepositPrompt(order('TDeposit'), 5, 'TRX', 'tron');
+
+    expect(prompt.signUrl).toBeNull();
+    expect(prompt.text).toContain('TDeposit');
+  });
+});
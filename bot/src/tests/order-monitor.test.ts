@@ -1,4 +1,4 @@
-import { OrderMonitor } from '../services/order-monitor';
+import { OrderMonitor, getCheckInterval } from '../services/order-monitor';
 import * as db from '../services/database';
 import { getOrderStatus } from '../services/sideshift-client';
 import { Telegraf } from 'telegraf';
@@ -35,7 +35,7 @@ describe('OrderMonitor', () => {
         telegramId: 123456,
         sideshiftOrderId: 'test-order-123',
         lastStatus: 'pending',
-        lastChecked: new Date(),
+        lastChecked: new Date(Date.now() - 5 * 60 * 1000),
         createdAt: new Date(),
       };
 
@@ -86,7 +86,7 @@ describe('OrderMonitor', () => {
         telegramId: 123456,
         sideshiftOrderId: 'test-order-123',
         lastStatus: 'pending',
-        lastChecked: new Date(),
+        lastChecked: new Date(Date.now() - 5 * 60 * 1000),
         createdAt: new Date(),
       };
 
@@ -126,7 +126,7 @@ describe('OrderMonitor', () => {
         telegramId: 123456,
         sideshiftOrderId: 'test-order-123',
         lastStatus: 'pending',
-        lastChecked: new Date(),
+        lastChecked: new Date(Date.now() - 5 * 60 * 1000),
         createdAt: new Date(),
       };
 
@@ -166,13 +166,94 @@ describe('OrderMonitor', () => {
       expect(db.removeWatchedOrder).toHaveBeenCalledWith('test-order-123');
     });
 
+    it('should stop watching expired orders and suggest a new quote', async () => {
+      const mockWatchedOrder = {
+        id: 1,
+        telegramId: 123456,
+        sideshiftOrderId: 'test-order-123',
+        lastStatus: 'waiting',
+        lastChecked: new Date(Date.now() - 5 * 60 * 1000),
+        createdAt: new Date(),
+      };
+
+      (db.getAllWatchedOrders as jest.Mock).mockResolvedValue([mockWatchedOrder]);
+      (getOrderStatus as jest.Mock).mockResolvedValue({
+        id: 'test-order-123',
+        status: 'expired',
+        depositCoin: 'ETH',
+        depositNetwork: 'ethereum',
+        settleCoin: 'USDC',
+        settleNetwork: 'polygon',
+      });
+
+      await (orderMonitor as any).checkOrders();
+
+      expect(db.updateOrderStatus).toHaveBeenCalledWith('test-order-123', 'expired');
+      expect(mockBot.telegram.sendMessage).toHaveBeenCalledWith(
+        123456,
+        expect.stringContaining('fresh quote'),
+        expect.any(Object)
+      );
+      expect(db.removeWatchedOrder).toHaveBeenCalledWith('test-order-123');
+    });
+
+    it('should ask for a refund address while an order is in review', async () => {
+      const mockWatchedOrder = {
+        id: 1,
+        telegramId: 123456,
+        sideshiftOrderId: 'test-order-123',
+        lastStatus: 'processing',
+        lastChecked: new Date(Date.now() - 5 * 60 * 1000),
+        createdAt: new Date(),
+      };
+
+      (db.getAllWatchedOrders as jest.Mock).mockResolvedValue([mockWatchedOrder]);
+      (getOrderStatus as jest.Mock).mockResolvedValue({
+        id: 'test-order-123',
+        status: 'review',
+        depositCoin: 'ETH',
+        depositNetwork: 'ethereum',
+        settleCoin: 'USDC',
+        settleNetwork: 'polygon',
+      });
+
+      await (orderMonitor as any).checkOrders();
+
+      expect(mockBot.telegram.sendMessage).toHaveBeenCalledWith(
+        123456,
+        expect.stringContaining('refund address'),
+        expect.any(Object)
+      );
+      expect(db.removeWatchedOrder).not.toHaveBeenCalled();
+    });
+
+    it('should keep watching when SideShift reports an unknown status', async () => {
+      const mockWatchedOrder = {
+        id: 1,
+        telegramId: 123456,
+        sideshiftOrderId: 'test-order-123',
+        lastStatus: 'waiting',
+        lastChecked: new Date(Date.now() - 5 * 60 * 1000),
+        createdAt: new Date(),
+      };
+
+      (db.getAllWatchedOrders as jest.Mock).mockResolvedValue([mockWatchedOrder]);
+      (getOrderStatus as jest.Mock).mockResolvedValue({ id: 'test-order-123', status: 'teleporting' });
+
+      await (orderMonitor as any).checkOrders();
+
+      expect(db.updateOrderStatus).not.toHaveBeenCalled();
+      expect(mockBot.telegram.sendMessage).not.toHaveBeenCalled();
+      expect(db.removeWatchedOrder).not.toHaveBeenCalled();
+    });
+
     it('should remove order from watch list if not found', async () => {
       const mockWatchedOrder = {
         id: 1,
         telegramId: 123456,
         sideshiftOrderId: 'test-order-123',
         lastStatus: 'pending',
-        lastChecked: new Date(),
+        lastChecked: new Date(Date.now() - 5 * 60 * 1000),
         createdAt: new Date(),
       };
 
@@ -187,6 +268,141 @@ describe('OrderMonitor', () => {
     });
   });
 
+  describe('Scheduling', () => {
+    const makeWatch = (overrides: Partial<db.WatchedOrder> = {}): db.WatchedOrder => ({
+      id: 1,
+      telegramId: 123456,
+      sideshiftOrderId: 'test-order-123',
+      provider: 'sideshift',
+      lastStatus: 'pending',
+      lastChecked: new Date(Date.now() - 5 * 60 * 1000),
+      createdAt: new Date(),
+      ...overrides,
+    });
+
+    it('should back off per status', () => {
+      const now = new Date();
+      const twoHoursAgo = new Date(now.getTime() - 2 * 60 * 60 * 1000);
+
+      expect(getCheckInterval(makeWatch({ lastStatus: 'pending' }), now)).toBe(15000);
+      expect(getCheckInterval(makeWatch({ lastStatus: 'processing', createdAt: twoHoursAgo }), now)).toBe(15000);
+      expect(getCheckInterval(makeWatch({ lastStatus: 'waiting' }), now)).toBe(60000);
+      expect(getCheckInterval(makeWatch({ lastStatus: 'waiting', createdAt: twoHoursAgo }), now)).toBe(10 * 60 * 1000);
+      expect(getCheckInterval(makeWatch({ lastStatus: 'pending' }), now, true)).toBe(10 * 60 * 1000);
+    });
+
+    it('should skip orders that are not due yet', async () => {
+      (db.getAllWatchedOrders as jest.Mock).mockResolvedValue([
+        makeWatch({ lastChecked: new Date(Date.now() - 10 * 1000) }),
+      ]);
+
+      await (orderMonitor as any).checkOrders();
+
+      expect(getOrderStatus).not.toHaveBeenCalled();
+    });
+
+    it('should check due orders with bounded concurrency', async () => {
+      const monitor = new OrderMonitor(mockBot as Telegraf, { concurrency: 3 });
+      const watches = Array.from({ length: 10 }, (_, i) => makeWatch({ id: i, sideshiftOrderId: `order-${i}` }));
+      (db.getAllWatchedOrders as jest.Mock).mockResolvedValue(watches);
+
+      let active = 0;
+      let maxActive = 0;
+      (getOrderStatus as jest.Mock).mockImplementation(async (id: string) => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        active--;
+        return { id, status: 'pending' };
+      });
+
+      await (monitor as any).checkOrders();
+
+      expect(getOrderStatus).toHaveBeenCalledTimes(10);
+      expect(maxActive).toBe(3);
+    });
+
+    it('should not start a cycle while the previous one is running', async () => {
+      let release: () => void = () => {};
+      (db.getAllWatchedOrders as jest.Mock).mockReturnValue(new Promise(resolve => {
+        release = () => resolve([]);
+      }));
+
+      const first = (orderMonitor as any).checkOrders();
+      await (orderMonitor as any).checkOrders();
+      release();
+      await first;
+
+      expect(db.getAllWatchedOrders).toHaveBeenCalledTimes(1);
+    });
+
+    it('should drop watches older than the maximum age', async () => {
+      const monitor = new OrderMonitor(mockBot as Telegraf, { maxWatchAgeMs: 24 * 60 * 60 * 1000 });
+      (db.getAllWatchedOrders as jest.Mock).mockResolvedValue([
+        makeWatch({ createdAt: new Date(Date.now() - 25 * 60 * 60 * 1000) }),
+      ]);
+
+      await (monitor as any).checkOrders();
+
+      expect(db.removeWatchedOrder).toHaveBeenCalledWith('test-order-123');
+      expect(getOrderStatus).not.toHaveBeenCalled();
+      expect(mockBot.telegram.sendMessage).toHaveBeenCalledWith(
+        123456,
+        expect.stringContaining('Stopped watching'),
+        expect.any(Object)
+      );
+    });
+  });
+
+  describe('Webhook Notifications', () => {
+    it('should re-fetch the status and notify for a watched order', async () => {
+      (db.getWatchedOrder as jest.Mock).mockResolvedValue({
+        id: 1,
+        telegramId: 123456,
+        sideshiftOrderId: 'test-order-123',
+        lastStatus: 'waiting',
+        lastChecked: new Date(),
+        createdAt: new Date(),
+      });
+      (getOrderStatus as jest.Mock).mockResolvedValue({ id: 'test-order-123', status: 'processing' });
+
+      await expect(orderMonitor.handleStatusNotification('test-order-123')).resolves.toBe('processed');
+
+      expect(getOrderStatus).toHaveBeenCalledWith('test-order-123');
+      expect(db.updateWatchedOrderStatus).toHaveBeenCalledWith('test-order-123', 'processing');
+      expect(mockBot.telegram.sendMessage).toHaveBeenCalledWith(
+        123456,
+        expect.stringContaining('being processed'),
+        expect.any(Object)
+      );
+    });
+
+    it('should report a notification it could not apply', async () => {
+      (db.getWatchedOrder as jest.Mock).mockResolvedValue({
+        id: 1,
+        telegramId: 123456,
+        sideshiftOrderId: 'test-order-123',
+        lastStatus: 'waiting',
+        lastChecked: new Date(),
+        createdAt: new Date(),
+      });
+      (getOrderStatus as jest.Mock).mockRejectedValue(new Error('Failed to get order status'));
+
+      await expect(orderMonitor.handleStatusNotification('test-order-123')).resolves.toBe('failed');
+      expect(db.updateWatchedOrderStatus).not.toHaveBeenCalled();
+    });
+
+    it('should only update order history for unwatched orders', async () => {
+      (db.getWatchedOrder as jest.Mock).mockResolvedValue(undefined);
+      (getOrderStatus as jest.Mock).mockResolvedValue({ id: 'test-order-123', status: 'settled' });
+
+      await orderMonitor.handleStatusNotification('test-order-123');
+
+      expect(db.updateOrderStatus).toHaveBeenCalledWith('test-order-123', 'settled');
+      expect(mockBot.telegram.sendMessage).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Monitor Lifecycle', () => {
     it('should start and stop monitoring', () => {
       const consoleSpy = jest.spyOn(console, 'log').mockImplementation();
@@ -0,0 +1,59 @@
+import { canTransition, describeOrderStatus, isTerminalStatus, parseOrderStatus, ORDER_STATUSES } from '../services/order-status';
+
+describe('Order status state machine', () => {
+  const order = {
+    id: 'shift-1',
+    status: 'waiting',
+    depositCoin: 'ETH',
+    depositNetwork: 'ethereum',
+    settleCoin: 'USDC',
+    settleNetwork: 'polygon',
+    depositAddress: { address: '0xabc', memo: null },
+    settleAddress: { address: '0xdef', memo: null },
+    depositAmount: '1.0',
+    settleAmount: null,
+    depositHash: null,
+    settleHash: null,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+  };
+
+  it('should parse SideShift statuses case-insensitively', () => {
+    expect(parseOrderStatus('SETTLED')).toBe('settled');
+    expect(parseOrderStatus('teleporting')).toBeNull();
+    expect(parseOrderStatus(undefined)).toBeNull();
+  });
+
+  it('should treat settled, refunded, expired and failed as final', () => {
+    const terminal = ORDER_STATUSES.filter(isTerminalStatus);
+    expect(terminal.sort()).toEqual(['expired', 'failed', 'refunded', 'settled']);
+  });
+
+  it('should allow transitions skipped between polls', () => {
+    expect(canTransition('waiting', 'settled')).toBe(true);
+    expect(canTransition('review', 'refunded')).toBe(true);
+    expect(canTransition('settled', 'processing')).toBe(false);
+    expect(canTransition('expired', 'pending')).toBe(false);
+    expect(canTransition('processing', 'failed')).toBe(true);
+  });
+
+  it('should give next-step guidance for every status', () => {
+    for (const status of ORDER_STATUSES) {
+      const { title, guidance } = describeOrderStatus(status, { ...order, status });
+      expect(title).toBeTruthy();
+      expect(guidance).toBeTruthy();
+    }
+    expect(describeOrderStatus('review', order).guidance).toContain('https://sideshift.ai/orders/shift-1');
+  });
+
+  it('should only point failed LI.FI transactions at the LI.FI explorer', () => {
+    const txHash = `0x${'a'.repeat(64)}`;
+    expect(describeOrderStatus('failed', { ...order, id: txHash }).guidance).toContain(`https://scan.li.fi/tx/${txHash}`);
+
+    // An abandoned portfolio leg is a SideShift order
+    const abandoned = describeOrderStatus('failed', { ...order, status: 'failed' }, 'sideshift');
+    expect(abandoned.title).toContain('cancelled');
+    expect(abandoned.guidance).not.toContain('li.fi');
+    expect(abandoned.guidance).toContain('https://sideshift.ai/orders/shift-1');
+  });
+});
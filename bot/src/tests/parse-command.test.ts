@@ -1,71 +1,60 @@
-import { describe, it, expect, jest } from '@jest/globals';
+import { describe, it, expect, afterEach, jest } from '@jest/globals';
+import { OfflineProvider, setLLMProviders, LLMProvider } from '@swapsmith/core';
 import { parseUserCommand } from '../services/groq-client';
 
-jest.mock('groq-sdk', () => {
-  return {
-    __esModule: true,
-    default: jest.fn().mockImplementation(() => ({
-      chat: {
-        completions: {
-          // Fix: Cast jest.fn() itself to 'any' so it accepts a return value
-          create: (jest.fn() as any).mockResolvedValue({
-            choices: [{
-              message: {
-                content: JSON.stringify({
-                  success: true,
-                  intent: 'swap',
-                  fromAsset: 'ETH',
-                  fromChain: 'ethereum',
-                  toAsset: 'BTC',
-                  toChain: 'bitcoin',
-                  amount: 1,
-                  confidence: 95,
-                  validationErrors: [],
-                  parsedMessage: 'Swap 1 ETH to BTC'
-                })
-              }
-            }]
-          })
-        }
-      }
-    }))
-  };
-});
+// Script the model's answer for one input; no network involved
+function respondWith(input: string, response: Record<string, unknown>) {
+  setLLMProviders([new OfflineProvider([{ match: input, response }])]);
+}
 
 describe('parseUserCommand', () => {
-  it('should parse a clear swap command', async () => {
+  afterEach(() => {
+    setLLMProviders(null);
+  });
+
+  it('should parse a clear swap command without calling the LLM', async () => {
+    const llm: LLMProvider = { name: 'spy', model: 'test', complete: jest.fn(async () => '{}') };
+    setLLMProviders([llm]);
+
     const result = await parseUserCommand('swap 1 ETH to BTC');
     expect(result.success).toBe(true);
     expect(result.intent).toBe('swap');
     expect(result.fromAsset).toBe('ETH');
     expect(result.toAsset).toBe('BTC');
+    expect(llm.complete).not.toHaveBeenCalled();
+  });
+
+  it('should hand commands the grammar does not cover to the LLM', async () => {
+    respondWith('swap 1 ETH to BTC if ETH goes above 3000', {
+      success: true,
+      intent: 'conditional_swap',
+      fromAsset: 'ETH',
+      fromChain: 'ethereum',
+      toAsset: 'BTC',
+      toChain: 'bitcoin',
+      amount: 1,
+      triggerCondition: 'above',
+      triggerPrice: 3000,
+      confidence: 90,
+      validationErrors: [],
+      parsedMessage: 'When ETH goes above $3000, swap 1 ETH to BTC'
+    });
+
+    const result = await parseUserCommand('swap 1 ETH to BTC if ETH goes above 3000');
+    expect(result.intent).toBe('conditional_swap');
+    expect(result.triggerPrice).toBe(3000);
   });
 
   it('should handle ambiguous command with low confidence', async () => {
-    const mockGroq = require('groq-sdk') as any;
-    
-    mockGroq.default.mockImplementation(() => ({
-      chat: {
-        completions: {
-          // Fix applied here as well
-          create: (jest.fn() as any).mockResolvedValue({
-            choices: [{
-              message: {
-                content: JSON.stringify({
-                  success: false,
-                  intent: 'swap',
-                  fromAsset: 'ETH',
-                  toAsset: null,
-                  confidence: 20,
-                  validationErrors: ['Command is ambiguous.'],
-                  parsedMessage: ''
-                })
-              }
-            }]
-          })
-        }
-      }
-    }));
+    respondWith('swap 1 ETH to BTC or USDC', {
+      success: false,
+      intent: 'swap',
+      fromAsset: 'ETH',
+      toAsset: null,
+      confidence: 20,
+      validationErrors: ['Command is ambiguous.'],
+      parsedMessage: ''
+    });
 
     const result = await parseUserCommand('swap 1 ETH to BTC or USDC');
     expect(result.success).toBe(false);
@@ -73,38 +62,90 @@ describe('parseUserCommand', () => {
   });
 
   it('should parse portfolio allocation correctly', async () => {
-    const mockGroq = require('groq-sdk') as any;
-    mockGroq.default.mockImplementation(() => ({
-      chat: {
-        completions: {
-          // Fix applied here as well
-          create: (jest.fn() as any).mockResolvedValue({
-            choices: [{
-              message: {
-                content: JSON.stringify({
-                  success: true,
-                  intent: 'portfolio',
-                  fromAsset: 'ETH',
-                  fromChain: 'base',
-                  amount: 1,
-                  portfolio: [
-                    { toAsset: 'USDC', toChain: 'arbitrum', percentage: 50 },
-                    { toAsset: 'SOL', toChain: 'solana', percentage: 50 }
-                  ],
-                  confidence: 95,
-                  validationErrors: [],
-                  parsedMessage: 'Split 1 ETH'
-                })
-              }
-            }]
-          })
-        }
-      }
-    }));
+    respondWith('split 1 ETH', {
+      success: true,
+      intent: 'portfolio',
+      fromAsset: 'ETH',
+      fromChain: 'base',
+      amount: 1,
+      portfolio: [
+        { toAsset: 'USDC', toChain: 'arbitrum', percentage: 50 },
+        { toAsset: 'SOL', toChain: 'solana', percentage: 50 }
+      ],
+      confidence: 95,
+      validationErrors: [],
+      parsedMessage: 'Split 1 ETH'
+    });
 
     const result = await parseUserCommand('split 1 ETH');
     expect(result.success).toBe(true);
     expect(result.intent).toBe('portfolio');
     expect(result.portfolio).toHaveLength(2);
   });
-});
\ No newline at end of file
+
+  it('should report a typed failure when no provider answers', async () => {
+    setLLMProviders([]);
+
+    const result = await parseUserCommand('swap my ETH to BTC');
+    expect(result.success).toBe(false);
+    expect(result.failure?.kind).toBe('llm_unavailable');
+    expect(result.validationErrors[0]).toContain("can't reach the language model");
+  });
+
+  it('should coerce loosely typed output', async () => {
+    respondWith('swap a thousand USDC to ETH on arb', {
+      success: 'true',
+      intent: 'swap',
+      fromAsset: 'usdc',
+      fromChain: 'Ethereum Mainnet',
+      toAsset: 'eth',
+      toChain: 'Arbitrum One',
+      amount: '1,000',
+      confidence: '0.9',
+      validationErrors: null,
+      parsedMessage: 'Swap 1000 USDC to ETH'
+    });
+
+    const result = await parseUserCommand('swap a thousand USDC to ETH on arb');
+    expect(result).toMatchObject({
+      success: true, amount: 1000, fromAsset: 'USDC', fromChain: 'ethereum', toAsset: 'ETH', toChain: 'arbitrum', confidence: 90,
+    });
+  });
+
+  it('should accept a share of the balance for swaps', async () => {
+    respondWith('swap half my USDC on base to ETH', {
+      success: true, intent: 'swap', fromAsset: 'USDC', fromChain: 'base', toAsset: 'ETH', toChain: 'ethereum',
+      amount: 50, amountType: 'percentage', confidence: 95, validationErrors: [], parsedMessage: 'Swap half of your USDC to ETH'
+    });
+
+    const result = await parseUserCommand('swap half my USDC on base to ETH');
+    expect(result).toMatchObject({ success: true, amount: 50, amountType: 'percentage' });
+  });
+
+  it('should re-prompt once with the schema issues', async () => {
+    const complete = jest.fn<LLMProvider['complete']>()
+      .mockResolvedValueOnce(JSON.stringify({ intent: 'swap', fromAsset: 'ETH', toAsset: 'BTC', amount: 'half', confidence: 90 }))
+      .mockResolvedValueOnce(JSON.stringify({ intent: 'swap', fromAsset: 'ETH', toAsset: 'BTC', amount: 0.5, confidence: 90 }));
+    setLLMProviders([{ name: 'scripted', model: 'test', complete }]);
+
+    const result = await parseUserCommand('swap half an ETH to BTC');
+
+    expect(complete).toHaveBeenCalledTimes(2);
+    const retryMessages = complete.mock.calls[1][0];
+    expect(retryMessages[retryMessages.length - 1].content).toContain('amount:');
+    expect(result.success).toBe(true);
+    expect(result.amount).toBe(0.5);
+  });
+
+  it('should give up with a typed failure when the repair is still invalid', async () => {
+    const complete = jest.fn<LLMProvider['complete']>()
+      .mockResolvedValue(JSON.stringify({ intent: 'swap', amount: 'half', confidence: 90 }));
+    setLLMProviders([{ name: 'scripted', model: 'test', complete }]);
+
+    const result = await parseUserCommand('swap half an ETH to BTC');
+
+    expect(complete).toHaveBeenCalledTimes(2);
+    expect(result.success).toBe(false);
+    expect(result.failure).toEqual({ kind: 'invalid_output', issues: [expect.stringContaining('amount:')] });
+  });
+});
@@ -0,0 +1,79 @@
+import { placePortfolioBatch, summarizePortfolioLegs, describePortfolioBatch, PortfolioQuote } from '../services/portfolio-batch';
+import * as db from '../services/database';
+import { createOrder } from '../services/sideshift-client';
+
+// Mock dependencies
+jest.mock('../services/database');
+jest.mock('../services/sideshift-client');
+
+describe('Portfolio batches', () => {
+  const parsedCommand: any = {
+    intent: 'portfolio',
+    fromAsset: 'ETH',
+    fromChain: 'ethereum',
+    amount: 1,
+    settleAddress: '0xsettle',
+    refundAddress: '0xrefund',
+  };
+
+  const quotes: PortfolioQuote[] = ['USDC', 'WBTC', 'SOL'].map((toAsset, i) => ({
+    quoteId: `quote-${i}`,
+    allocation: { toAsset, toChain: 'ethereum', percentage: 33 },
+    swapAmount: 0.33,
+    depositAmount: '0.33',
+    settleAmount: '100',
+  }));
+
+  const batch = { id: 7, telegramId: 123456, fromAsset: 'ETH', fromNetwork: 'ethereum', amount: 1, status: 'placing', createdAt: new Date() };
+  const leg = (status: string) => ({ status } as db.Order);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (db.createPortfolioBatch as jest.Mock).mockResolvedValue(batch);
+    (db.getBatchOrders as jest.Mock).mockResolvedValue([]);
+  });
+
+  it('should place every leg under the batch', async () => {
+    (createOrder as jest.Mock).mockImplementation(async (quoteId: string) => ({ id: `order-${quoteId}` }));
+
+    const placed = await placePortfolioBatch(123456, parsedCommand, quotes, '203.0.113.5');
+
+    expect(createOrder).toHaveBeenCalledTimes(3);
+    expect(createOrder).toHaveBeenCalledWith('quote-0', '0xsettle', '0xrefund', '203.0.113.5');
+    expect(db.createOrderEntry).toHaveBeenCalledWith(
+      123456, expect.objectContaining({ toAsset: 'WBTC', amount: 0.33, refundAddress: '0xrefund' }), { id: 'order-quote-1' }, '100', 'quote-1', 'fixed', 7
+    );
+    expect(db.addWatchedOrder).toHaveBeenCalledTimes(3);
+    expect(db.setPortfolioBatchStatus).toHaveBeenCalledWith(7, 'placed');
+    expect(placed.batch.status).toBe('placed');
+  });
+
+  it('should abandon the created legs when a later leg fails', async () => {
+    (createOrder as jest.Mock)
+      .mockResolvedValueOnce({ id: 'order-0' })
+      .mockResolvedValueOnce({ id: 'order-1' })
+      .mockRejectedValueOnce(new Error('Amount too low'));
+
+    await expect(placePortfolioBatch(123456, parsedCommand, quotes)).rejects.toThrow('SOL: Amount too low');
+
+    expect(db.removeWatchedOrder).toHaveBeenCalledWith('order-0');
+    expect(db.removeWatchedOrder).toHaveBeenCalledWith('order-1');
+    expect(db.updateOrderStatus).toHaveBeenCalledWith('order-0', 'failed');
+    expect(db.updateOrderStatus).toHaveBeenCalledWith('order-1', 'failed');
+    expect(db.setPortfolioBatchStatus).toHaveBeenCalledWith(7, 'abandoned');
+    expect(db.setPortfolioBatchStatus).not.toHaveBeenCalledWith(7, 'placed');
+  });
+
+  it('should aggregate leg states', () => {
+    const summary = summarizePortfolioLegs([leg('waiting'), leg('processing'), leg('settled'), leg('expired')]);
+
+    expect(summary).toEqual({ total: 4, awaitingDeposit: 1, inProgress: 1, settled: 1, failed: 1 });
+    expect(describePortfolioBatch({ ...batch, status: 'placed' }, summary)).toContain('Partially funded (2/4 legs)');
+    expect(describePortfolioBatch({ ...batch, status: 'abandoned' }, summary)).toContain('do not send funds');
+  });
+
+  it('should report a batch complete once every leg settles', () => {
+    const summary = summarizePortfolioLegs([leg('settled'), leg('settled')]);
+    expect(describePortfolioBatch({ ...batch, status: 'placed' }, summary)).toBe('✅ Complete');
+  });
+});
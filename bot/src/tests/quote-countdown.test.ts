@@ -0,0 +1,75 @@
+import { Markup } from 'telegraf';
+import { QuoteCountdown, describeRateChange, formatTimeRemaining, isQuoteExpired } from '../services/quote-countdown';
+import * as db from '../services/database';
+
+jest.mock('../services/database');
+
+describe('Quote countdown', () => {
+  const userId = 42;
+  const now = new Date('2026-01-01T12:00:00Z').getTime();
+  const expiry = new Date(now + 2.5 * 60000).toISOString();
+  const message = {
+    chatId: 100,
+    messageId: 7,
+    body: '➡️ *Send:* `1 ETH`\n',
+    keyboard: Markup.inlineKeyboard([Markup.button.callback('✅ Place Order', 'place_order')]),
+  };
+
+  let bot: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now });
+    bot = { telegram: { editMessageText: jest.fn().mockResolvedValue(true) } };
+    (db.getConversationState as jest.Mock).mockResolvedValue({ quoteId: 'q1' });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should format the time left and detect expiry', () => {
+    expect(formatTimeRemaining(expiry, now)).toBe('3 min');
+    expect(formatTimeRemaining(expiry, now + 2 * 60000 + 15000)).toBe('15 s');
+    expect(isQuoteExpired(expiry, now)).toBe(false);
+    expect(isQuoteExpired(expiry, now + 3 * 60000)).toBe(true);
+    expect(isQuoteExpired(null, now)).toBe(false);
+  });
+
+  it('should describe how the rate moved', () => {
+    expect(describeRateChange('2000', '2010')).toBe('▲ 0.50% vs last quote');
+    expect(describeRateChange('2000', '1990')).toBe('▼ 0.50% vs last quote');
+    expect(describeRateChange('2000', '2000')).toBe('unchanged vs last quote');
+  });
+
+  it('should count down and offer a refresh once the quote lapses', async () => {
+    const countdown = new QuoteCountdown(bot);
+    countdown.start(userId, 'q1', expiry, message);
+
+    await jest.advanceTimersByTimeAsync(60000);
+    expect(bot.telegram.editMessageText).toHaveBeenLastCalledWith(100, 7, undefined, expect.stringContaining('*Expires in:* 2 min'), expect.anything());
+
+    await jest.advanceTimersByTimeAsync(90000);
+    const [, , , text, extra] = bot.telegram.editMessageText.mock.calls.at(-1);
+    expect(text).toContain('Quote expired');
+    expect(JSON.stringify(extra.reply_markup)).toContain('refresh_quote');
+
+    const edits = bot.telegram.editMessageText.mock.calls.length;
+    await jest.advanceTimersByTimeAsync(5 * 60000);
+    expect(bot.telegram.editMessageText).toHaveBeenCalledTimes(edits);
+  });
+
+  it('should stop once the conversation moves past the quote', async () => {
+    (db.getConversationState as jest.Mock).mockResolvedValue({ quoteId: 'q2' });
+    const countdown = new QuoteCountdown(bot);
+    countdown.start(userId, 'q1', expiry, message);
+
+    await jest.advanceTimersByTimeAsync(5 * 60000);
+    expect(bot.telegram.editMessageText).not.toHaveBeenCalled();
+
+    countdown.start(userId, 'q2', expiry, message);
+    countdown.stop(userId);
+    await jest.advanceTimersByTimeAsync(5 * 60000);
+    expect(bot.telegram.editMessageText).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,43 @@
+import { checkQuoteRate, compareToReferenceRate } from '@swapsmith/core';
+import { checkUserQuoteRate, describeRateDeviation, DEFAULT_MAX_RATE_DEVIATION } from '../services/rate-guard';
+import * as db from '../services/database';
+
+jest.mock('../services/database');
+jest.mock('@swapsmith/core', () => ({
+  ...jest.requireActual('@swapsmith/core'),
+  checkQuoteRate: jest.fn(),
+}));
+
+describe('Rate guard', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should measure how far a quote is below the market rate', () => {
+    // ETH at $2,000 and USDC at $1: the market rate is 2000 USDC per ETH
+    const check = compareToReferenceRate(1970, 2000, 1);
+    expect(check.referenceRate).toBe(2000);
+    expect(check.deviation).toBeCloseTo(1.5);
+    expect(check.exceedsLimit).toBe(false);
+    expect(describeRateDeviation(check)).toBe(`1.50% below market (limit ${DEFAULT_MAX_RATE_DEVIATION}%)`);
+
+    expect(compareToReferenceRate(1900, 2000, 1).exceedsLimit).toBe(true);
+    expect(compareToReferenceRate(1990, 2000, 1, 0.25).exceedsLimit).toBe(true);
+    expect(describeRateDeviation(compareToReferenceRate(2010, 2000, 1))).toBe(`0.50% above market (limit ${DEFAULT_MAX_RATE_DEVIATION}%)`);
+  });
+
+  it('should apply the user\'s slippage limit, or the default', async () => {
+    (db.getUser as jest.Mock).mockResolvedValue({ telegramId: 42, maxRateDeviation: 0.5 });
+    await checkUserQuoteRate(42, 'ETH', 'USDC', '1970');
+    expect(checkQuoteRate).toHaveBeenLastCalledWith('ETH', 'USDC', '1970', 0.5);
+
+    (db.getUser as jest.Mock).mockResolvedValue(undefined);
+    await checkUserQuoteRate(42, 'ETH', 'USDC', '1970');
+    expect(checkQuoteRate).toHaveBeenLastCalledWith('ETH', 'USDC', '1970', DEFAULT_MAX_RATE_DEVIATION);
+  });
+
+  it('should not check coins without a market price', async () => {
+    const { checkQuoteRate: actualCheck } = jest.requireActual('@swapsmith/core');
+    await expect(actualCheck('NOTACOIN', 'USDC', '1')).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,68 @@
+import { canRefundToPayoutAddress, findRefundAddress, getRefundAddress } from '../services/refund-address';
+import { isValidAddress } from '../services/address-resolver';
+import * as db from '../services/database';
+
+jest.mock('../services/database');
+
+describe('Refund address', () => {
+  const telegramId = 42;
+  const evmAddress = '0x1111111111111111111111111111111111111111';
+  const linkedWallet = '0x2222222222222222222222222222222222222222';
+  const btcAddress = 'bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq';
+
+  const entry = (nickname: string, address: string, chain: string) => ({ id: 1, telegramId, nickname, address, chain, createdAt: new Date() });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (db.getUser as jest.Mock).mockResolvedValue({ telegramId, walletAddress: null });
+    (db.getAddressBookEntries as jest.Mock).mockResolvedValue([]);
+  });
+
+  it('should prefer the linked wallet on EVM networks', async () => {
+    (db.getUser as jest.Mock).mockResolvedValue({ telegramId, walletAddress: linkedWallet });
+    (db.getAddressBookEntries as jest.Mock).mockResolvedValue([entry('main', evmAddress, 'base')]);
+
+    await expect(findRefundAddress(telegramId, 'base')).resolves.toEqual({ address: linkedWallet, source: 'linked_wallet' });
+  });
+
+  it('should fall back to a saved address on the deposit network', async () => {
+    (db.getUser as jest.Mock).mockResolvedValue({ telegramId, walletAddress: linkedWallet });
+    (db.getAddressBookEntries as jest.Mock).mockResolvedValue([
+      entry('cold', evmAddress, 'ethereum'),
+      entry('btc', btcAddress, 'BTC'),
+    ]);
+
+    await expect(findRefundAddress(telegramId, 'bitcoin')).resolves.toEqual({ address: btcAddress, source: 'address_book', nickname: 'btc' });
+  });
+
+  it('should match address book chains by alias and skip invalid entries', async () => {
+    (db.getAddressBookEntries as jest.Mock).mockResolvedValue([
+      entry('typo', '0x123', 'avalanche'),
+      entry('avax', evmAddress, 'Avalanche'),
+    ]);
+
+    await expect(findRefundAddress(telegramId, 'avax')).resolves.toMatchObject({ address: evmAddress, nickname: 'avax' });
+    await expect(findRefundAddress(telegramId, 'solana')).resolves.toBeNull();
+  });
+
+  it('should keep an address the user gave or skipped', async () => {
+    (db.getUser as jest.Mock).mockResolvedValue({ telegramId, walletAddress: linkedWallet });
+
+    await expect(getRefundAddress(telegramId, { fromChain: 'base', refundAddress: evmAddress })).resolves.toBe(evmAddress);
+    await expect(getRefundAddress(telegramId, { fromChain: 'base', refundAddress: null })).resolves.toBeNull();
+    await expect(getRefundAddress(telegramId, { fromChain: 'base' })).resolves.toBe(linkedWallet);
+  });
+
+  it('should only use the payout address for refunds on a network with the same address format', () => {
+    expect(canRefundToPayoutAddress(evmAddress, 'arbitrum', 'base')).toBe(true);
+    expect(canRefundToPayoutAddress(evmAddress, 'ethereum', 'bitcoincash')).toBe(false);
+    expect(canRefundToPayoutAddress(btcAddress, 'bitcoin', 'ethereum')).toBe(false);
+    expect(canRefundToPayoutAddress(null, 'base', 'base')).toBe(false);
+  });
+
+  it('should not vouch for addresses on networks without a known format', () => {
+    expect(isValidAddress(evmAddress, 'ton')).toBe(false);
+    expect(isValidAddress('bitcoincash:qpm2qsznhks23z7629mms6s4cwef74vcwvy22gdx6a', 'bitcoincash')).toBe(false);
+    expect(isValidAddress(evmAddress, 'base')).toBe(true);
+  });
+});
@@ -0,0 +1,65 @@
+import { checkSwapPermission, clearPermissionCache, getBlockedRegions } from '../services/region-policy';
+import * as db from '../services/database';
+import { getPermissions } from '../services/sideshift-client';
+
+// Mock dependencies
+jest.mock('../services/database');
+jest.mock('../services/sideshift-client');
+jest.mock('../services/logger');
+
+describe('Region policy', () => {
+  const originalBlocked = process.env.BLOCKED_REGIONS;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    clearPermissionCache();
+    process.env.BLOCKED_REGIONS = 'us, kp';
+    (getPermissions as jest.Mock).mockResolvedValue({ createShift: true });
+  });
+
+  afterAll(() => {
+    process.env.BLOCKED_REGIONS = originalBlocked;
+  });
+
+  it('should normalise the blocked region list', () => {
+    expect(getBlockedRegions()).toEqual(['US', 'KP']);
+  });
+
+  it('should block users in a blocked region without calling SideShift', async () => {
+    (db.getUser as jest.Mock).mockResolvedValue({ telegramId: 1, region: 'us' });
+
+    const permission = await checkSwapPermission(1);
+
+    expect(permission.allowed).toBe(false);
+    expect(permission.reason).toContain('US');
+    expect(getPermissions).not.toHaveBeenCalled();
+  });
+
+  it('should block when SideShift denies shift creation', async () => {
+    (db.getUser as jest.Mock).mockResolvedValue({ telegramId: 1, region: 'DE' });
+    (getPermissions as jest.Mock).mockResolvedValue({ createShift: false });
+
+    const permission = await checkSwapPermission(1);
+
+    expect(permission.allowed).toBe(false);
+    expect(permission.reason).toContain('SideShift');
+  });
+
+  it('should cache the SideShift permissions response', async () => {
+    (db.getUser as jest.Mock).mockResolvedValue(undefined);
+
+    await checkSwapPermission(1);
+    await checkSwapPermission(2);
+
+    expect(getPermissions).toHaveBeenCalledTimes(1);
+  });
+
+  it('should allow swaps when the permissions check itself fails', async () => {
+    (db.getUser as jest.Mock).mockResolvedValue(undefined);
+    (getPermissions as jest.Mock).mockRejectedValue(new Error('timeout'));
+
+    const permission = await checkSwapPermission(1);
+
+    expect(permission.allowed).toBe(true);
+  });
+});
@@ -0,0 +1,99 @@
+import { preflightCommand } from '../services/shift-preflight';
+import { getPair } from '../services/sideshift-client';
+import { tokenResolver } from '../services/token-resolver';
+
+jest.mock('../services/sideshift-client');
+jest.mock('../services/token-resolver', () => ({ tokenResolver: { getCoinList: jest.fn() } }));
+
+const coin = (symbol: string, networks: string[], extra: Record<string, unknown> = {}) => ({
+  coin: symbol, name: symbol, networks, hasMemo: false, fixedOnly: false, variableOnly: false,
+  networksWithMemo: [], depositOffline: false, settleOffline: false, ...extra,
+});
+
+const pair = (min: string, max: string, rate: string) => ({
+  depositCoin: 'ETH', settleCoin: 'BTC', depositNetwork: 'ethereum', settleNetwork: 'bitcoin', min, max, rate, hasMemo: false,
+});
+
+describe('Shift pre-flight', () => {
+  const swap: any = {
+    intent: 'swap', fromAsset: 'ETH', fromChain: 'ethereum', toAsset: 'BTC', toChain: 'bitcoin', amount: 0.001, amountSide: 'deposit',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (tokenResolver.getCoinList as jest.Mock).mockResolvedValue([
+      coin('ETH', ['ethereum', 'arbitrum', 'base']),
+      coin('BTC', ['bitcoin']),
+      coin('USDT', ['ethereum', 'tron', 'bsc'], { depositOffline: ['tron'] }),
+      coin('XRP', ['ripple'], { networksWithMemo: ['ripple'] }),
+    ]);
+  });
+
+  it('should pass a swap within the pair limits', async () => {
+    (getPair as jest.Mock).mockResolvedValue(pair('0.0005', '10', '0.05'));
+
+    expect(await preflightCommand(swap)).toEqual({ problems: [], warnings: [], suggestedAmount: null, alternative: null });
+    expect(getPair).toHaveBeenCalledWith('ETH', 'ethereum', 'BTC', 'bitcoin', 0.001);
+  });
+
+  it('should suggest the minimum when the amount is too small', async () => {
+    (getPair as jest.Mock).mockResolvedValue(pair('0.0123456', '10', '0.05'));
+
+    const result = await preflightCommand(swap);
+
+    expect(result.problems).toEqual(['0.001 ETH is below the minimum of 0.01235 ETH for this pair.']);
+    expect(result.suggestedAmount).toBe(0.01235);
+  });
+
+  it('should convert limits for receive-exact amounts', async () => {
+    (getPair as jest.Mock).mockResolvedValue(pair('0.01', '2', '0.05'));
+
+    const result = await preflightCommand({ ...swap, amount: 1, amountSide: 'settle' });
+
+    expect(result.problems[0]).toContain('above the maximum of 0.1 BTC');
+    expect(result.suggestedAmount).toBe(0.1);
+    expect(getPair).toHaveBeenCalledWith('ETH', 'ethereum', 'BTC', 'bitcoin', undefined);
+  });
+
+  it('should scale a portfolio leg minimum up to the whole amount', async () => {
+    (getPair as jest.Mock)
+      .mockResolvedValueOnce(pair('0.0001', '10', '0.05'))
+      .mockResolvedValueOnce(pair('0.003', '10', '3000'));
+
+    const result = await preflightCommand({
+      intent: 'portfolio', fromAsset: 'ETH', fromChain: 'ethereum', amount: 0.004,
+      portfolio: [{ toAsset: 'BTC', toChain: 'bitcoin', percentage: 50 }, { toAsset: 'USDC', toChain: 'base', percentage: 50 }],
+    } as any);
+
+    expect(result.problems).toEqual(['USDC: 0.002 ETH is below the minimum of 0.003 ETH for this pair.']);
+    expect(result.suggestedAmount).toBe(0.006);
+  });
+
+  it('should offer other networks when a deposit network is offline', async () => {
+    (getPair as jest.Mock).mockRejectedValue(new Error('Deposits of USDT on tron are offline'));
+
+    const result = await preflightCommand({ ...swap, fromAsset: 'USDT', fromChain: 'tron', amount: 100 });
+
+    expect(result.problems).toEqual(["SideShift isn't accepting USDT deposits on tron right now."]);
+    expect(result.alternative).toEqual({ slot: 'from', coin: 'USDT', networks: ['ethereum', 'bsc'] });
+  });
+
+  it('should report a pair SideShift will not quote', async () => {
+    (getPair as jest.Mock).mockRejectedValue(new Error('Invalid pair'));
+
+    expect((await preflightCommand(swap)).problems).toEqual(['Invalid pair']);
+  });
+
+  it('should warn about memo networks on checkouts', async () => {
+    const result = await preflightCommand({ intent: 'checkout', settleAsset: 'XRP', settleNetwork: 'ripple', settleAmount: 20 } as any);
+
+    expect(result.problems).toEqual([]);
+    expect(result.warnings[0]).toContain('XRP on ripple uses a memo');
+  });
+
+  it('should skip amount checks for percentage amounts', async () => {
+    (getPair as jest.Mock).mockResolvedValue(pair('1', '10', '0.05'));
+
+    expect((await preflightCommand({ ...swap, amount: 50, amountType: 'percentage' })).problems).toEqual([]);
+  });
+});
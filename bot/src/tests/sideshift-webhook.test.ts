@@ -0,0 +1,86 @@
+import { createSideShiftWebhookHandler, verifyWebhookSecret, WebhookDeduper } from '../services/sideshift-webhook';
+
+// Mock dependencies
+jest.mock('../services/logger');
+
+describe('SideShift webhook', () => {
+  const originalSecret = process.env.SIDESHIFT_WEBHOOK_SECRET;
+  let orderMonitor: any;
+  let res: any;
+
+  const makeRequest = (secret: string | undefined, payload: any) => ({
+    query: secret ? { secret } : {},
+    headers: {},
+    body: { meta: { hook: true }, payload },
+  });
+
+  beforeEach(() => {
+    process.env.SIDESHIFT_WEBHOOK_SECRET = 'hook-secret';
+    orderMonitor = { handleStatusNotification: jest.fn().mockResolvedValue('processed') };
+    res = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis(),
+    };
+  });
+
+  afterAll(() => {
+    process.env.SIDESHIFT_WEBHOOK_SECRET = originalSecret;
+  });
+
+  it('should verify the shared secret', () => {
+    expect(verifyWebhookSecret('hook-secret')).toBe(true);
+    expect(verifyWebhookSecret('wrong-secret')).toBe(false);
+    expect(verifyWebhookSecret(undefined)).toBe(false);
+  });
+
+  it('should reject requests without the secret', async () => {
+    const handler = createSideShiftWebhookHandler(orderMonitor);
+
+    await handler(makeRequest(undefined, { shiftId: 'shift-1', status: 'settled' }) as any, res);
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(orderMonitor.handleStatusNotification).not.toHaveBeenCalled();
+  });
+
+  it('should hand the shift to the order monitor once per status', async () => {
+    const handler = createSideShiftWebhookHandler(orderMonitor, new WebhookDeduper());
+    const req = makeRequest('hook-secret', { shiftId: 'shift-1', status: 'settled' });
+
+    await handler(req as any, res);
+    await handler(req as any, res);
+
+    expect(orderMonitor.handleStatusNotification).toHaveBeenCalledTimes(1);
+    expect(orderMonitor.handleStatusNotification).toHaveBeenCalledWith('shift-1');
+    expect(res.json).toHaveBeenLastCalledWith({ ok: true, duplicate: true });
+  });
+
+  it('should allow a retry after a failed delivery', async () => {
+    const handler = createSideShiftWebhookHandler(orderMonitor, new WebhookDeduper());
+    const req = makeRequest('hook-secret', { shiftId: 'shift-1', status: 'processing' });
+    orderMonitor.handleStatusNotification.mockRejectedValueOnce(new Error('db down'));
+
+    await handler(req as any, res);
+    expect(res.status).toHaveBeenCalledWith(500);
+
+    await handler(req as any, res);
+    expect(orderMonitor.handleStatusNotification).toHaveBeenCalledTimes(2);
+    expect(res.status).toHaveBeenLastCalledWith(200);
+  });
+
+  it('should ask for a retry when the monitor could not apply the notification', async () => {
+    const handler = createSideShiftWebhookHandler(orderMonitor, new WebhookDeduper());
+    const req = makeRequest('hook-secret', { shiftId: 'shift-1', status: 'settled' });
+    orderMonitor.handleStatusNotification
+      .mockResolvedValueOnce('failed')
+      .mockResolvedValueOnce('skipped');
+
+    await handler(req as any, res);
+    await handler(req as any, res);
+    expect(res.status).toHaveBeenNthCalledWith(1, 500);
+    expect(res.status).toHaveBeenNthCalledWith(2, 500);
+
+    await handler(req as any, res);
+    expect(orderMonitor.handleStatusNotification).toHaveBeenCalledTimes(3);
+    expect(res.status).toHaveBeenLastCalledWith(200);
+  });
+});
@@ -0,0 +1,73 @@
+import { encodeApprove, fromBaseUnits, lifiProvider, parseLifiStatus, rankRoutes, toBaseUnits } from '@swapsmith/core';
+import { compareWithSideShift, describeRoutes, getProviderOrderStatus, providerForOrderId, RouteQuote } from '../services/swap-router';
+import { getOrderStatus } from '../services/sideshift-client';
+
+jest.mock('../services/sideshift-client');
+
+describe('Swap router', () => {
+  const wallet = '0x1111111111111111111111111111111111111111';
+  const txHash = `0x${'ab'.repeat(32)}`;
+
+  const route = (provider: 'sideshift' | 'lifi', settleAmount: string, extra: Partial<RouteQuote> = {}): RouteQuote => ({
+    provider, providerName: provider === 'lifi' ? 'LI.FI via Uniswap' : 'SideShift', id: 'q', depositCoin: 'ETH', depositNetwork: 'base',
+    settleCoin: 'USDC', settleNetwork: 'base', depositAmount: '1', settleAmount, settleAmountMin: null, rate: settleAmount,
+    expiry: null, feeUsd: null, execution: provider === 'lifi' ? 'wallet' : 'deposit', transactions: [], ...extra,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should rank routes by what they pay out', () => {
+    const ranked = rankRoutes([route('sideshift', '1990'), route('lifi', '2010', { feeUsd: 0.42 })]);
+    expect(ranked.map(r => r.provider)).toEqual(['lifi', 'sideshift']);
+    expect(rankRoutes(ranked.map(r => ({ ...r, depositAmount: r.provider === 'lifi' ? '1.01' : '1' })), 'settle')[0].provider).toBe('sideshift');
+
+    const text = describeRoutes(ranked);
+    expect(text).toBe(
+      '1. LI.FI via Uniswap — `2010 USDC`, ~$0.42 gas & fees ⭐\n' +
+      '2. SideShift — `1990 USDC` (1.00% worse)'
+    );
+  });
+
+  it('should only quote DEX routes for EVM pairs paid from and to a wallet', async () => {
+    const request = { fromAsset: 'ETH', fromChain: 'base', toAsset: 'USDC', toChain: 'base', amount: 1, fromAddress: wallet, settleAddress: wallet };
+    expect(lifiProvider.supports(request)).toBe(true);
+    expect(lifiProvider.supports({ ...request, toChain: 'bitcoin', toAsset: 'BTC' })).toBe(false);
+    expect(lifiProvider.supports({ ...request, amountSide: 'settle' })).toBe(false);
+    expect(lifiProvider.supports({ ...request, fromAddress: null })).toBe(false);
+
+    // Nothing else quotes a BTC payout, so SideShift's quote stands alone without any request
+    const quote: any = { id: 'q1', depositCoin: 'ETH', depositNetwork: 'base', settleCoin: 'BTC', settleNetwork: 'bitcoin', depositAmount: '1', settleAmount: '0.03', rate: '0.03', affiliateId: '' };
+    const routes = await compareWithSideShift({ ...request, toChain: 'bitcoin', toAsset: 'BTC' }, quote);
+    expect(routes).toHaveLength(1);
+    expect(routes[0]).toMatchObject({ provider: 'sideshift', id: 'q1', execution: 'deposit' });
+  });
+
+  it('should map LI.FI statuses onto order statuses', () => {
+    expect(parseLifiStatus({ status: 'NOT_FOUND' })).toBe('waiting');
+    expect(parseLifiStatus({ status: 'PENDING' })).toBe('processing');
+    expect(parseLifiStatus({ status: 'DONE', substatus: 'COMPLETED' })).toBe('settled');
+    expect(parseLifiStatus({ status: 'DONE', substatus: 'REFUNDED' })).toBe('refunded');
+    expect(parseLifiStatus({ status: 'FAILED' })).toBe('failed');
+  });
+
+  it('should build approvals and convert amounts without floats', () => {
+    expect(toBaseUnits('1.5', 6)).toBe('1500000');
+    expect(toBaseUnits(0.1, 18)).toBe('100000000000000000');
+    expect(toBaseUnits(1e-7, 18)).toBe('100000000000');
+    expect(fromBaseUnits('1500000', 6)).toBe('1.5');
+    expect(fromBaseUnits('42', 6)).toBe('0.000042');
+    expect(encodeApprove(wallet, '1500000')).toBe(`0x095ea7b3${'0'.repeat(24)}${wallet.slice(2)}${'0'.repeat(58)}16e360`);
+  });
+
+  it('should track orders with the provider that executed them', async () => {
+    (getOrderStatus as jest.Mock).mockResolvedValue({ id: 'abc123', status: 'settled' });
+
+    expect(providerForOrderId('abc123')).toBe('sideshift');
+    expect(providerForOrderId(txHash)).toBe('lifi');
+    await expect(getProviderOrderStatus('sideshift', 'abc123')).resolves.toMatchObject({ status: 'settled' });
+    await expect(getProviderOrderStatus(null, 'abc123')).resolves.toMatchObject({ status: 'settled' });
+    expect(getOrderStatus).toHaveBeenCalledTimes(2);
+  });
+});
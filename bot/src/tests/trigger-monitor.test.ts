@@ -0,0 +1,122 @@
+import { TriggerMonitor, isTriggerMet } from '../services/trigger-monitor';
+import * as db from '../services/database';
+import { getUsdPrices } from '../services/price-client';
+import { Telegraf } from 'telegraf';
+
+// Mock dependencies
+jest.mock('../services/database');
+jest.mock('../services/price-client');
+jest.mock('../services/logger');
+
+describe('TriggerMonitor', () => {
+  let mockBot: any;
+  let triggerMonitor: TriggerMonitor;
+
+  const mockTrigger = {
+    id: 7,
+    telegramId: 123456,
+    fromAsset: 'ETH',
+    fromNetwork: 'ethereum',
+    toAsset: 'BTC',
+    toNetwork: 'bitcoin',
+    amount: 1,
+    settleAddress: 'bc1qexampleaddress',
+    triggerAsset: 'ETH',
+    triggerCondition: 'above',
+    triggerPrice: 3000,
+    status: 'pending',
+    lastPrice: null,
+    triggeredAt: null,
+    createdAt: new Date(),
+  };
+
+  beforeEach(() => {
+    mockBot = {
+      telegram: {
+        sendMessage: jest.fn().mockResolvedValue({}),
+      },
+    };
+
+    triggerMonitor = new TriggerMonitor(mockBot as Telegraf);
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    triggerMonitor.stop();
+  });
+
+  describe('isTriggerMet', () => {
+    it('should evaluate above and below conditions', () => {
+      expect(isTriggerMet({ triggerCondition: 'above', triggerPrice: 3000 }, 3100)).toBe(true);
+      expect(isTriggerMet({ triggerCondition: 'above', triggerPrice: 3000 }, 2900)).toBe(false);
+      expect(isTriggerMet({ triggerCondition: 'below', triggerPrice: 3000 }, 2900)).toBe(true);
+      expect(isTriggerMet({ triggerCondition: 'below', triggerPrice: 3000 }, 3100)).toBe(false);
+    });
+  });
+
+  describe('Price Checks', () => {
+    it('should fire the trigger and ask the user to confirm', async () => {
+      (db.getActivePendingTriggers as jest.Mock).mockResolvedValue([mockTrigger]);
+      (getUsdPrices as jest.Mock).mockResolvedValue({ ETH: 3100 });
+
+      await (triggerMonitor as any).checkTriggers();
+
+      expect(db.markTriggerFired).toHaveBeenCalledWith(7, 3100);
+      expect(mockBot.telegram.sendMessage).toHaveBeenCalledWith(
+        123456,
+        expect.stringContaining('Price Trigger Hit'),
+        expect.objectContaining({
+          reply_markup: expect.objectContaining({
+            inline_keyboard: [[
+              expect.objectContaining({ callback_data: 'execute_trigger:7' }),
+              expect.objectContaining({ callback_data: 'cancel_swap' }),
+            ]],
+          }),
+        })
+      );
+    });
+
+    it('should only record the price when the condition is not met', async () => {
+      (db.getActivePendingTriggers as jest.Mock).mockResolvedValue([mockTrigger]);
+      (getUsdPrices as jest.Mock).mockResolvedValue({ ETH: 2900 });
+
+      await (triggerMonitor as any).checkTriggers();
+
+      expect(db.updateTriggerLastPrice).toHaveBeenCalledWith(7, 2900);
+      expect(db.markTriggerFired).not.toHaveBeenCalled();
+      expect(mockBot.telegram.sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('should skip triggers without a price', async () => {
+      (db.getActivePendingTriggers as jest.Mock).mockResolvedValue([mockTrigger]);
+      (getUsdPrices as jest.Mock).mockResolvedValue({});
+
+      await (triggerMonitor as any).checkTriggers();
+
+      expect(db.updateTriggerLastPrice).not.toHaveBeenCalled();
+      expect(db.markTriggerFired).not.toHaveBeenCalled();
+    });
+
+    it('should not fire a trigger twice when a slow cycle overlaps the next', async () => {
+      let resolvePrices: (prices: Record<string, number>) => void = () => {};
+      (db.getActivePendingTriggers as jest.Mock).mockResolvedValue([mockTrigger]);
+      (getUsdPrices as jest.Mock).mockReturnValueOnce(new Promise(resolve => { resolvePrices = resolve; }));
+
+      const slowCycle = (triggerMonitor as any).checkTriggers();
+      await (triggerMonitor as any).checkTriggers();
+      resolvePrices({ ETH: 3100 });
+      await slowCycle;
+
+      expect(getUsdPrices).toHaveBeenCalledTimes(1);
+      expect(db.markTriggerFired).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not fetch prices when there are no triggers', async () => {
+      (db.getActivePendingTriggers as jest.Mock).mockResolvedValue([]);
+
+      await (triggerMonitor as any).checkTriggers();
+
+      expect(getUsdPrices).not.toHaveBeenCalled();
+    });
+  });
+});
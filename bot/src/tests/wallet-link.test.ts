@@ -0,0 +1,89 @@
+import { ethers } from 'ethers';
+import { getLinkedWallet, LINK_STATEMENT, parseSiweMessage, verifyWalletLink } from '../services/wallet-link';
+import * as db from '../services/database';
+
+jest.mock('../services/database');
+
+describe('Wallet link', () => {
+  const wallet = ethers.Wallet.createRandom();
+  const telegramId = 42;
+
+  function siweMessage(overrides: { domain?: string; nonce?: string; expirationTime?: string } = {}): string {
+    return [
+      `${overrides.domain ?? 'app.swapsmith.test'} wants you to sign in with your Ethereum account:`,
+      wallet.address,
+      '',
+      LINK_STATEMENT,
+      '',
+      'URI: https://app.swapsmith.test/link',
+      'Version: 1',
+      'Chain ID: 1',
+      `Nonce: ${overrides.nonce ?? 'abc123'}`,
+      `Issued At: ${new Date().toISOString()}`,
+      ...(overrides.expirationTime ? [`Expiration Time: ${overrides.expirationTime}`] : []),
+    ].join('\n');
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.MINI_APP_URL = 'https://app.swapsmith.test/';
+    (db.takeWalletLinkRequest as jest.Mock).mockResolvedValue({ nonce: 'abc123', telegramId, createdAt: new Date() });
+  });
+
+  it('should parse the fields of a SIWE message', () => {
+    const siwe = parseSiweMessage(siweMessage());
+
+    expect(siwe).toMatchObject({
+      domain: 'app.swapsmith.test', address: wallet.address, statement: LINK_STATEMENT,
+      version: '1', chainId: 1, nonce: 'abc123', expirationTime: null,
+    });
+    expect(() => parseSiweMessage('hello')).toThrow('Not a Sign-In with Ethereum message');
+  });
+
+  it('should link the signer to the user who asked for the nonce', async () => {
+    const message = siweMessage();
+    const signature = await wallet.signMessage(message);
+
+    await expect(verifyWalletLink(message, signature)).resolves.toEqual({ telegramId, address: wallet.address });
+    expect(db.takeWalletLinkRequest).toHaveBeenCalledWith('abc123');
+    expect(db.setUserWallet).toHaveBeenCalledWith(telegramId, wallet.address);
+  });
+
+  it('should reject a message signed for another domain', async () => {
+    const message = siweMessage({ domain: 'evil.example' });
+    const signature = await wallet.signMessage(message);
+
+    await expect(verifyWalletLink(message, signature)).rejects.toThrow('not this app');
+    expect(db.setUserWallet).not.toHaveBeenCalled();
+  });
+
+  it('should reject a signature from a different wallet', async () => {
+    const message = siweMessage();
+    const signature = await ethers.Wallet.createRandom().signMessage(message);
+
+    await expect(verifyWalletLink(message, signature)).rejects.toThrow('does not match');
+    expect(db.takeWalletLinkRequest).not.toHaveBeenCalled();
+  });
+
+  it('should reject an expired message or a stale or reused nonce', async () => {
+    const expired = siweMessage({ expirationTime: new Date(Date.now() - 1000).toISOString() });
+    await expect(verifyWalletLink(expired, await wallet.signMessage(expired))).rejects.toThrow('expired');
+
+    const message = siweMessage();
+    const signature = await wallet.signMessage(message);
+
+    (db.takeWalletLinkRequest as jest.Mock).mockResolvedValueOnce({ nonce: 'abc123', telegramId, createdAt: new Date(Date.now() - 11 * 60 * 1000) });
+    await expect(verifyWalletLink(message, signature)).rejects.toThrow('Run /link_wallet again');
+
+    (db.takeWalletLinkRequest as jest.Mock).mockResolvedValueOnce(undefined);
+    await expect(verifyWalletLink(message, signature)).rejects.toThrow('Run /link_wallet again');
+    expect(db.setUserWallet).not.toHaveBeenCalled();
+  });
+
+  it('should only stand in on EVM networks', async () => {
+    (db.getUser as jest.Mock).mockResolvedValue({ telegramId, walletAddress: wallet.address });
+
+    await expect(getLinkedWallet(telegramId, 'base')).resolves.toBe(wallet.address);
+    await expect(getLinkedWallet(telegramId, 'bitcoin')).resolves.toBeNull();
+  });
+});
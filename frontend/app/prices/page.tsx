@@ -8,7 +8,7 @@ import SearchBar from '@/components/SearchBar';
 import CoinCardSkeleton from '@/components/CoinCardSkeleton';
 import Navbar from '@/components/Navbar';
 import TopCryptoSection from '@/components/TopCryptoSection';
-import { getCoinPrices, CoinPrice } from '@/utils/sideshift-client';
+import { getCoinPrices, CoinPrice } from '@swapsmith/core';
 import Footer from '@/components/Footer';
 
 export default function PricesPage() {
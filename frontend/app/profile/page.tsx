@@ -33,7 +33,9 @@ import {
   Clock,
   Calendar,
   TrendingUp,
+  TrendingDown,
 } from 'lucide-react'
+import { DEFAULT_MAX_RATE_DEVIATION } from '@swapsmith/core'
 import { useAuth } from '@/hooks/useAuth'
 import Navbar from '@/components/Navbar'
 import { updatePassword, EmailAuthProvider, reauthenticateWithCredential } from 'firebase/auth'
@@ -46,6 +48,7 @@ interface Preferences {
   soundEnabled: boolean
   autoConfirmSwaps: boolean
   currency: string
+  maxRateDeviation: number // Percent below market a quote may be before it needs an extra confirmation
 }
 
 interface EmailNotificationPrefs {
@@ -208,14 +211,16 @@ export default function ProfilePage() {
         return { ...{
           soundEnabled: true,
           autoConfirmSwaps: false,
-          currency: 'USD'
+          currency: 'USD',
+          maxRateDeviation: DEFAULT_MAX_RATE_DEVIATION
         }, ...JSON.parse(saved) }
       }
     } catch {}
     return {
       soundEnabled: true,
       autoConfirmSwaps: false,
-      currency: 'USD'
+      currency: 'USD',
+      maxRateDeviation: DEFAULT_MAX_RATE_DEVIATION
     }
   })
 
@@ -889,6 +894,24 @@ export default function ProfilePage() {
                 </select>
               }
             />
+            <SettingRow
+              icon={TrendingDown}
+              label="Max Slippage"
+              description="Quotes further below the market rate need an extra confirmation"
+              action={
+                <select
+                  value={preferences.maxRateDeviation}
+                  onChange={(e) => setPreferences((p: Preferences) => ({ ...p, maxRateDeviation: parseFloat(e.target.value) }))}
+                  className="bg-zinc-800 border border-zinc-700 text-sm text-zinc-200 rounded-lg px-3 py-1.5 focus:outline-none focus:ring-2 focus:ring-blue-500/40 cursor-pointer"
+                >
+                  <option value={0.5}>0.5%</option>
+                  <option value={1}>1%</option>
+                  <option value={2}>2%</option>
+                  <option value={3}>3%</option>
+                  <option value={5}>5%</option>
+                </select>
+              }
+            />
           </GlowCard>
 
           {/* ───────── Email Notifications ───────── */}
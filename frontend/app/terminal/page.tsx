@@ -25,6 +25,12 @@ interface QuoteData {
   memo?: string;
   expiry?: string;
   id?: string;
+  mode?: 'fixed' | 'variable';
+  availableModes?: Array<'fixed' | 'variable'>;
+  depositAddress?: string;
+  depositMin?: string;
+  depositMax?: string;
+  amountSide?: 'deposit' | 'settle';
 }
 
 interface Message {
@@ -39,7 +45,7 @@ interface Message {
     | "checkout_link";
   data?:
     | ParsedCommand
-    | { quoteData: unknown; confidence: number }
+    | { quoteData: unknown; confidence: number; parsedCommand?: ParsedCommand }
     | { url: string }
     | { parsedCommand: ParsedCommand };
 }
@@ -375,7 +381,7 @@ export default function TerminalPage() {
     }
   };
 
-  const executeSwap = async (command: ParsedCommand) => {
+  const executeSwap = async (command: ParsedCommand, mode?: 'fixed' | 'variable') => {
     try {
       const quoteResponse = await fetch("/api/create-swap", {
         method: "POST",
@@ -386,6 +392,9 @@ export default function TerminalPage() {
           amount: command.amount,
           fromChain: command.fromChain,
           toChain: command.toChain,
+          amountSide: command.amountSide,
+          mode,
+          settleAddress: address,
         }),
       });
       const quote = await quoteResponse.json();
@@ -394,7 +403,7 @@ export default function TerminalPage() {
         role: "assistant",
         content: `Swap Prepared: ${quote.depositAmount} ${quote.depositCoin} → ${quote.settleAmount} ${quote.settleCoin}`,
         type: "swap_confirmation",
-        data: { quoteData: quote, confidence: command.confidence },
+        data: { quoteData: quote, confidence: command.confidence, parsedCommand: command },
       });
     } catch (error: unknown) {
       const errorMessage = handleError(error, ErrorType.API_FAILURE, {
@@ -613,7 +622,7 @@ export default function TerminalPage() {
                                 {msg.type === 'message' && <div className="whitespace-pre-line">{msg.content}</div>}
                                 {msg.type === 'yield_info' && <div className="font-mono text-xs text-blue-300">{msg.content}</div>}
                                 {msg.type === 'intent_confirmation' && msg.data && 'parsedCommand' in msg.data && <IntentConfirmation command={msg.data.parsedCommand} onConfirm={handleIntentConfirm} />}
-                                {msg.type === 'swap_confirmation' && msg.data && 'quoteData' in msg.data && <SwapConfirmation quote={msg.data.quoteData as QuoteData} confidence={msg.data.confidence} />}
+                                {msg.type === 'swap_confirmation' && msg.data && 'quoteData' in msg.data && <SwapConfirmation quote={msg.data.quoteData as QuoteData} confidence={msg.data.confidence} onSelectMode={msg.data.parsedCommand ? (mode) => executeSwap((msg.data as { parsedCommand: ParsedCommand }).parsedCommand, mode) : undefined} />}
                                 {msg.type === 'checkout_link' && msg.data && 'url' in msg.data && (
                                   <a href={msg.data.url} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline">
                                     {msg.data.url}
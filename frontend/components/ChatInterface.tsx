@@ -7,6 +7,7 @@ import SwapConfirmation from './SwapConfirmation';
 import TrustIndicators from './TrustIndicators';
 import IntentConfirmation from './IntentConfirmation';
 import { ParsedCommand } from '@/utils/groq-client';
+import type { RateCheck, RouteQuote } from '@swapsmith/core';
 import { useErrorHandler, ErrorType } from '@/hooks/useErrorHandler';
 import { useAudioRecorder } from '@/hooks/useAudioRecorder';
 
@@ -22,6 +23,14 @@ interface QuoteData {
   memo?: string;
   expiry?: string;
   id?: string;
+  mode?: 'fixed' | 'variable';
+  availableModes?: Array<'fixed' | 'variable'>;
+  depositAddress?: string;
+  depositMin?: string;
+  depositMax?: string;
+  amountSide?: 'deposit' | 'settle';
+  rateCheck?: RateCheck | null;
+  routes?: RouteQuote[];
 }
 
 interface Message {
@@ -37,6 +46,17 @@ interface Message {
   };
 }
 
+// Max-slippage preference set on the profile page; the API falls back to its default without one
+function getMaxRateDeviation(): number | undefined {
+  try {
+    const saved = localStorage.getItem('swapsmith_preferences');
+    const value = saved ? JSON.parse(saved).maxRateDeviation : undefined;
+    return typeof value === 'number' ? value : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
 export default function ChatInterface() {
   const [messages, setMessages] = useState<Message[]>([
     {
@@ -289,6 +309,17 @@ export default function ChatInterface() {
          return;
       }
 
+      // Triggers, schedules and yield moves are parsed by the shared prompt but only run in the Telegram bot
+      if (command.intent !== 'swap') {
+        addMessage({
+          role: 'assistant',
+          content: `That looks like a ${command.intent.replace('_', ' ')} command, which is available in the SwapSmith Telegram bot. Here I can run swaps, portfolio splits and payment links.`,
+          type: 'message'
+        });
+        setIsLoading(false);
+        return;
+      }
+
       // Handle Swap (Standard Flow)
       if (command.requiresConfirmation || command.confidence < 80) {
         setPendingCommand(command);
@@ -316,7 +347,7 @@ export default function ChatInterface() {
     processCommand(text);
   };
 
-  const executeSwap = async (command: ParsedCommand) => {
+  const executeSwap = async (command: ParsedCommand, mode?: 'fixed' | 'variable') => {
     try {
       const quoteResponse = await fetch('/api/create-swap', {
         method: 'POST',
@@ -326,7 +357,11 @@ export default function ChatInterface() {
           toAsset: command.toAsset,
           amount: command.amount,
           fromChain: command.fromChain,
-          toChain: command.toChain
+          toChain: command.toChain,
+          amountSide: command.amountSide,
+          mode,
+          settleAddress: address,
+          maxDeviation: getMaxRateDeviation()
         }),
       });
       
@@ -337,7 +372,7 @@ export default function ChatInterface() {
         role: 'assistant',
         content: `Swap Prepared: ${quote.depositAmount} ${quote.depositCoin} → ${quote.settleAmount} ${quote.settleCoin}`,
         type: 'swap_confirmation',
-        data: { quoteData: quote, confidence: command.confidence }
+        data: { quoteData: quote, confidence: command.confidence, parsedCommand: command }
       });
     } catch (error: unknown) {
       const errorMessage = handleError(error, ErrorType.API_FAILURE, { 
@@ -414,7 +449,7 @@ return (
                     
                     {/* Inject your Custom Components (SwapConfirmation etc) here */}
                     {msg.type === 'intent_confirmation' && <IntentConfirmation command={msg.data?.parsedCommand} onConfirm={handleIntentConfirm} />}
-                    {msg.type === 'swap_confirmation' && msg.data?.quoteData && <SwapConfirmation quote={msg.data.quoteData} confidence={msg.data.confidence} />}
+                    {msg.type === 'swap_confirmation' && msg.data?.quoteData && <SwapConfirmation quote={msg.data.quoteData} confidence={msg.data.confidence} onSelectMode={msg.data.parsedCommand ? (mode) => executeSwap(msg.data!.parsedCommand!, mode) : undefined} />}
                   </div>
                 </div>
               )}
@@ -3,6 +3,7 @@ import { CheckCircle, AlertCircle, ExternalLink, Copy, Check, ShieldCheck } from
 import { useAccount, useSendTransaction, useSwitchChain, usePublicClient } from 'wagmi' // Added usePublicClient
 import { parseEther, type Chain } from 'viem'
 import { mainnet, polygon, arbitrum, avalanche, optimism, bsc, base } from 'wagmi/chains'
+import type { RateCheck, RouteQuote, SwapProviderId } from '@swapsmith/core'
 
 // --- Interface and Constants ---
 interface QuoteData {
@@ -16,11 +17,20 @@ interface QuoteData {
   memo?: string;
   expiry?: string;
   id?: string;
+  mode?: 'fixed' | 'variable';
+  availableModes?: Array<'fixed' | 'variable'>;
+  depositAddress?: string;
+  depositMin?: string;
+  depositMax?: string;
+  amountSide?: 'deposit' | 'settle';
+  rateCheck?: RateCheck | null; // Quote vs market prices; null when a coin has no market price
+  routes?: RouteQuote[]; // Every provider that quoted the swap, best first; includes this SideShift quote
 }
 
 interface SwapConfirmationProps {
   quote: QuoteData;
   confidence?: number;
+  onSelectMode?: (mode: 'fixed' | 'variable') => void;
 }
 
 const EXPLORER_URLS: { [key: string]: string } = {
@@ -36,6 +46,7 @@ const EXPLORER_URLS: { [key: string]: string } = {
 }
 
 const SIDESHIFT_TRACKING_URL = 'https://sideshift.ai/transactions'
+const LIFI_TRACKING_URL = 'https://scan.li.fi/tx'
 
 // Map network names from your API to wagmi chain objects
 const CHAIN_MAP: { [key: string]: Chain } = { 
@@ -49,23 +60,73 @@ const CHAIN_MAP: { [key: string]: Chain } = {
 }
 
 // --- Main Component ---
-export default function SwapConfirmation({ quote, confidence = 100 }: SwapConfirmationProps) {
+export default function SwapConfirmation({ quote, confidence = 100, onSelectMode }: SwapConfirmationProps) {
   const [copiedAddress, setCopiedAddress] = useState(false)
   const [copiedMemo, setCopiedMemo] = useState(false)
   const [isSimulating, setIsSimulating] = useState(false);
   const [simulationPassed, setSimulationPassed] = useState(false);
+  const [acceptedRate, setAcceptedRate] = useState(false);
+  const [selectedProvider, setSelectedProvider] = useState<SwapProviderId>('sideshift');
   
   const { address, isConnected, chain: connectedChain } = useAccount()
-  const { data: hash, error, isPending, isSuccess, sendTransaction } = useSendTransaction()
+  const { data: hash, error, isPending, isSuccess, sendTransaction, sendTransactionAsync } = useSendTransaction()
   const { switchChainAsync } = useSwitchChain()
 
+  const isVariable = quote.mode === 'variable';
+  const rateCheck = quote.rateCheck;
+  // A DEX aggregator route is signed from the wallet instead of paying a SideShift deposit address
+  const selectedRoute = quote.routes?.find(route => route.provider === selectedProvider);
+  const walletRoute = selectedRoute?.execution === 'wallet' ? selectedRoute : null;
+  const shown = walletRoute ?? quote;
+  // A rate past the user's max slippage has to be accepted before sending; it describes the SideShift quote
+  const needsRateAcceptance = !walletRoute && !!rateCheck?.exceedsLimit && !acceptedRate;
+  // For receive-exact quotes SideShift computed the deposit amount
+  const isSettleSide = quote.amountSide === 'settle';
+  // Variable shifts come back with a real SideShift deposit address
+  const depositAddress = (quote.depositAddress as `0x${string}` | undefined) || address
+
   // Get Chain ID for the deposit network
   const depositChainId = CHAIN_MAP[quote.depositNetwork.toLowerCase()]?.id;
   
   // Get a public client specifically for the target chain to run simulations
   const publicClient = usePublicClient({ chainId: depositChainId });
 
+  const executeRoute = async (route: RouteQuote) => {
+    try {
+      const chainId = route.transactions[0].chainId;
+      // Without a client to see the approval mined, the swap could be sent before it and revert
+      const receiptClient = publicClient?.chain.id === chainId ? publicClient : undefined;
+      if (route.transactions.length > 1 && !receiptClient) {
+        throw new Error(`Can't follow transactions on chain ${chainId}, so nothing was sent`);
+      }
+      if (connectedChain?.id !== chainId) {
+        await switchChainAsync({ chainId });
+      }
+      for (const [i, tx] of route.transactions.entries()) {
+        const txHash = await sendTransactionAsync({
+          to: tx.to as `0x${string}`,
+          data: tx.data as `0x${string}`,
+          value: BigInt(tx.value),
+          chainId: tx.chainId,
+        });
+        // The swap spends the approval, so the approval has to be mined first
+        if (i < route.transactions.length - 1) {
+          await receiptClient!.waitForTransactionReceipt({ hash: txHash });
+        }
+      }
+    } catch (e) {
+      const routeError = e as Error;
+      console.error('Failed to execute route:', routeError);
+      alert(`Could not complete the ${route.providerName} swap: ${routeError.message}`);
+    }
+  };
+
   const handleConfirm = async () => {
+    if (walletRoute) {
+      await executeRoute(walletRoute);
+      return;
+    }
+
     if (!quote) {
         alert("Error: Deposit address is missing. Cannot proceed.");
         return;
@@ -83,7 +144,7 @@ export default function SwapConfirmation({ quote, confidence = 100 }: SwapConfir
     }
 
     const transactionDetails = {
-      to: address, // Note: Ideally this should be the SideShift deposit address generated from an Order
+      to: depositAddress, // Note: fixed quotes still need an Order before a SideShift deposit address exists
       value: parseEther(quote.depositAmount),
       chainId: depositChainId,
     };
@@ -174,6 +235,9 @@ export default function SwapConfirmation({ quote, confidence = 100 }: SwapConfir
     const networkKey = quote.depositNetwork.toLowerCase();
     const baseUrl = EXPLORER_URLS[networkKey];
 
+    if (hash && walletRoute) {
+        return `${LIFI_TRACKING_URL}/${hash}`;
+    }
     if (hash && baseUrl) {
         return `${baseUrl}/tx/${hash}`;
     }
@@ -226,13 +290,13 @@ export default function SwapConfirmation({ quote, confidence = 100 }: SwapConfir
 
       <div className="space-y-3 text-sm">
         <div className="flex justify-between">
-          <span className="text-gray-600">You send:</span>
-          <span className="font-medium text-gray-900">{quote.depositAmount} {quote.depositCoin} on {getNetworkName(quote.depositNetwork)}</span>
+          <span className="text-gray-600">{isSettleSide ? 'You need to send:' : 'You send:'}</span>
+          <span className="font-medium text-gray-900">{shown.depositAmount} {shown.depositCoin} on {getNetworkName(quote.depositNetwork)}</span>
         </div>
         <div className="border-t pt-3">
           <div className="flex justify-between">
-            <span className="text-gray-600">You receive approx:</span>
-            <span className="font-medium text-gray-900">{quote.settleAmount} {quote.settleCoin}</span>
+            <span className="text-gray-600">{isSettleSide ? 'You receive exactly:' : 'You receive approx:'}</span>
+            <span className="font-medium text-gray-900">{shown.settleAmount} {shown.settleCoin}</span>
           </div>
           <div className="flex justify-between mt-1">
             <span className="text-gray-600">At your address:</span>
@@ -242,11 +306,45 @@ export default function SwapConfirmation({ quote, confidence = 100 }: SwapConfir
           </div>
         </div>
 
+        {quote.routes && quote.routes.length > 1 && (
+          <div className="border-t pt-3">
+            <span className="text-gray-600 font-medium">Compare routes:</span>
+            <div className="mt-2 space-y-1">
+              {quote.routes.map((route, i) => (
+                <label
+                  key={route.provider}
+                  className={`flex items-center justify-between p-2 rounded border text-xs cursor-pointer ${selectedProvider === route.provider ? 'border-blue-400 bg-blue-50' : 'border-gray-200'}`}
+                >
+                  <span className="flex items-center gap-2">
+                    <input
+                      type="radio"
+                      name={`route-${quote.id}`}
+                      checked={selectedProvider === route.provider}
+                      onChange={() => setSelectedProvider(route.provider)}
+                    />
+                    <span className="text-gray-900">{route.providerName}{i === 0 ? ' ⭐ Best' : ''}</span>
+                  </span>
+                  <span className="font-medium text-gray-900">
+                    {route.settleAmount} {route.settleCoin}{route.feeUsd ? ` · ~$${route.feeUsd.toFixed(2)} fees` : ''}
+                  </span>
+                </label>
+              ))}
+            </div>
+            {walletRoute && (
+              <p className="mt-1 text-xs text-gray-500">
+                Signed from your wallet{walletRoute.transactions.length > 1 ? ' in two steps (approve, then swap)' : ''}.
+                {walletRoute.settleAmountMin && ` You receive at least ${walletRoute.settleAmountMin} ${walletRoute.settleCoin} after slippage.`}
+              </p>
+            )}
+          </div>
+        )}
+
+        {!walletRoute && (
         <div className="border-t pt-3 mt-3">
           <div className="flex justify-between items-start mb-2">
             <span className="text-gray-600 font-medium">Send funds to this address:</span>
             <button
-              onClick={() => copyToClipboard(address as string, 'address')}
+              onClick={() => copyToClipboard(depositAddress as string, 'address')}
               className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-800"
             >
               {copiedAddress ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
@@ -254,9 +352,10 @@ export default function SwapConfirmation({ quote, confidence = 100 }: SwapConfir
             </button>
           </div>
           <div className="bg-gray-500 p-2 rounded text-xs font-mono break-all">
-            {address}
+            {depositAddress}
           </div>
         </div>
+        )}
 
         {quote.memo && (
           <div className="border-t pt-3">
@@ -277,6 +376,59 @@ export default function SwapConfirmation({ quote, confidence = 100 }: SwapConfir
           </div>
         )}
 
+        <div className="flex justify-between border-t pt-3">
+          <span className="text-gray-600">Rate type:</span>
+          <span className="font-medium text-gray-900">{isVariable ? 'Variable (set when deposit arrives)' : 'Fixed'}</span>
+        </div>
+
+        <div className="flex justify-between">
+          <span className="text-gray-600">Spread &amp; fees vs market:</span>
+          {rateCheck ? (
+            <span className={`font-medium ${rateCheck.exceedsLimit ? 'text-red-600' : 'text-gray-900'}`}>
+              {Math.abs(rateCheck.deviation).toFixed(2)}% {rateCheck.deviation >= 0 ? 'below' : 'above'} market
+            </span>
+          ) : (
+            <span className="text-gray-500">No market price</span>
+          )}
+        </div>
+
+        {rateCheck && (
+          <div className="flex justify-between text-xs">
+            <span className="text-gray-500">Market rate:</span>
+            <span className="text-gray-500">1 {quote.depositCoin} ≈ {rateCheck.referenceRate.toPrecision(6)} {quote.settleCoin}</span>
+          </div>
+        )}
+
+        {rateCheck?.exceedsLimit && (
+          <label className="flex items-start gap-2 p-2 bg-red-50 border border-red-200 rounded text-xs text-red-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={acceptedRate}
+              onChange={(e) => setAcceptedRate(e.target.checked)}
+              className="mt-0.5"
+            />
+            <span>
+              This rate is more than your {rateCheck.maxDeviation}% max slippage below the market rate. I accept it anyway.
+            </span>
+          </label>
+        )}
+
+        {isVariable && quote.depositMin && quote.depositMax && (
+          <div className="flex justify-between">
+            <span className="text-gray-600">Deposit limits:</span>
+            <span className="font-medium text-gray-900">{quote.depositMin} – {quote.depositMax} {quote.depositCoin}</span>
+          </div>
+        )}
+
+        {!isVariable && onSelectMode && quote.availableModes?.includes('variable') && (
+          <button
+            onClick={() => onSelectMode('variable')}
+            className="text-xs text-blue-600 hover:text-blue-800"
+          >
+            Prefer no quote expiry? Use a variable rate instead
+          </button>
+        )}
+
         {quote.expiry && (
           <div className="flex justify-between border-t pt-3">
             <span className="text-gray-600">Quote expires:</span>
@@ -314,7 +466,7 @@ export default function SwapConfirmation({ quote, confidence = 100 }: SwapConfir
       <div className="mt-4 space-y-2">
         <button
           onClick={handleConfirm}
-          disabled={!isConnected || isPending || !address} 
+          disabled={!isConnected || isPending || !address || needsRateAcceptance} 
           className="w-full py-3 bg-gradient-to-r from-green-500 to-green-600 text-white rounded-lg font-medium hover:from-green-600 hover:to-green-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
         >
           {isPending ? 'Check Your Wallet...' : 'Confirm and Send'}
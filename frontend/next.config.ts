@@ -1,11 +1,17 @@
+import path from "path";
 import type { NextConfig } from "next";
 
+// Repo root, so @swapsmith/core (linked from ../packages/core) is inside the build's reach
+const workspaceRoot = path.join(__dirname, "..");
+
 const nextConfig: NextConfig = {
   output: "standalone",
+  outputFileTracingRoot: workspaceRoot,
   /* config options here */
-  // Empty turbopack config to silence the warning
   // MetaMask SDK SSR errors are expected and don't affect functionality
-  turbopack: {},
+  turbopack: {
+    root: workspaceRoot,
+  },
 };
 
 export default nextConfig;
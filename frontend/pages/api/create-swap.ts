@@ -1,12 +1,18 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { createQuote } from '@/utils/sideshift-client';
+import {
+  createQuote, createVariableShift, getPair, getShiftModes, checkQuoteRate, compareRoutes, rankRoutes, sideShiftRoute,
+  SWAP_PROVIDERS, ShiftMode, AmountSide, DEFAULT_MAX_RATE_DEVIATION,
+} from '@swapsmith/core';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  const { fromAsset, toAsset, amount, fromChain, toChain } = req.body;
+  const { fromAsset, toAsset, amount, fromChain, toChain, mode, settleAddress } = req.body;
+  const amountSide: AmountSide = req.body.amountSide === 'settle' ? 'settle' : 'deposit';
+  // The user's max-slippage preference from their profile
+  const maxDeviation = typeof req.body.maxDeviation === 'number' && req.body.maxDeviation >= 0 ? req.body.maxDeviation : DEFAULT_MAX_RATE_DEVIATION;
 
   if (!fromAsset || !toAsset || !amount) {
     return res.status(400).json({ error: 'Missing required parameters' });
@@ -34,17 +40,69 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     }
 
     console.log(`Forwarding request for user IP: ${userIP}`);
-    
+
+    // Some coins/networks only support one shift type; fall back to fixed if the coin list is unavailable
+    const availableModes: ShiftMode[] = await getShiftModes(fromAsset, fromChain, toAsset, toChain).catch(() => ['fixed']);
+    if (mode && !availableModes.includes(mode)) {
+      return res.status(400).json({ error: `This pair does not support ${mode}-rate shifts.` });
+    }
+    const selectedMode: ShiftMode = mode || availableModes[0];
+
+    if (selectedMode === 'variable') {
+      // Variable shifts settle whatever the deposit is worth, so they can't target an exact receive amount
+      if (amountSide === 'settle') {
+        return res.status(400).json({ error: 'Receive-exact amounts need a fixed-rate quote, which this pair does not support.' });
+      }
+
+      // Variable shifts have no quote, so the deposit address is created straight away
+      if (!settleAddress) {
+        return res.status(400).json({ error: 'A settle address is required for variable-rate shifts.' });
+      }
+
+      const pair = await getPair(fromAsset, fromChain, toAsset, toChain, amount);
+      const shift = await createVariableShift(fromAsset, fromChain, toAsset, toChain, settleAddress, settleAddress, userIP);
+      const rateCheck = await checkQuoteRate(shift.depositCoin, shift.settleCoin, pair.rate, maxDeviation);
+
+      return res.status(200).json({
+        id: shift.id,
+        depositAmount: amount.toString(),
+        depositCoin: shift.depositCoin,
+        depositNetwork: shift.depositNetwork,
+        rate: pair.rate,
+        settleAmount: (amount * parseFloat(pair.rate)).toFixed(8),
+        settleCoin: shift.settleCoin,
+        settleNetwork: shift.settleNetwork,
+        memo: shift.depositMemo,
+        depositAddress: typeof shift.depositAddress === 'string' ? shift.depositAddress : shift.depositAddress.address,
+        depositMin: shift.depositMin,
+        depositMax: shift.depositMax,
+        mode: selectedMode,
+        availableModes,
+        rateCheck,
+      });
+    }
+
     const quote = await createQuote(
       fromAsset, 
       fromChain, 
       toAsset, 
       toChain, 
       amount,
-      userIP // Pass the validated IP
+      userIP, // Pass the validated IP
+      amountSide
     );
     
-    res.status(200).json(quote);
+    // Compared against market prices so the confirmation can show the spread and fees
+    const rateCheck = await checkQuoteRate(quote.depositCoin, quote.settleCoin, quote.rate, maxDeviation);
+
+    // DEX aggregator routes for the same swap, signed from the connected wallet
+    const alternatives = await compareRoutes(
+      { fromAsset, fromChain, toAsset, toChain, amount, amountSide, fromAddress: settleAddress, settleAddress, userIP },
+      SWAP_PROVIDERS.filter(p => p.id !== 'sideshift')
+    );
+    const routes = rankRoutes([sideShiftRoute(quote), ...alternatives.routes], amountSide);
+
+    res.status(200).json({ ...quote, mode: selectedMode, availableModes, amountSide, rateCheck, routes });
   } catch (error: unknown) {
     // ✅ FIX: Changed `error: any` to a safer type guard.
     const errorMessage = error instanceof Error ? error.message : 'Internal server error';
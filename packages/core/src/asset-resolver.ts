@@ -0,0 +1,135 @@
+import { canonicalChain, toSideShiftNetwork } from './chain-aliases';
+import type { SideShiftCoin } from './sideshift-client';
+
+// Names and variants people use for SideShift coins; candidates are tried in order
+const ASSET_ALIASES: Record<string, string[]> = {
+  ether: ['ETH'],
+  ethereum: ['ETH'],
+  bitcoin: ['BTC'],
+  tether: ['USDT'],
+  'usd coin': ['USDC'],
+  'usdc.e': ['USDCE', 'USDC'],
+  'bridged usdc': ['USDCE', 'USDC'],
+  'usdt.e': ['USDTE', 'USDT'],
+  matic: ['POL', 'MATIC'],
+  polygon: ['POL'],
+  solana: ['SOL'],
+  binance: ['BNB'],
+  avalanche: ['AVAX'],
+  litecoin: ['LTC'],
+  dogecoin: ['DOGE'],
+  ripple: ['XRP'],
+  tron: ['TRX'],
+  'wrapped bitcoin': ['WBTC'],
+  'wrapped ether': ['WETH'],
+};
+
+// A native coin's own network, used when the user names the coin without a network
+const HOME_NETWORKS: Record<string, string> = {
+  ETH: 'ethereum', BTC: 'bitcoin', SOL: 'solana', BNB: 'bsc', POL: 'polygon', AVAX: 'avax',
+  LTC: 'litecoin', DOGE: 'dogecoin', TRX: 'tron', XRP: 'ripple', BCH: 'bitcoincash', XLM: 'stellar',
+};
+
+// Order networks are offered in when a coin is ambiguous; unlisted networks follow alphabetically
+const NETWORK_PRIORITY = ['ethereum', 'tron', 'bsc', 'solana', 'arbitrum', 'base', 'polygon', 'optimism', 'avax'];
+
+export type AssetResolution =
+  | { status: 'resolved'; coin: string; network: string; corrected: boolean } // corrected: input differed from the result
+  | { status: 'ambiguous'; coin: string; networks: string[] }
+  | { status: 'unknown_coin'; input: string; suggestions: string[] }
+  | { status: 'unsupported_network'; coin: string; network: string; networks: string[] };
+
+// Optimal string alignment distance, so a swapped pair of letters ("USCD") is one edit
+function editDistance(a: string, b: string): number {
+  const d = Array.from({ length: a.length + 1 }, (_, i) => Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)));
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+    }
+  }
+  return d[a.length][b.length];
+}
+
+/**
+ * Candidates within typo distance of the input: one edit for short names, two for longer ones
+ */
+function closest(input: string, candidates: string[]): string[] {
+  const maxDistance = input.length <= 4 ? 1 : 2;
+  return candidates
+    .map(candidate => ({ candidate, distance: editDistance(input, candidate) }))
+    .filter(({ distance }) => distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance)
+    .map(({ candidate }) => candidate);
+}
+
+// Most-used networks first, for buttons and suggestions
+export function sortNetworks(networks: string[]): string[] {
+  const rank = (network: string) => {
+    const index = NETWORK_PRIORITY.indexOf(network);
+    return index === -1 ? NETWORK_PRIORITY.length : index;
+  };
+  return [...networks].sort((a, b) => rank(a) - rank(b) || a.localeCompare(b));
+}
+
+/**
+ * Finds the SideShift coin for what the user or model wrote: exact symbol, alias,
+ * then a typo-tolerant match on symbols and coin names
+ */
+export function findCoin(coins: SideShiftCoin[], input: string): { coin: SideShiftCoin; corrected: boolean } | { suggestions: string[] } {
+  const listed = coins.filter(c => !c.deprecated);
+  const bySymbol = new Map(listed.map(c => [c.coin.toUpperCase(), c]));
+  const key = input.trim().toLowerCase().replace(/\s+/g, ' ');
+
+  const exact = bySymbol.get(key.toUpperCase());
+  if (exact) return { coin: exact, corrected: false };
+
+  for (const symbol of ASSET_ALIASES[key] ?? []) {
+    const coin = bySymbol.get(symbol);
+    if (coin) return { coin, corrected: true };
+  }
+
+  const byName = new Map(listed.map(c => [c.name.toLowerCase(), c]));
+  const named = byName.get(key);
+  if (named) return { coin: named, corrected: true };
+
+  const matches = [
+    ...closest(key.toUpperCase(), [...bySymbol.keys()]).map(symbol => bySymbol.get(symbol)!),
+    ...closest(key, [...byName.keys()]).map(name => byName.get(name)!),
+  ];
+  const unique = [...new Set(matches)];
+  if (unique.length === 1) return { coin: unique[0], corrected: true };
+  return { suggestions: unique.slice(0, 5).map(c => c.coin) };
+}
+
+/**
+ * Maps a parsed asset and network onto a coin/network pair SideShift actually lists
+ * @param coins - SideShift's /coins list
+ * @param asset - Asset as parsed ("usdt", "Tether", "USCD")
+ * @param network - Network as parsed, or null when the user didn't name one
+ */
+export function resolveAssetNetwork(coins: SideShiftCoin[], asset: string, network: string | null): AssetResolution {
+  const found = findCoin(coins, asset);
+  if (!('coin' in found)) return { status: 'unknown_coin', input: asset, suggestions: found.suggestions };
+
+  const { coin, corrected } = found;
+  const networks = coin.networks.map(n => n.toLowerCase());
+
+  if (!network) {
+    if (networks.length === 1) return { status: 'resolved', coin: coin.coin, network: networks[0], corrected };
+    const home = HOME_NETWORKS[coin.coin.toUpperCase()];
+    if (home && networks.includes(home)) return { status: 'resolved', coin: coin.coin, network: home, corrected };
+    return { status: 'ambiguous', coin: coin.coin, networks: sortNetworks(networks) };
+  }
+
+  const requested = network.trim().toLowerCase();
+  const standard = toSideShiftNetwork(canonicalChain(requested) ?? requested);
+  if (networks.includes(standard)) {
+    return { status: 'resolved', coin: coin.coin, network: standard, corrected };
+  }
+
+  const [typo] = closest(standard, networks);
+  if (typo) return { status: 'resolved', coin: coin.coin, network: typo, corrected: true };
+
+  return { status: 'unsupported_network', coin: coin.coin, network, networks: sortNetworks(networks) };
+}
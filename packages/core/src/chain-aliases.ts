@@ -0,0 +1,40 @@
+// Chain names users type, keyed by the standardized chain the parser emits
+export const CHAIN_ALIASES: Record<string, string[]> = {
+  ethereum: ['ethereum', 'eth', 'mainnet', 'ethereum mainnet', 'eth mainnet', 'erc20'],
+  bitcoin: ['bitcoin', 'btc'],
+  solana: ['solana', 'sol'],
+  polygon: ['polygon', 'polygon pos', 'matic', 'pol'],
+  arbitrum: ['arbitrum one', 'arbitrum-one', 'arbitrum', 'arb'],
+  optimism: ['optimism', 'op mainnet', 'op'],
+  bsc: ['binance smart chain', 'bnb smart chain', 'bnb chain', 'binance', 'bsc', 'bnb', 'bep20'],
+  base: ['base'],
+  avalanche: ['avalanche c-chain', 'avalanche', 'c-chain', 'avax'],
+  litecoin: ['litecoin', 'ltc'],
+  dogecoin: ['dogecoin', 'doge'],
+  tron: ['tron', 'trc20'],
+  ripple: ['ripple', 'xrp'],
+};
+
+export const CHAIN_BY_ALIAS: ReadonlyMap<string, string> = new Map(
+  Object.entries(CHAIN_ALIASES).flatMap(([chain, aliases]) => aliases.map(alias => [alias, chain] as const))
+);
+
+/**
+ * Maps what a user or model wrote for a chain ("Arbitrum One", "BNB Chain", "matic") onto
+ * the standardized chain id, or null when it isn't a known alias
+ */
+export function canonicalChain(name: string): string | null {
+  return CHAIN_BY_ALIAS.get(name.trim().toLowerCase().replace(/\s+/g, ' ')) ?? null;
+}
+
+// Standardized chains whose SideShift network id differs
+const SIDESHIFT_NETWORK_IDS: Record<string, string> = {
+  avalanche: 'avax',
+};
+
+/**
+ * SideShift's network id for a standardized chain ("avalanche" is listed as "avax")
+ */
+export function toSideShiftNetwork(chain: string): string {
+  return SIDESHIFT_NETWORK_IDS[chain] ?? chain;
+}
@@ -0,0 +1,157 @@
+import { validateParsedCommand, ParsedCommand, ValidationOptions } from './parsed-command';
+import { CHAIN_BY_ALIAS } from './chain-aliases';
+
+// Where an asset lives when the user doesn't name a chain; anything else needs an explicit chain
+const NATIVE_CHAINS: Record<string, string> = {
+  ETH: 'ethereum', BTC: 'bitcoin', SOL: 'solana', BNB: 'bsc', POL: 'polygon', MATIC: 'polygon', AVAX: 'avalanche',
+  ARB: 'arbitrum', OP: 'optimism', LTC: 'litecoin', DOGE: 'dogecoin', TRX: 'tron', XRP: 'ripple',
+};
+
+// Tokens issued on several networks; assumed to be on Ethereum unless the caller defers networks
+const TOKEN_CHAINS: Record<string, string> = {
+  WETH: 'ethereum', WBTC: 'ethereum', USDC: 'ethereum', USDT: 'ethereum', DAI: 'ethereum', LINK: 'ethereum', UNI: 'ethereum',
+};
+
+type ResolvedAsset = { asset: string; chain: string | null };
+
+const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\-]/g, '\\$&');
+
+// Longest alias first so "arbitrum one" wins over "arbitrum"
+const CHAIN = `(${[...CHAIN_BY_ALIAS.keys()].sort((a, b) => b.length - a.length).map(escape).join('|')})`;
+const AMOUNT = '(\\d+(?:\\.\\d+)?)';
+const ASSET = '([a-z][a-z0-9]{1,9})';
+const ON_CHAIN = `(?:\\s+(?:on|from|via)\\s+${CHAIN})?`;
+const ADDRESS = '(0x[0-9a-f]{40}|[a-z0-9-]+(?:\\.[a-z0-9-]+)*\\.(?:eth|lens|crypto|nft|blockchain|wallet|x|dao|888|zil|bitcoin))';
+
+const SWAP = new RegExp(`^(?:swap|convert|exchange|trade)\\s+${AMOUNT}\\s*${ASSET}${ON_CHAIN}\\s+(?:to|for|into)\\s+${ASSET}${ON_CHAIN}$`, 'i');
+const SWAP_RECEIVE_EXACT = new RegExp(`^(?:swap|convert|exchange|trade)\\s+${ASSET}${ON_CHAIN}\\s+(?:to|for|into)\\s+(?:exactly\\s+)?${AMOUNT}\\s*${ASSET}${ON_CHAIN}$`, 'i');
+const SEND = new RegExp(`^(?:send|pay)\\s+${AMOUNT}\\s*${ASSET}${ON_CHAIN}\\s+to\\s+${ADDRESS}$`, 'i');
+const RECEIVE = new RegExp(`^(?:i want to\\s+)?(?:receive|request)\\s+${AMOUNT}\\s*${ASSET}${ON_CHAIN}$`, 'i');
+const SPLIT = new RegExp(`^(?:split|divide|allocate)\\s+${AMOUNT}\\s*${ASSET}${ON_CHAIN}\\s+(?:into|between|across)\\s+(.+)$`, 'i');
+const SPLIT_LEG = new RegExp(`^${AMOUNT}\\s*%\\s*(?:of\\s+|in\\s+|to\\s+)?${ASSET}${ON_CHAIN}$`, 'i');
+const YIELDS = /^(?:(?:show|find|get|list)\s+(?:me\s+)?)?(?:what are\s+)?(?:the\s+)?(?:(?:best|top|highest)\s+)?(?:stablecoin\s+|stable\s+)?(?:yields?|apys?)(?:\s+(?:on|for)\s+(?:stablecoins|stables))?$/i;
+
+function chainOf(alias: string | undefined): string | null {
+  return alias ? CHAIN_BY_ALIAS.get(alias.toLowerCase()) ?? null : null;
+}
+
+/**
+ * Resolves an asset symbol and its chain. Unknown symbols need an explicit chain, and
+ * chain names ("bitcoin", "ethereum") are not taken as symbols, so the LLM gets those.
+ * With deferred networks, a token without a named chain keeps chain null.
+ */
+function resolveAsset(symbol: string, chainAlias: string | undefined, options: ValidationOptions): ResolvedAsset | null {
+  const asset = symbol.toUpperCase();
+  const known = asset in NATIVE_CHAINS || asset in TOKEN_CHAINS;
+  if (!known && CHAIN_BY_ALIAS.has(symbol.toLowerCase())) return null;
+
+  const chain = chainOf(chainAlias) ?? NATIVE_CHAINS[asset] ?? (options.deferNetworks ? null : TOKEN_CHAINS[asset]);
+  if (!chain && !(options.deferNetworks && known)) return null;
+  return { asset, chain: chain ?? null };
+}
+
+const sameAsset = (a: ResolvedAsset, b: ResolvedAsset) => a.asset === b.asset && a.chain === b.chain;
+
+const label = ({ asset, chain }: ResolvedAsset) => (chain ? `${asset} (${chain})` : asset);
+
+function parseSwap(input: string, options: ValidationOptions): Partial<ParsedCommand> | null {
+  let match = input.match(SWAP);
+  if (match) {
+    const [, amount, fromSymbol, fromChain, toSymbol, toChain] = match;
+    const from = resolveAsset(fromSymbol, fromChain, options);
+    const to = resolveAsset(toSymbol, toChain, options);
+    if (!from || !to || sameAsset(from, to)) return null;
+    return {
+      intent: 'swap', amount: parseFloat(amount), amountType: 'exact', amountSide: 'deposit',
+      fromAsset: from.asset, fromChain: from.chain, toAsset: to.asset, toChain: to.chain,
+      parsedMessage: `Swap ${amount} ${label(from)} for ${label(to)}`,
+    };
+  }
+
+  match = input.match(SWAP_RECEIVE_EXACT);
+  if (match) {
+    const [, fromSymbol, fromChain, amount, toSymbol, toChain] = match;
+    const from = resolveAsset(fromSymbol, fromChain, options);
+    const to = resolveAsset(toSymbol, toChain, options);
+    if (!from || !to || sameAsset(from, to)) return null;
+    return {
+      intent: 'swap', amount: parseFloat(amount), amountType: 'exact', amountSide: 'settle',
+      fromAsset: from.asset, fromChain: from.chain, toAsset: to.asset, toChain: to.chain,
+      parsedMessage: `Swap ${label(from)} to receive exactly ${amount} ${label(to)}`,
+    };
+  }
+
+  return null;
+}
+
+function parseCheckout(input: string, options: ValidationOptions): Partial<ParsedCommand> | null {
+  const send = input.match(SEND);
+  const receive = send ? null : input.match(RECEIVE);
+  const match = send || receive;
+  if (!match) return null;
+
+  const [, amount, symbol, chainAlias, address] = match;
+  const settle = resolveAsset(symbol, chainAlias, options);
+  if (!settle) return null;
+
+  return {
+    intent: 'checkout',
+    settleAsset: settle.asset, settleNetwork: settle.chain, settleAmount: parseFloat(amount),
+    settleAddress: address || null,
+    parsedMessage: address
+      ? `Create a link paying ${amount} ${label(settle)} to ${address}`
+      : `Create a link to receive ${amount} ${label(settle)}`,
+  };
+}
+
+function parsePortfolio(input: string, options: ValidationOptions): Partial<ParsedCommand> | null {
+  const match = input.match(SPLIT);
+  if (!match) return null;
+
+  const [, amount, fromSymbol, fromChain, legText] = match;
+  const from = resolveAsset(fromSymbol, fromChain, options);
+  if (!from) return null;
+
+  const portfolio: NonNullable<ParsedCommand['portfolio']> = [];
+  for (const legPart of legText.split(/\s*,\s*(?:and\s+)?|\s+and\s+/i)) {
+    const leg = legPart.match(SPLIT_LEG);
+    if (!leg) return null;
+    const to = resolveAsset(leg[2], leg[3], options);
+    if (!to) return null;
+    // A deferred leg network is filled in by the caller before the split runs
+    portfolio.push({ toAsset: to.asset, toChain: to.chain as string, percentage: parseFloat(leg[1]) });
+  }
+  if (portfolio.length < 2) return null;
+
+  return {
+    intent: 'portfolio', amount: parseFloat(amount), amountType: 'exact',
+    fromAsset: from.asset, fromChain: from.chain, portfolio,
+    parsedMessage: `Split ${amount} ${label(from)} into ${portfolio.map(p => `${p.percentage}% ${label({ asset: p.toAsset, chain: p.toChain })}`).join(', ')}`,
+  };
+}
+
+function parseYieldScout(input: string): Partial<ParsedCommand> | null {
+  if (!YIELDS.test(input)) return null;
+  return { intent: 'yield_scout', parsedMessage: 'Show the top stablecoin yields' };
+}
+
+/**
+ * Deterministic parser for well-formed swap, checkout, portfolio and yield phrases
+ * ("swap 1 ETH to BTC", "send 5 USDC to vitalik.eth"). Patterns are anchored, so any
+ * extra clause (a price condition, a schedule, "or") falls through to the LLM.
+ * @param options - Passed on to validation; deferNetworks also stops tokens defaulting to Ethereum
+ * @returns A validated command, or null when the phrase isn't covered or doesn't validate
+ */
+export function parseCommandGrammar(userInput: string, options: ValidationOptions = {}): ParsedCommand | null {
+  const input = userInput.trim().replace(/\s+/g, ' ').replace(/[.!]+$/, '');
+
+  for (const rule of [parseSwap, parseCheckout, parsePortfolio, parseYieldScout]) {
+    const parsed = rule(input, options);
+    if (!parsed) continue;
+
+    const command = validateParsedCommand({ success: true, confidence: 100, validationErrors: [], ...parsed }, userInput, options);
+    return command.success ? command : null;
+  }
+
+  return null;
+}
@@ -0,0 +1,207 @@
+import { z } from 'zod';
+import { canonicalChain } from './chain-aliases';
+import { completeJson, ChatMessage, CompletionOptions } from './llm-provider';
+import type { CommandParseFailure, ParsedCommand } from './parsed-command';
+
+const INTENTS = [
+  'swap', 'checkout', 'portfolio', 'yield_scout', 'yield_deposit', 'yield_migrate', 'conditional_swap', 'dca', 'unknown',
+] as const;
+
+type Intent = typeof INTENTS[number];
+
+// Models write "not given" as null, "", "null", "none" or "N/A"
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && /^(|null|none|n\/a|undefined)$/i.test(value.trim()));
+}
+
+// "1,000", "$50", "12.5%" and " 0.5 " are numbers; anything else is left for the schema to reject
+function toNumber(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  const cleaned = value.trim().replace(/^\$/, '').replace(/%$/, '').replace(/,(?=\d{3}(\D|$))/g, '');
+  return /^-?\d+(\.\d+)?$/.test(cleaned) ? Number(cleaned) : value;
+}
+
+function toBoolean(value: unknown): unknown {
+  if (typeof value === 'string' && /^(true|false)$/i.test(value.trim())) return value.trim().toLowerCase() === 'true';
+  return value;
+}
+
+const optional = <T extends z.ZodType>(schema: T) => z.preprocess(value => (isBlank(value) ? null : value), schema.nullable());
+
+const number = z.preprocess(toNumber, z.number().finite());
+
+const asset = z.string().trim().toUpperCase()
+  .regex(/^[A-Z0-9][A-Z0-9.-]{0,14}$/, 'must be a token symbol such as "USDC"');
+
+const chain = z.string().transform((value, ctx) => {
+  const normalized = value.trim().toLowerCase();
+  const standard = canonicalChain(normalized) ?? (/^[a-z0-9]+$/.test(normalized) ? normalized : null);
+  if (!standard) {
+    ctx.addIssue({ code: 'custom', message: `"${value}" is not a chain id; use a standardized chain such as "ethereum" or "arbitrum"` });
+    return z.NEVER;
+  }
+  return standard;
+});
+
+const portfolioLeg = z.object({
+  toAsset: asset,
+  toChain: chain,
+  percentage: z.preprocess(toNumber, z.number().gt(0).max(100)),
+});
+
+const triggerCondition = z.preprocess(value => {
+  if (typeof value !== 'string') return value;
+  const condition = value.trim().toLowerCase();
+  if (['>', '>=', 'over', 'greater', 'greater than'].includes(condition)) return 'above';
+  if (['<', '<=', 'under', 'less', 'less than'].includes(condition)) return 'below';
+  return condition;
+}, z.enum(['above', 'below']));
+
+const lowercase = <T extends z.ZodType>(schema: T) =>
+  z.preprocess(value => (typeof value === 'string' ? value.trim().toLowerCase() : value), schema);
+
+// Fields every intent carries
+const common = {
+  success: z.preprocess(toBoolean, z.boolean()).optional(),
+  confidence: optional(number).transform(value => {
+    if (value === null) return 0;
+    // Some models answer 0.95 for 95%
+    const percent = value > 0 && value < 1 ? value * 100 : value;
+    return Math.min(100, Math.max(0, percent));
+  }),
+  validationErrors: z.preprocess(
+    value => (isBlank(value) ? [] : typeof value === 'string' ? [value] : value),
+    z.array(z.string())
+  ),
+  parsedMessage: optional(z.string()).transform(value => value ?? ''),
+  requiresConfirmation: optional(z.preprocess(toBoolean, z.boolean())).transform(value => value ?? false),
+  amountType: optional(lowercase(z.enum(['exact', 'percentage', 'all']))),
+  amountSide: optional(lowercase(z.enum(['deposit', 'settle']))),
+};
+
+const swapFields = {
+  fromAsset: optional(asset),
+  fromChain: optional(chain),
+  toAsset: optional(asset),
+  toChain: optional(chain),
+  amount: optional(number),
+  settleAddress: optional(z.string().trim()),
+};
+
+// Only the fields an intent uses are checked; the rest are dropped instead of failing the parse
+const INTENT_SCHEMAS: Record<Intent, z.ZodObject> = {
+  swap: z.object({ ...common, ...swapFields }),
+  conditional_swap: z.object({
+    ...common,
+    ...swapFields,
+    triggerAsset: optional(asset),
+    triggerCondition: optional(triggerCondition),
+    triggerPrice: optional(number),
+  }),
+  dca: z.object({
+    ...common,
+    ...swapFields,
+    cadence: optional(lowercase(z.enum(['daily', 'weekly', 'monthly']))),
+    cadenceDay: optional(z.preprocess(toNumber, z.number().int())),
+    endDate: optional(z.string().trim().regex(/^\d{4}-\d{2}-\d{2}/, 'must be an ISO date (YYYY-MM-DD)').transform(date => date.slice(0, 10))),
+  }),
+  portfolio: z.object({
+    ...common,
+    fromAsset: optional(asset),
+    fromChain: optional(chain),
+    amount: optional(number),
+    settleAddress: optional(z.string().trim()),
+    portfolio: optional(z.array(portfolioLeg)),
+  }),
+  checkout: z.object({
+    ...common,
+    // Checkout falls back to these when the model fills the "from" side
+    fromAsset: optional(asset),
+    fromChain: optional(chain),
+    amount: optional(number),
+    settleAsset: optional(asset),
+    settleNetwork: optional(chain),
+    settleAmount: optional(number),
+    settleAddress: optional(z.string().trim()),
+  }),
+  yield_scout: z.object(common),
+  yield_deposit: z.object({
+    ...common,
+    ...swapFields,
+    toProject: optional(z.string().trim()),
+  }),
+  yield_migrate: z.object({
+    ...common,
+    fromAsset: optional(asset),
+    fromChain: optional(chain),
+    toChain: optional(chain),
+    amount: optional(number),
+    fromProject: optional(z.string().trim()),
+    fromYield: optional(number),
+    toProject: optional(z.string().trim()),
+    toYield: optional(number),
+  }),
+  unknown: z.object(common),
+};
+
+export type CommandSchemaResult =
+  | { ok: true; command: Partial<ParsedCommand> }
+  | { ok: false; issues: string[] };
+
+/**
+ * Checks raw model output against the schema of its intent, coercing what is safe to
+ * coerce (numeric strings, chain aliases, symbol case, blank-as-null)
+ * @returns The typed command, or one readable line per field that can't be used
+ */
+export function checkCommandSchema(raw: Record<string, unknown>): CommandSchemaResult {
+  const intentName = isBlank(raw.intent) ? 'unknown' : String(raw.intent).trim().toLowerCase().replace(/[\s-]+/g, '_');
+  if (!(INTENTS as readonly string[]).includes(intentName)) {
+    return { ok: false, issues: [`intent: "${raw.intent}" is not one of ${INTENTS.join(', ')}`] };
+  }
+  const intent = intentName as Intent;
+
+  const result = INTENT_SCHEMAS[intent].safeParse(raw);
+  if (!result.success) {
+    return {
+      ok: false,
+      issues: result.error.issues.map(issue => `${issue.path.join('.') || 'command'}: ${issue.message}`),
+    };
+  }
+
+  const { portfolio, ...fields } = result.data as Partial<ParsedCommand> & { portfolio?: ParsedCommand['portfolio'] | null };
+  return { ok: true, command: { ...fields, intent, ...(portfolio ? { portfolio } : {}) } };
+}
+
+function repairPrompt(issues: string[]): string {
+  return `Your JSON did not match the required format:\n${issues.map(issue => `- ${issue}`).join('\n')}\n` +
+    `Reply with the corrected JSON object only, using the same response format.`;
+}
+
+/**
+ * Asks the LLM chain for a command and checks it against the schema. Output that fails the
+ * schema is sent back once with the issues; if it fails again, or no provider answers,
+ * a typed failure is returned instead.
+ */
+export async function completeCommand(
+  messages: ChatMessage[],
+  options: CompletionOptions = {}
+): Promise<{ ok: true; command: Partial<ParsedCommand>; provider: string } | { ok: false; failure: CommandParseFailure }> {
+  try {
+    const first = await completeJson(messages, options);
+    const checked = checkCommandSchema(first.data);
+    if (checked.ok) return { ok: true, command: checked.command, provider: first.provider };
+
+    // One repair round: show the model its answer and what was wrong with it
+    const retry = await completeJson([
+      ...messages,
+      { role: 'assistant', content: JSON.stringify(first.data) },
+      { role: 'user', content: repairPrompt(checked.issues) },
+    ], options);
+    const rechecked = checkCommandSchema(retry.data);
+    if (rechecked.ok) return { ok: true, command: rechecked.command, provider: retry.provider };
+
+    return { ok: false, failure: { kind: 'invalid_output', issues: rechecked.issues } };
+  } catch (error) {
+    return { ok: false, failure: { kind: 'llm_unavailable', issues: [error instanceof Error ? error.message : String(error)] } };
+  }
+}
@@ -0,0 +1,14 @@
+export * from './sideshift-client';
+export * from './parsed-command';
+export * from './command-prompt';
+export * from './yield-client';
+export * from './llm-provider';
+export * from './command-grammar';
+export * from './chain-aliases';
+export * from './command-schema';
+export * from './asset-resolver';
+export * from './pair-preflight';
+export * from './price-client';
+export * from './rate-guard';
+export * from './lifi-client';
+export * from './swap-providers';
@@ -0,0 +1,166 @@
+import axios from 'axios';
+import { canonicalChain } from './chain-aliases';
+
+const LIFI_BASE_URL = 'https://li.quest/v1';
+const DEFAULT_SLIPPAGE = 0.005; // 0.5%, LI.FI's own default
+
+// EVM chain ids LI.FI routes on, keyed by standardized chain
+export const LIFI_CHAIN_IDS: Record<string, number> = {
+  ethereum: 1,
+  optimism: 10,
+  bsc: 56,
+  polygon: 137,
+  base: 8453,
+  arbitrum: 42161,
+  avalanche: 43114,
+};
+
+// LI.FI lists a chain's gas coin under the zero address
+const NATIVE_TOKEN_ADDRESSES = ['0x0000000000000000000000000000000000000000', '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee'];
+
+// Read per call like the SideShift keys; LI.FI works without one at a lower rate limit
+function lifiHeaders(): Record<string, string> {
+  const apiKey = process.env.LIFI_API_KEY;
+  return apiKey ? { 'x-lifi-api-key': apiKey } : {};
+}
+
+export interface LifiToken {
+  address: string;
+  symbol: string;
+  decimals: number;
+  chainId: number;
+  priceUSD?: string;
+}
+
+export interface LifiTransactionRequest {
+  to: string;
+  data: string;
+  value: string; // Hex wei
+  chainId: number;
+  gasLimit?: string;
+}
+
+export interface LifiQuote {
+  id: string;
+  tool: string;
+  toolDetails?: { name: string };
+  action: { fromToken: LifiToken; toToken: LifiToken; fromAmount: string; fromChainId: number; toChainId: number };
+  estimate: {
+    fromAmount: string;
+    toAmount: string;
+    toAmountMin: string;
+    approvalAddress: string;
+    executionDuration: number; // Seconds
+    feeCosts?: { amountUSD?: string }[];
+    gasCosts?: { amountUSD?: string }[];
+  };
+  transactionRequest: LifiTransactionRequest;
+}
+
+export interface LifiStatus {
+  status: 'NOT_FOUND' | 'INVALID' | 'PENDING' | 'DONE' | 'FAILED';
+  substatus?: string; // COMPLETED, PARTIAL or REFUNDED once DONE
+  sending?: { txHash?: string; amount?: string; token?: LifiToken; chainId?: number };
+  receiving?: { txHash?: string; amount?: string; token?: LifiToken; chainId?: number };
+  lifiExplorerLink?: string;
+}
+
+/**
+ * LI.FI's chain id for a chain name, or null for chains it doesn't route on (bitcoin, solana...)
+ */
+export function getLifiChainId(chain: string | null | undefined): number | null {
+  if (!chain) return null;
+  const canonical = canonicalChain(chain) ?? chain.toLowerCase();
+  return LIFI_CHAIN_IDS[canonical] ?? null;
+}
+
+export function isNativeLifiToken(token: Pick<LifiToken, 'address'>): boolean {
+  return NATIVE_TOKEN_ADDRESSES.includes(token.address.toLowerCase());
+}
+
+/**
+ * Converts a decimal amount to the token's smallest unit without going through floats
+ */
+export function toBaseUnits(amount: number | string, decimals: number): string {
+  // String(1e-7) is "1e-7"; plain notation keeps the shortest digits (toFixed would turn 0.1 into 0.1000…0006)
+  const plain = typeof amount === 'number'
+    ? amount.toLocaleString('en-US', { useGrouping: false, maximumFractionDigits: 20 })
+    : amount;
+  const [whole, fraction = ''] = plain.split('.');
+  const digits = `${whole}${fraction.padEnd(decimals, '0').slice(0, decimals)}`;
+  return BigInt(digits).toString();
+}
+
+export function fromBaseUnits(amount: string, decimals: number): string {
+  const digits = amount.padStart(decimals + 1, '0');
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, '');
+  return fraction ? `${whole}.${fraction}` : whole;
+}
+
+export async function getLifiToken(chainId: number, token: string): Promise<LifiToken> {
+  try {
+    const response = await axios.get<LifiToken>(`${LIFI_BASE_URL}/token`, {
+      params: { chain: chainId, token },
+      headers: lifiHeaders(),
+      timeout: 10000,
+    });
+    return response.data;
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      throw new Error(error.response?.data?.message || `LI.FI doesn't list ${token} on chain ${chainId}`);
+    }
+    throw new Error(`LI.FI doesn't list ${token} on chain ${chainId}`);
+  }
+}
+
+/**
+ * Best single-transaction route LI.FI finds across the DEXs and bridges it aggregates
+ * @param fromAddress - Wallet that will sign the transaction
+ * @param toAddress - Where the output is sent
+ */
+export async function getLifiQuote(
+  fromChainId: number,
+  fromToken: string,
+  toChainId: number,
+  toToken: string,
+  fromAmount: string,
+  fromAddress: string,
+  toAddress: string,
+  slippage: number = DEFAULT_SLIPPAGE
+): Promise<LifiQuote> {
+  try {
+    const response = await axios.get<LifiQuote>(`${LIFI_BASE_URL}/quote`, {
+      params: { fromChain: fromChainId, toChain: toChainId, fromToken, toToken, fromAmount, fromAddress, toAddress, slippage },
+      headers: lifiHeaders(),
+      timeout: 15000,
+    });
+    return response.data;
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      throw new Error(error.response?.data?.message || `LI.FI has no route for ${fromToken} to ${toToken}`);
+    }
+    throw new Error(`LI.FI has no route for ${fromToken} to ${toToken}`);
+  }
+}
+
+/**
+ * Status of a transaction sent for a LI.FI route, looked up by its source chain hash
+ */
+export async function getLifiStatus(txHash: string): Promise<LifiStatus> {
+  try {
+    const response = await axios.get<LifiStatus>(`${LIFI_BASE_URL}/status`, {
+      params: { txHash },
+      headers: lifiHeaders(),
+      timeout: 10000,
+    });
+    return response.data;
+  } catch (error) {
+    // LI.FI answers 404 until it has indexed the transaction
+    if (axios.isAxiosError(error) && error.response?.status === 404) return { status: 'NOT_FOUND' };
+    if (axios.isAxiosError(error)) {
+      throw new Error(error.response?.data?.message || 'Failed to get LI.FI status');
+    }
+    throw new Error('Failed to get LI.FI status');
+  }
+}
@@ -0,0 +1,212 @@
+import axios from 'axios';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionOptions {
+  temperature?: number;
+  maxTokens?: number;
+}
+
+/**
+ * A chat model that answers with a JSON object. Providers throw on transport or API
+ * errors so the chain can fail over to the next one.
+ */
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  complete(messages: ChatMessage[], options?: CompletionOptions): Promise<string>;
+}
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string;  // Up to and including the version segment, e.g. https://api.groq.com/openai/v1
+  apiKey?: string;  // Omitted for local servers
+  model: string;
+  timeoutMs?: number;
+}
+
+/**
+ * Any /chat/completions endpoint: Groq, OpenAI and the local servers (Ollama, llama.cpp)
+ * all speak this protocol, so they only differ by base URL, key and model.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly model: string;
+
+  constructor(readonly name: string, private config: OpenAICompatibleConfig) {
+    this.model = config.model;
+  }
+
+  async complete(messages: ChatMessage[], options: CompletionOptions = {}): Promise<string> {
+    try {
+      const response = await axios.post(
+        `${this.config.baseUrl.replace(/\/+$/, '')}/chat/completions`,
+        {
+          model: this.config.model,
+          messages,
+          response_format: { type: 'json_object' },
+          temperature: options.temperature ?? 0.1,
+          max_tokens: options.maxTokens ?? 1024,
+        },
+        {
+          headers: {
+            'Content-Type': 'application/json',
+            ...(this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {}),
+          },
+          timeout: this.config.timeoutMs ?? 30000,
+        }
+      );
+
+      const content = response.data?.choices?.[0]?.message?.content;
+      if (typeof content !== 'string') throw new Error('Completion has no message content');
+      return content;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        throw new Error(`${this.name}: ${error.response?.data?.error?.message || error.message}`);
+      }
+      throw error;
+    }
+  }
+}
+
+export interface OfflineResponse {
+  match: string | RegExp; // Compared with the last user message; strings match case-insensitively
+  response: Record<string, unknown>;
+}
+
+/**
+ * Deterministic stand-in for offline development and CI: answers from a fixed script,
+ * and with an "unknown" intent for anything it wasn't given.
+ */
+export class OfflineProvider implements LLMProvider {
+  readonly name = 'offline';
+  readonly model = 'scripted';
+
+  constructor(private responses: OfflineResponse[] = []) {}
+
+  async complete(messages: ChatMessage[]): Promise<string> {
+    const input = [...messages].reverse().find(m => m.role === 'user')?.content.trim() ?? '';
+
+    const scripted = this.responses.find(({ match }) =>
+      typeof match === 'string' ? match.toLowerCase() === input.toLowerCase() : match.test(input)
+    );
+    if (scripted) return JSON.stringify(scripted.response);
+
+    return JSON.stringify({
+      success: false,
+      intent: 'unknown',
+      confidence: 0,
+      validationErrors: ['No language model is configured (LLM_PROVIDER=offline), so only exact commands are understood.'],
+      parsedMessage: '',
+    });
+  }
+}
+
+export type LLMProviderName = 'groq' | 'openai' | 'local' | 'offline';
+
+const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  groq: 'llama-3.3-70b-versatile',
+  openai: 'gpt-4o-mini',
+  local: 'llama3.1',
+  offline: 'scripted',
+};
+
+/**
+ * Builds a provider from its env settings
+ * @param model - Overrides the provider's default/env model
+ */
+export function createLLMProvider(name: LLMProviderName, model?: string): LLMProvider {
+  switch (name) {
+    case 'groq':
+      return new OpenAICompatibleProvider('groq', {
+        baseUrl: 'https://api.groq.com/openai/v1',
+        apiKey: process.env.GROQ_API_KEY,
+        model: model || process.env.GROQ_MODEL || DEFAULT_MODELS.groq,
+      });
+    case 'openai':
+      return new OpenAICompatibleProvider('openai', {
+        baseUrl: process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+        apiKey: process.env.OPENAI_API_KEY,
+        model: model || process.env.OPENAI_MODEL || DEFAULT_MODELS.openai,
+      });
+    case 'local':
+      // Ollama serves the OpenAI protocol under /v1; point LOCAL_LLM_URL at llama.cpp's server the same way
+      return new OpenAICompatibleProvider('local', {
+        baseUrl: process.env.LOCAL_LLM_URL || 'http://localhost:11434/v1',
+        model: model || process.env.LOCAL_LLM_MODEL || DEFAULT_MODELS.local,
+        timeoutMs: 120000, // CPU inference is slow
+      });
+    case 'offline':
+      return new OfflineProvider();
+  }
+}
+
+function parseProviderName(value: string): LLMProviderName {
+  const name = value.trim().toLowerCase();
+  if (name in DEFAULT_MODELS) return name as LLMProviderName;
+  throw new Error(`Unknown LLM provider "${value}". Use one of: ${Object.keys(DEFAULT_MODELS).join(', ')}`);
+}
+
+let pinnedProviders: LLMProvider[] | null = null;
+
+/**
+ * Pins the provider chain instead of reading env, e.g. scripted offline responses in tests.
+ * Pass null to go back to env config.
+ */
+export function setLLMProviders(providers: LLMProvider[] | null): void {
+  pinnedProviders = providers;
+}
+
+/**
+ * Provider chain from env: LLM_PROVIDER (model: LLM_MODEL) first, then each of the
+ * comma-separated LLM_FALLBACK providers. Without LLM_PROVIDER, Groq is used when
+ * GROQ_API_KEY is set and the offline provider otherwise.
+ */
+export function getLLMProviders(): LLMProvider[] {
+  if (pinnedProviders) return pinnedProviders;
+
+  const primary = process.env.LLM_PROVIDER
+    ? parseProviderName(process.env.LLM_PROVIDER)
+    : process.env.GROQ_API_KEY ? 'groq' : 'offline';
+
+  const fallbacks = (process.env.LLM_FALLBACK || '')
+    .split(',')
+    .filter(name => name.trim())
+    .map(parseProviderName)
+    .filter(name => name !== primary);
+
+  return [
+    createLLMProvider(primary, process.env.LLM_MODEL || undefined),
+    ...fallbacks.map(name => createLLMProvider(name)),
+  ];
+}
+
+/**
+ * Asks each provider in turn until one returns a parseable JSON object.
+ * Errors and malformed answers fail over; the last error is thrown when every provider fails.
+ * @returns The parsed object and the provider that produced it
+ */
+export async function completeJson(
+  messages: ChatMessage[],
+  options: CompletionOptions = {},
+  providers: LLMProvider[] = getLLMProviders()
+): Promise<{ data: Record<string, any>; provider: string }> {
+  let lastError: unknown = new Error('No LLM provider configured');
+
+  for (const provider of providers) {
+    try {
+      const content = await provider.complete(messages, options);
+      const data = JSON.parse(content);
+      if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        throw new Error(`${provider.name} did not return a JSON object`);
+      }
+      return { data, provider: provider.name };
+    } catch (error) {
+      lastError = error;
+      console.warn(`LLM provider ${provider.name} (${provider.model}) failed:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  throw lastError;
+}
@@ -0,0 +1,106 @@
+import { isFlaggedForNetwork, AmountSide, SideShiftCoin, SideShiftPair } from './sideshift-client';
+import { sortNetworks } from './asset-resolver';
+
+export type ShiftSide = 'deposit' | 'settle';
+
+export interface ShiftCheckRequest {
+  depositCoin: string;
+  depositNetwork: string;
+  settleCoin: string;
+  settleNetwork: string;
+  amount: number | null;   // null when the amount isn't known yet
+  amountSide?: AmountSide; // Which coin `amount` is in; defaults to the deposit
+}
+
+export interface ShiftCheck {
+  problems: string[];             // Why SideShift would reject the shift as asked
+  warnings: string[];             // Worth telling the user, but not blocking
+  suggestedAmount: number | null; // Nearest amount within the pair's limits, on the request's amount side
+  alternativeNetworks: { side: ShiftSide; coin: string; networks: string[] } | null;
+}
+
+const emptyCheck = (): ShiftCheck => ({ problems: [], warnings: [], suggestedAmount: null, alternativeNetworks: null });
+
+/**
+ * Rounds an amount to four significant digits towards the inside of a limit, so a suggested
+ * minimum is never rounded below it (or a maximum above it)
+ */
+export function roundWithin(value: number, direction: 'up' | 'down'): number {
+  const factor = 10 ** (3 - Math.floor(Math.log10(value)));
+  return (direction === 'up' ? Math.ceil : Math.floor)(value * factor) / factor;
+}
+
+/**
+ * Checks one coin/network for the side of a shift it is used on: whether SideShift currently
+ * accepts deposits (or sends settlements) there, and whether it needs a memo
+ */
+export function checkNetwork(coins: SideShiftCoin[], coinSymbol: string, network: string, side: ShiftSide): ShiftCheck {
+  const check = emptyCheck();
+  const coin = coins.find(c => c.coin.toUpperCase() === coinSymbol.toUpperCase());
+  if (!coin) return check;
+
+  const offlineFlag = side === 'deposit' ? coin.depositOffline : coin.settleOffline;
+  if (isFlaggedForNetwork(offlineFlag, network)) {
+    const online = coin.networks.filter(n => n.toLowerCase() !== network.toLowerCase() && !isFlaggedForNetwork(offlineFlag, n));
+    check.problems.push(side === 'deposit'
+      ? `SideShift isn't accepting ${coin.coin} deposits on ${network} right now.`
+      : `SideShift isn't sending ${coin.coin} on ${network} right now.`);
+    if (online.length > 0) check.alternativeNetworks = { side, coin: coin.coin, networks: sortNetworks(online.map(n => n.toLowerCase())) };
+  }
+
+  // Settle memos (destination tags) can't be set on orders yet, so exchange deposit addresses won't work
+  if (side === 'settle' && coin.networksWithMemo?.map(n => n.toLowerCase()).includes(network.toLowerCase())) {
+    check.warnings.push(`${coin.coin} on ${network} uses a memo. No memo is attached to the payout, so use a wallet address rather than an exchange deposit address that requires one.`);
+  }
+
+  return check;
+}
+
+/**
+ * Pre-flight check of a shift before it is quoted: both networks are online, the pair exists,
+ * the amount is within the pair's min/max, and memo requirements are flagged
+ * @param coins - SideShift's /coins list (offline and memo flags)
+ * @param pair - The /pair response, or null when SideShift wouldn't return one
+ * @param request - The shift as parsed
+ * @param pairError - SideShift's message when the pair couldn't be fetched
+ */
+export function checkShift(coins: SideShiftCoin[], pair: SideShiftPair | null, request: ShiftCheckRequest, pairError?: string): ShiftCheck {
+  const deposit = checkNetwork(coins, request.depositCoin, request.depositNetwork, 'deposit');
+  const settle = checkNetwork(coins, request.settleCoin, request.settleNetwork, 'settle');
+  const check: ShiftCheck = {
+    problems: [...deposit.problems, ...settle.problems],
+    warnings: [...deposit.warnings, ...settle.warnings],
+    suggestedAmount: null,
+    alternativeNetworks: deposit.alternativeNetworks ?? settle.alternativeNetworks,
+  };
+
+  if (!pair) {
+    // An offline network already explains why there is no pair
+    if (check.problems.length === 0) {
+      check.problems.push(pairError ??
+        `SideShift doesn't support ${request.depositCoin} (${request.depositNetwork}) → ${request.settleCoin} (${request.settleNetwork}).`);
+    }
+    return check;
+  }
+
+  const rate = parseFloat(pair.rate);
+  const min = parseFloat(pair.min);
+  const max = parseFloat(pair.max);
+  if (request.amount === null || !(rate > 0)) return check;
+
+  // Limits are in the deposit coin; receive-exact amounts are converted at the current rate
+  const settleSide = request.amountSide === 'settle';
+  const depositAmount = settleSide ? request.amount / rate : request.amount;
+  const amountCoin = settleSide ? request.settleCoin : request.depositCoin;
+  const toRequestSide = (value: number) => (settleSide ? value * rate : value);
+
+  if (min > 0 && depositAmount < min) {
+    check.suggestedAmount = roundWithin(toRequestSide(min), 'up');
+    check.problems.push(`${request.amount} ${amountCoin} is below the minimum of ${check.suggestedAmount} ${amountCoin} for this pair.`);
+  } else if (max > 0 && depositAmount > max) {
+    check.suggestedAmount = roundWithin(toRequestSide(max), 'down');
+    check.problems.push(`${request.amount} ${amountCoin} is above the maximum of ${check.suggestedAmount} ${amountCoin} for this pair.`);
+  }
+
+  return check;
+}
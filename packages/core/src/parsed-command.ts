@@ -0,0 +1,229 @@
+// Structured command produced by the natural-language parsers in the bot and the web app
+export interface ParsedCommand {
+  success: boolean;
+  intent: "swap" | "checkout" | "portfolio" | "yield_scout" | "yield_deposit" | "yield_migrate" | "conditional_swap" | "dca" | "unknown";
+  
+  // Single Swap Fields
+  fromAsset: string | null;
+  fromChain: string | null;
+  toAsset: string | null;
+  toChain: string | null;
+  amount: number | null;
+  amountType?: "exact" | "percentage" | "all" | null; // Added back for compatibility
+  amountSide?: "deposit" | "settle" | null;      // "settle" = amount is in toAsset ("receive exactly X")
+  balanceAmount?: { share: number; balance: number; gasReserve: number } | null; // Set once a percentage/"all" amount is read from the wallet
+  
+  // Portfolio Fields (Array of outputs)
+  portfolio?: {
+    toAsset: string;
+    toChain: string;
+    percentage: number; // e.g., 50 for 50%
+  }[];
+
+  // Checkout Fields
+  settleAsset: string | null;
+  settleNetwork: string | null;
+  settleAmount: number | null;
+  settleAddress: string | null;
+  refundAddress?: string | null; // Deposit-network address for refunds; null once the user chose not to give one
+
+  fromProject: string | null;
+  fromYield: number | null;
+  toProject: string | null;
+  toYield: number | null;
+
+  // Conditional Swap Fields (price trigger)
+  triggerAsset?: string | null;                  // Asset whose USD price is watched
+  triggerCondition?: "above" | "below" | null;
+  triggerPrice?: number | null;                  // USD price threshold
+
+  // DCA Fields (recurring swap)
+  cadence?: "daily" | "weekly" | "monthly" | null;
+  cadenceDay?: number | null;                    // 0-6 (Sun-Sat) for weekly, 1-28 for monthly
+  endDate?: string | null;                       // ISO date (YYYY-MM-DD), null = no end
+
+  confidence: number;
+  validationErrors: string[];
+  parsedMessage: string;
+  requiresConfirmation?: boolean; // Added back for compatibility
+  originalInput?: string;         // Added back for compatibility
+  failure?: CommandParseFailure;  // Set when no usable command came back from the LLM
+}
+
+export interface CommandParseFailure {
+  kind: 'llm_unavailable' | 'invalid_output';
+  issues: string[]; // Provider errors or schema issues, for logs rather than users
+}
+
+const FAILURE_MESSAGES: Record<CommandParseFailure['kind'], string> = {
+  llm_unavailable: `I can't reach the language model right now. Simple commands like "swap 1 ETH to BTC" still work.`,
+  invalid_output: `I couldn't turn that into a valid command. Please rephrase it, e.g. "swap 1 ETH to BTC".`,
+};
+
+/**
+ * Last moment of a YYYY-MM-DD end date (UTC), so a schedule "until" a day still runs on that day
+ */
+export function endOfDay(date: string): Date {
+  return new Date(`${date.slice(0, 10)}T23:59:59.999Z`);
+}
+
+/**
+ * Unsuccessful command carrying why parsing failed, in place of a generic error
+ */
+export function failedCommand(failure: CommandParseFailure, userInput: string): ParsedCommand {
+  return {
+    success: false,
+    intent: 'unknown',
+    fromAsset: null, fromChain: null, toAsset: null, toChain: null, amount: null,
+    settleAsset: null, settleNetwork: null, settleAmount: null, settleAddress: null,
+    fromProject: null, fromYield: null, toProject: null, toYield: null,
+    confidence: 0,
+    validationErrors: [FAILURE_MESSAGES[failure.kind]],
+    parsedMessage: '',
+    originalInput: userInput,
+    failure,
+  };
+}
+
+export interface ValidationOptions {
+  deferNetworks?: boolean;  // Caller resolves missing networks itself (the bot asks), so they aren't errors
+  balanceAmounts?: boolean; // Caller resolves percentage/"all" amounts against a wallet balance
+}
+
+/**
+ * Checks an LLM-parsed command against each intent's required fields and normalises it.
+ * Failed checks land in validationErrors and clear `success`; confidence is lowered to match.
+ * @param parsed - Raw JSON returned by the model
+ * @param userInput - Original text, kept on the result for follow-up prompts
+ * @param options - Which checks the caller handles itself
+ */
+export function validateParsedCommand(parsed: Partial<ParsedCommand>, userInput: string, options: ValidationOptions = {}): ParsedCommand {
+  const errors: string[] = [];
+  // "Half my USDC" / "all my ETH": the amount is a percentage, or absent, until the balance is read
+  const fromBalance = parsed.amountType === "percentage" || parsed.amountType === "all";
+  
+  if (parsed.intent === "swap") {
+    if (!parsed.fromAsset) errors.push("Source asset not specified");
+    if (!parsed.toAsset) errors.push("Destination asset not specified");
+    if (!fromBalance && (!parsed.amount || parsed.amount <= 0)) errors.push("Invalid amount specified");
+    
+  } else if (parsed.intent === "portfolio") {
+    if (!parsed.fromAsset) errors.push("Source asset not specified");
+    if (!fromBalance && (!parsed.amount || parsed.amount <= 0)) errors.push("Invalid amount specified");
+    if (!parsed.portfolio || parsed.portfolio.length === 0) {
+      errors.push("No portfolio allocation specified");
+    } else {
+      // Validate portfolio percentages
+      const totalPercentage = parsed.portfolio.reduce((sum, item) => sum + (item.percentage || 0), 0);
+      if (Math.abs(totalPercentage - 100) > 1) { // Allow slight float tolerance
+        errors.push(`Total allocation is ${totalPercentage}%, but should be 100%`);
+      }
+    }
+
+  } else if (parsed.intent === "checkout") {
+    // "Send 5 USDC to 0x..." is often returned with from* fields; treat them as the settle side
+    if (!parsed.settleAsset && parsed.fromAsset) parsed.settleAsset = parsed.fromAsset;
+    if (!parsed.settleNetwork && parsed.fromChain) parsed.settleNetwork = parsed.fromChain;
+    if (!parsed.settleAmount && parsed.amount) parsed.settleAmount = parsed.amount;
+
+    if (!parsed.settleAsset) errors.push("Asset to receive not specified");
+    if (!parsed.settleNetwork && !options.deferNetworks) errors.push("Network to receive on not specified");
+    if (!parsed.settleAmount || parsed.settleAmount <= 0) errors.push("Invalid amount specified");
+    
+  } else if (parsed.intent === "yield_scout") {
+    // No specific validation needed for yield scout, just needs the intent
+    if (!parsed.success && (!parsed.validationErrors || parsed.validationErrors.length === 0)) {
+       // If AI marked as failed but didn't give a reason, we might still accept it if intent is clear
+       // But usually, we trust the AI's success flag here.
+    }
+  } else if (parsed.intent === "conditional_swap") {
+    if (!parsed.fromAsset) errors.push("Source asset not specified");
+    if (!parsed.toAsset) errors.push("Destination asset not specified");
+    if ((!parsed.fromChain || !parsed.toChain) && !options.deferNetworks) errors.push("Source and destination chains must be specified");
+    if (!parsed.amount || parsed.amount <= 0) errors.push("Invalid amount specified");
+    if (!parsed.triggerAsset && parsed.fromAsset) parsed.triggerAsset = parsed.fromAsset;
+    if (parsed.triggerCondition !== "above" && parsed.triggerCondition !== "below") errors.push("Price condition must be 'above' or 'below'");
+    if (!parsed.triggerPrice || parsed.triggerPrice <= 0) errors.push("Invalid trigger price specified");
+
+  } else if (parsed.intent === "dca") {
+    if (!parsed.fromAsset) errors.push("Source asset not specified");
+    if (!parsed.toAsset) errors.push("Destination asset not specified");
+    if ((!parsed.fromChain || !parsed.toChain) && !options.deferNetworks) errors.push("Source and destination chains must be specified");
+    if (!parsed.amount || parsed.amount <= 0) errors.push("Invalid amount specified");
+    if (!parsed.cadence || !["daily", "weekly", "monthly"].includes(parsed.cadence)) errors.push("Schedule must be daily, weekly or monthly");
+    if (parsed.cadence === "weekly" && parsed.cadenceDay != null && (parsed.cadenceDay < 0 || parsed.cadenceDay > 6)) errors.push("Invalid day of week");
+    if (parsed.cadence === "monthly" && parsed.cadenceDay != null && (parsed.cadenceDay < 1 || parsed.cadenceDay > 28)) errors.push("Day of month must be between 1 and 28");
+    if (parsed.endDate) {
+      const end = endOfDay(parsed.endDate);
+      if (isNaN(end.getTime())) errors.push("Invalid end date");
+      else if (end.getTime() < Date.now()) errors.push("End date is in the past");
+    }
+
+  } else if (parsed.intent === "yield_migrate") {
+    if (!parsed.fromAsset) errors.push("Source asset not specified for migration");
+    if (parsed.amount && parsed.amount <= 0) errors.push("Invalid migration amount");
+  } else if (!parsed.intent || parsed.intent === "unknown") {
+      if (parsed.success === false && parsed.validationErrors && parsed.validationErrors.length > 0) {
+         // Keep prompt-level validation errors
+      } else {
+        errors.push("Could not determine intent.");
+      }
+  }
+  
+  // Only single swaps are quoted per request; schedules, triggers and splits are priced in fromAsset
+  if (parsed.amountSide === "settle" && parsed.intent !== "swap") {
+    errors.push("Receive-exact amounts are only supported for single swaps");
+  }
+
+  if (fromBalance && (parsed.intent === "swap" || parsed.intent === "portfolio")) {
+    if (!options.balanceAmounts) errors.push("Amounts as a share of your balance aren't supported here; please give an exact amount");
+    else if (parsed.amountSide === "settle") errors.push("A receive-exact amount can't be a share of your balance");
+    else if (parsed.amountType === "percentage" && (!parsed.amount || parsed.amount <= 0 || parsed.amount > 100)) errors.push("Percentage must be between 0 and 100");
+  }
+
+  // Combine all errors
+  const allErrors = [...(parsed.validationErrors || []), ...errors];
+
+  // Additional validation for low confidence
+  if ((parsed.confidence || 0) < 50) {
+    allErrors.push("Low confidence in parsing. Please rephrase your command for clarity.");
+  }
+
+  // Update success status based on validation
+  const success = parsed.success !== false && allErrors.length === 0;
+  const confidence = allErrors.length > 0 ? Math.max(0, (parsed.confidence || 0) - 30) : parsed.confidence;
+  
+  const result: ParsedCommand = {
+    success,
+    intent: parsed.intent || 'unknown',
+    fromAsset: parsed.fromAsset || null,
+    fromChain: parsed.fromChain || null,
+    toAsset: parsed.toAsset || null,
+    toChain: parsed.toChain || null,
+    amount: parsed.amount || null,
+    amountType: parsed.amountType || null,
+    amountSide: parsed.amountSide === 'settle' ? 'settle' : 'deposit',
+    portfolio: parsed.portfolio, // Pass through portfolio
+    settleAsset: parsed.settleAsset || null,
+    settleNetwork: parsed.settleNetwork || null,
+    settleAmount: parsed.settleAmount || null,
+    settleAddress: parsed.settleAddress || null,
+    fromProject: parsed.fromProject || null,
+    fromYield: parsed.fromYield || null,
+    toProject: parsed.toProject || null,
+    toYield: parsed.toYield || null,
+    triggerAsset: parsed.triggerAsset || null,
+    triggerCondition: parsed.triggerCondition || null,
+    triggerPrice: parsed.triggerPrice || null,
+    cadence: parsed.cadence || null,
+    cadenceDay: parsed.cadenceDay ?? null,
+    endDate: parsed.endDate || null,
+    confidence: confidence || 0,
+    validationErrors: allErrors,
+    parsedMessage: parsed.parsedMessage || '',
+    requiresConfirmation: parsed.requiresConfirmation || false,
+    originalInput: userInput
+  };
+
+  return result;
+}
@@ -0,0 +1,74 @@
+import axios from 'axios';
+
+const COINGECKO_BASE_URL = 'https://api.coingecko.com/api/v3';
+
+// CoinGecko ids for the assets users commonly reference by ticker
+const COINGECKO_IDS: Record<string, string> = {
+  BTC: 'bitcoin',
+  ETH: 'ethereum',
+  USDT: 'tether',
+  USDC: 'usd-coin',
+  DAI: 'dai',
+  BNB: 'binancecoin',
+  SOL: 'solana',
+  XRP: 'ripple',
+  ADA: 'cardano',
+  DOGE: 'dogecoin',
+  TRX: 'tron',
+  LTC: 'litecoin',
+  MATIC: 'matic-network',
+  POL: 'polygon-ecosystem-token',
+  DOT: 'polkadot',
+  AVAX: 'avalanche-2',
+  LINK: 'chainlink',
+  BCH: 'bitcoin-cash',
+  UNI: 'uniswap',
+  XLM: 'stellar',
+  ATOM: 'cosmos',
+  ARB: 'arbitrum',
+  OP: 'optimism',
+  TON: 'the-open-network',
+};
+
+/**
+ * Returns true if we know how to price the given ticker
+ */
+export function isPriceSupported(symbol: string): boolean {
+  return symbol.toUpperCase() in COINGECKO_IDS;
+}
+
+/**
+ * Fetch USD prices for a list of tickers in a single request.
+ * Unknown tickers are skipped, so callers should check the result for each symbol.
+ */
+export async function getUsdPrices(symbols: string[]): Promise<Record<string, number>> {
+  const wanted = [...new Set(symbols.map(s => s.toUpperCase()))].filter(isPriceSupported);
+  if (wanted.length === 0) return {};
+
+  try {
+    const response = await axios.get(`${COINGECKO_BASE_URL}/simple/price`, {
+      params: {
+        ids: wanted.map(s => COINGECKO_IDS[s]).join(','),
+        vs_currencies: 'usd',
+      },
+      timeout: 10000,
+    });
+
+    const prices: Record<string, number> = {};
+    for (const symbol of wanted) {
+      const usd = response.data[COINGECKO_IDS[symbol]]?.usd;
+      if (typeof usd === 'number') prices[symbol] = usd;
+    }
+    return prices;
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      throw new Error(error.response?.data?.error || 'Failed to fetch prices');
+    }
+    throw new Error('Failed to fetch prices');
+  }
+}
+
+export async function getUsdPrice(symbol: string): Promise<number | null> {
+  const prices = await getUsdPrices([symbol]);
+  return prices[symbol.toUpperCase()] ?? null;
+}
@@ -0,0 +1,46 @@
+import { getUsdPrices } from './price-client';
+
+// How far below the market rate a quote may be before the user has to confirm it, in percent
+export const DEFAULT_MAX_RATE_DEVIATION = 2;
+
+export interface RateCheck {
+  quoteRate: number;     // Settle coin received per deposit coin, as quoted by SideShift
+  referenceRate: number; // The same from market USD prices
+  deviation: number;     // Percent the quote is below the market rate; spread plus fees, negative when better
+  maxDeviation: number;
+  exceedsLimit: boolean;
+}
+
+/**
+ * Compares a quoted rate with the rate implied by the two coins' USD prices
+ */
+export function compareToReferenceRate(quoteRate: number, depositUsd: number, settleUsd: number, maxDeviation: number = DEFAULT_MAX_RATE_DEVIATION): RateCheck {
+  const referenceRate = depositUsd / settleUsd;
+  const deviation = ((referenceRate - quoteRate) / referenceRate) * 100;
+  return { quoteRate, referenceRate, deviation, maxDeviation, exceedsLimit: deviation > maxDeviation };
+}
+
+/**
+ * Checks a SideShift quote's rate against market prices.
+ * @returns null when either coin has no market price, so the quote can't be checked
+ */
+export async function checkQuoteRate(depositCoin: string, settleCoin: string, quoteRate: string | number, maxDeviation: number = DEFAULT_MAX_RATE_DEVIATION): Promise<RateCheck | null> {
+  const rate = typeof quoteRate === 'number' ? quoteRate : parseFloat(quoteRate);
+  if (!(rate > 0)) return null;
+
+  const prices = await getUsdPrices([depositCoin, settleCoin]).catch(() => ({} as Record<string, number>));
+  const depositUsd = prices[depositCoin.toUpperCase()];
+  const settleUsd = prices[settleCoin.toUpperCase()];
+  if (!depositUsd || !settleUsd) return null;
+
+  return compareToReferenceRate(rate, depositUsd, settleUsd, maxDeviation);
+}
+
+/**
+ * One-line summary of a rate check, e.g. "0.84% below market (limit 2%)"
+ */
+export function describeRateDeviation(check: RateCheck): string {
+  const amount = `${Math.abs(check.deviation).toFixed(2)}%`;
+  const direction = check.deviation >= 0 ? 'below' : 'above';
+  return `${amount} ${direction} market (limit ${check.maxDeviation}%)`;
+}
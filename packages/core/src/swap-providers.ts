@@ -0,0 +1,265 @@
+import { createQuote, getOrderStatus, AmountSide, SideShiftQuote } from './sideshift-client';
+import {
+  getLifiChainId,
+  getLifiQuote,
+  getLifiStatus,
+  getLifiToken,
+  isNativeLifiToken,
+  fromBaseUnits,
+  toBaseUnits,
+  LifiStatus,
+} from './lifi-client';
+
+export type SwapProviderId = 'sideshift' | 'lifi';
+
+export interface RouteRequest {
+  fromAsset: string;
+  fromChain: string;
+  toAsset: string;
+  toChain: string;
+  amount: number;
+  amountSide?: AmountSide;
+  settleAddress?: string | null; // Wallet-signed routes pay out straight to it
+  fromAddress?: string | null;   // Wallet that signs wallet-signed routes
+  userIP?: string;
+}
+
+// One transaction the user signs, in order, to execute a wallet-signed route
+export interface RouteTransaction {
+  label: string; // "Approve USDC", "Swap"
+  to: string;
+  data: string;
+  value: string; // Hex wei
+  chainId: number;
+}
+
+export interface RouteQuote {
+  provider: SwapProviderId;
+  providerName: string; // "SideShift", "LI.FI via Uniswap"
+  id: string | null;    // The provider's quote id
+  depositCoin: string;
+  depositNetwork: string;
+  settleCoin: string;
+  settleNetwork: string;
+  depositAmount: string;
+  settleAmount: string;
+  settleAmountMin: string | null; // Least the route pays out after slippage; null for fixed quotes
+  rate: string;
+  expiry: string | null;
+  feeUsd: number | null;          // Gas and protocol fees the route adds on top of the rate, when known
+  // 'deposit': send funds to an address after placing the order; 'wallet': sign `transactions`
+  execution: 'deposit' | 'wallet';
+  transactions: RouteTransaction[];
+}
+
+// Order status in the bot's vocabulary (SideShift's statuses plus 'failed'), with what the notifications show
+export interface ProviderOrderStatus {
+  id: string;
+  status: string;
+  depositCoin: string;
+  depositNetwork: string;
+  settleCoin: string;
+  settleNetwork: string;
+  depositAmount: string | null;
+  settleAmount: string | null;
+  depositHash: string | null;
+  settleHash: string | null;
+  createdAt?: string; // When the provider reports it
+}
+
+export interface SwapProvider {
+  id: SwapProviderId;
+  name: string;
+  /** Whether the provider can quote this request at all, checked before any API call */
+  supports(request: RouteRequest): boolean;
+  getQuote(request: RouteRequest): Promise<RouteQuote>;
+  /** Status of an order this provider executed: a SideShift shift id, or the source transaction hash for LI.FI */
+  getOrderStatus(orderId: string): Promise<ProviderOrderStatus>;
+}
+
+const EVM_ADDRESS = /^0x[a-fA-F0-9]{40}$/;
+const APPROVE_SELECTOR = '0x095ea7b3';
+
+/**
+ * Calldata for ERC20 approve(spender, amount)
+ */
+export function encodeApprove(spender: string, amount: string): string {
+  const pad = (hex: string) => hex.padStart(64, '0');
+  return `${APPROVE_SELECTOR}${pad(spender.slice(2).toLowerCase())}${pad(BigInt(amount).toString(16))}`;
+}
+
+/**
+ * A SideShift quote as a route, so one already fetched can be ranked with the alternatives
+ */
+export function sideShiftRoute(quote: SideShiftQuote): RouteQuote {
+  return {
+    provider: 'sideshift',
+    providerName: 'SideShift',
+    id: quote.id ?? null,
+    depositCoin: quote.depositCoin,
+    depositNetwork: quote.depositNetwork,
+    settleCoin: quote.settleCoin,
+    settleNetwork: quote.settleNetwork,
+    depositAmount: quote.depositAmount,
+    settleAmount: quote.settleAmount,
+    settleAmountMin: null,
+    rate: quote.rate,
+    expiry: quote.expiry ?? null,
+    feeUsd: null, // Included in the rate
+    execution: 'deposit',
+    transactions: [],
+  };
+}
+
+export const sideShiftProvider: SwapProvider = {
+  id: 'sideshift',
+  name: 'SideShift',
+  supports: () => true,
+  async getQuote(request) {
+    const quote = await createQuote(
+      request.fromAsset, request.fromChain, request.toAsset, request.toChain,
+      request.amount, request.userIP, request.amountSide ?? 'deposit'
+    );
+    return sideShiftRoute(quote);
+  },
+  getOrderStatus: (orderId) => getOrderStatus(orderId),
+};
+
+/**
+ * Maps LI.FI's transfer status onto the bot's order statuses
+ */
+export function parseLifiStatus(status: LifiStatus): string {
+  switch (status.status) {
+    case 'NOT_FOUND':
+      return 'waiting'; // Not indexed yet, or not sent
+    case 'PENDING':
+      return 'processing';
+    case 'DONE':
+      return status.substatus === 'REFUNDED' ? 'refunded' : 'settled';
+    default:
+      return 'failed';
+  }
+}
+
+export const lifiProvider: SwapProvider = {
+  id: 'lifi',
+  name: 'LI.FI',
+  supports(request) {
+    // Receive-exact amounts and non-EVM chains need a deposit-address venue
+    return request.amountSide !== 'settle'
+      && getLifiChainId(request.fromChain) !== null
+      && getLifiChainId(request.toChain) !== null
+      && EVM_ADDRESS.test(request.fromAddress ?? '')
+      && EVM_ADDRESS.test(request.settleAddress ?? '');
+  },
+  async getQuote(request) {
+    const fromChainId = getLifiChainId(request.fromChain)!;
+    const toChainId = getLifiChainId(request.toChain)!;
+    const fromToken = await getLifiToken(fromChainId, request.fromAsset);
+    const fromAmount = toBaseUnits(request.amount, fromToken.decimals);
+
+    const quote = await getLifiQuote(
+      fromChainId, fromToken.address, toChainId, request.toAsset,
+      fromAmount, request.fromAddress!, request.settleAddress!
+    );
+    const { toToken } = quote.action;
+    const depositAmount = fromBaseUnits(quote.estimate.fromAmount, fromToken.decimals);
+    const settleAmount = fromBaseUnits(quote.estimate.toAmount, toToken.decimals);
+    const costs = [...(quote.estimate.feeCosts ?? []), ...(quote.estimate.gasCosts ?? [])];
+
+    const transactions: RouteTransaction[] = [];
+    if (!isNativeLifiToken(fromToken)) {
+      transactions.push({
+        label: `Approve ${fromToken.symbol}`,
+        to: fromToken.address,
+        data: encodeApprove(quote.estimate.approvalAddress, quote.estimate.fromAmount),
+        value: '0x0',
+        chainId: fromChainId,
+      });
+    }
+    const tx = quote.transactionRequest;
+    transactions.push({ label: 'Swap', to: tx.to, data: tx.data, value: tx.value || '0x0', chainId: fromChainId });
+
+    return {
+      provider: 'lifi',
+      providerName: quote.toolDetails?.name ? `LI.FI via ${quote.toolDetails.name}` : 'LI.FI',
+      id: quote.id,
+      depositCoin: fromToken.symbol,
+      depositNetwork: request.fromChain,
+      settleCoin: toToken.symbol,
+      settleNetwork: request.toChain,
+      depositAmount,
+      settleAmount,
+      settleAmountMin: fromBaseUnits(quote.estimate.toAmountMin, toToken.decimals),
+      rate: (parseFloat(settleAmount) / parseFloat(depositAmount)).toPrecision(8),
+      expiry: null, // Executes at the market rate within the slippage, whenever it is signed
+      feeUsd: costs.length > 0 ? costs.reduce((sum, cost) => sum + parseFloat(cost.amountUSD ?? '0'), 0) : null,
+      execution: 'wallet',
+      transactions,
+    };
+  },
+  async getOrderStatus(txHash) {
+    const status = await getLifiStatus(txHash);
+    const sent = status.sending?.token;
+    const received = status.receiving?.token;
+    return {
+      id: txHash,
+      status: parseLifiStatus(status),
+      depositCoin: sent?.symbol ?? '?',
+      depositNetwork: String(status.sending?.chainId ?? '?'),
+      settleCoin: received?.symbol ?? '?',
+      settleNetwork: String(status.receiving?.chainId ?? '?'),
+      depositAmount: sent && status.sending?.amount ? fromBaseUnits(status.sending.amount, sent.decimals) : null,
+      settleAmount: received && status.receiving?.amount ? fromBaseUnits(status.receiving.amount, received.decimals) : null,
+      depositHash: status.sending?.txHash ?? txHash,
+      settleHash: status.receiving?.txHash ?? null,
+    };
+  },
+};
+
+export const SWAP_PROVIDERS: SwapProvider[] = [sideShiftProvider, lifiProvider];
+
+export function getSwapProvider(id: string | null | undefined): SwapProvider {
+  const provider = SWAP_PROVIDERS.find(p => p.id === id);
+  if (!provider) throw new Error(`Unknown swap provider: ${id}`);
+  return provider;
+}
+
+/**
+ * Best route first: the most received for a given deposit, or the least to send for a
+ * receive-exact amount. Network gas is paid either way, so feeUsd is shown rather than ranked.
+ */
+export function rankRoutes(routes: RouteQuote[], amountSide: AmountSide = 'deposit'): RouteQuote[] {
+  if (amountSide === 'settle') return [...routes].sort((a, b) => parseFloat(a.depositAmount) - parseFloat(b.depositAmount));
+  return [...routes].sort((a, b) => parseFloat(b.settleAmount) - parseFloat(a.settleAmount));
+}
+
+/**
+ * How much less a route pays out than the best one, in percent (0 for the best route)
+ */
+export function routeShortfall(route: RouteQuote, best: RouteQuote, amountSide: AmountSide = 'deposit'): number {
+  if (amountSide === 'settle') return (parseFloat(route.depositAmount) / parseFloat(best.depositAmount) - 1) * 100;
+  return (1 - parseFloat(route.settleAmount) / parseFloat(best.settleAmount)) * 100;
+}
+
+export interface RouteComparison {
+  routes: RouteQuote[];                                  // Ranked, best first
+  failures: { provider: SwapProviderId; error: string }[]; // Providers that support the pair but couldn't quote it
+}
+
+/**
+ * Quotes a swap with every provider that supports it and ranks the results
+ */
+export async function compareRoutes(request: RouteRequest, providers: SwapProvider[] = SWAP_PROVIDERS): Promise<RouteComparison> {
+  const eligible = providers.filter(p => p.supports(request));
+  const results = await Promise.allSettled(eligible.map(p => p.getQuote(request)));
+
+  const routes: RouteQuote[] = [];
+  const failures: RouteComparison['failures'] = [];
+  results.forEach((result, i) => {
+    if (result.status === 'fulfilled') routes.push(result.value);
+    else failures.push({ provider: eligible[i].id, error: result.reason instanceof Error ? result.reason.message : String(result.reason) });
+  });
+
+  return { routes: rankRoutes(routes, request.amountSide), failures };
+}